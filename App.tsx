@@ -1,185 +1,127 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
-import L from 'leaflet';
-import { Vehicle, RoutesApiResponse, RawVehicle, ApiResponse } from './types';
+import { MapContainer, TileLayer, Circle, CircleMarker } from 'react-leaflet';
+import { GDANSK_CENTER, REFRESH_INTERVAL, MAX_REFRESH_INTERVAL, DELAY_THRESHOLD_SECONDS } from './constants';
+import { Vehicle, RawVehicle, RecordedSnapshot, ValidationIssue, RouteCatalog, VehicleType, Stop, RouteShape, HeatmapMode, RenderMode, Filters, MapView, FavouritePlace, AlertRule, Language, FilterPreset, DataSourceId, MarkerTheme } from './types';
+import { DEFAULT_HISTORY_WINDOW_MINUTES, VehicleHistoryStore } from './services/vehicleHistory';
+import { DelayStatsCollector } from './services/delayStats';
+import { AlertEvaluator, showAlertNotification } from './services/alerts';
+import { DEFAULT_HEATMAP_WINDOW_MINUTES, HeatmapCollector, aggregateHeatmap } from './services/delayHeatmap';
+import { fetchStops } from './services/apiClient';
+import { loadCached, saveCached } from './services/offlineStore';
+import { FrozenPositionTracker } from './services/feedHealth';
+import { SessionRecorder } from './services/recording';
+import { fetchRouteShapes, findRoute, resolveVehicleType } from './services/gtfs';
+import { analyzeHeadways } from './services/headways';
+import { DATA_SOURCES, DEFAULT_DATA_SOURCES, MergedVehiclesSnapshot, fetchRouteCatalogs, fetchVehiclesFromSources, getDataSources, isDataSourceId } from './services/dataSources';
+import { assignLineColors } from './utils/lineColors';
+import { buildUrlSearch, parseUrlState, roundMapView } from './utils/urlState';
+import { PollScheduler } from './utils/pollScheduler';
+import { parseFilterQuery } from './utils/filterQuery';
+import { DEFAULT_MARKER_THEME, buildMarkerLabel, createMarkerColorResolver, parseMarkerTheme } from './utils/markerStyle';
+import { I18nContext, LANGUAGES, MessageKey, createI18n, detectLanguage, isLanguage } from './i18n';
+import VehicleMarker from './components/VehicleMarker';
+import FastVehicleLayer from './components/FastVehicleLayer';
+import StopsLayer, { MIN_STOPS_ZOOM } from './components/StopsLayer';
+import DepartureBoard from './components/DepartureBoard';
+import RouteShapesLayer from './components/RouteShapesLayer';
+import VehicleAnimatorProvider from './components/VehicleAnimatorProvider';
+import VehicleTrail from './components/VehicleTrail';
+import TripReplayPanel from './components/TripReplayPanel';
+import DelayDashboard from './components/DelayDashboard';
+import HeadwayLayer from './components/HeadwayLayer';
+import HeadwayPanel from './components/HeadwayPanel';
+import HeatmapLayer, { HeatmapLegend } from './components/HeatmapLayer';
+import MapViewSync from './components/MapViewSync';
+import VehicleSearch from './components/VehicleSearch';
+import FollowCard from './components/FollowCard';
+import FavouritesPanel from './components/FavouritesPanel';
+import NearbyPanel from './components/NearbyPanel';
+import ConnectionIndicator from './components/ConnectionIndicator';
+import VehicleListPanel from './components/VehicleListPanel';
+import FilterPresets from './components/FilterPresets';
+import RecordingBar from './components/RecordingBar';
+import MarkerLegend from './components/MarkerLegend';
+import MarkerThemeSettings from './components/MarkerThemeSettings';
 
-// The original API endpoints are blocked by CORS policy.
-// We use a CORS proxy to bypass this browser limitation.
-const PROXY_URL = 'https://api.allorigins.win/raw?url=';
-const VEHICLES_API_URL = `${PROXY_URL}${encodeURIComponent('https://ckan2.multimediagdansk.pl/gpsPositions?v=2')}`;
-const ROUTES_API_URL = `${PROXY_URL}${encodeURIComponent('https://ckan.multimediagdansk.pl/dataset/c24aa637-3619-4dc2-a171-a23eec8f2172/resource/22313c56-5acf-41c7-a5fd-dc5dc72b3851/download/routes.json')}`;
+const HISTORY_WINDOW_OPTIONS = [10, 30, 60]; // minutes
+// In 'AUTO' render mode, more filtered vehicles than this switch to clustering and canvas
+const FAST_RENDER_THRESHOLD = 200;
+// The URL is written once the state settles, so typing a line number does not
+// create a history entry per keystroke.
+const URL_UPDATE_DELAY_MS = 500;
+const NOTICE_DURATION_MS = 6000;
+// Zoom used when jumping to a search result, unless already closer
+const SEARCH_RESULT_ZOOM = 16;
+const NEARBY_ZOOM = 16;
+// How often the live snapshot is written to IndexedDB for offline starts
+const SNAPSHOT_SAVE_INTERVAL_MS = 30000;
 
+const LEGACY_MARKER_SETTINGS = ['busColor', 'tramColor', 'busIconShape', 'tramIconShape', 'agencyColors'];
 
-const GDANSK_CENTER: L.LatLngExpression = [54.372158, 18.638306];
-const REFRESH_INTERVAL = 5000; // 5 seconds
-const DELAY_THRESHOLD_SECONDS = 120; // 2 minutes
-
-// --- Helper Types ---
-type IconShape = 'vehicle' | 'dot' | 'pin';
-type VehicleTypeFilter = 'ALL' | 'BUS' | 'TRAM';
-type DelayFilter = 'ALL' | 'ON_TIME' | 'DELAYED';
+const DEFAULT_FILTERS: Filters = { line: '', type: 'ALL', delay: 'ALL', query: '' };
+const DEFAULT_MAP_VIEW: MapView = { center: GDANSK_CENTER, zoom: 12 };
 
 interface Settings {
-  busColor: string;
-  tramColor: string;
-  busIconShape: IconShape;
-  tramIconShape: IconShape;
+  markerTheme: MarkerTheme;
   isDarkMode: boolean;
+  showStops: boolean;
+  // Bunching and gap flags stay on the map with the headways panel closed
+  showHeadwayFlags: boolean;
+  historyMinutes: number;
+  heatmapMode: HeatmapMode;
+  renderMode: RenderMode;
+  favouriteLines: string[];
+  favouritePlaces: FavouritePlace[];
+  alerts: AlertRule[];
+  nearbyRadius: number; // meters
+  language: Language;
+  filterPresets: FilterPreset[];
+  dataSources: DataSourceId[];
 }
 
-interface Filters {
-    line: string;
-    type: VehicleTypeFilter;
-    delay: DelayFilter;
-}
-
-// Helper function to fetch data with retries on server errors
-const fetchWithRetry = async (url: string, retries = 2, delay = 500): Promise<Response> => {
-  for (let i = 0; i <= retries; i++) {
-    try {
-      const response = await fetch(url);
-      if (response.ok || response.status < 500) {
-        return response;
-      }
-      console.warn(`Attempt ${i + 1} for ${url} failed with server error: ${response.status}. Retrying...`);
-    } catch (error) {
-      console.warn(`Attempt ${i + 1} for ${url} failed with a network error. Retrying...`, error);
-    }
-    
-    if (i < retries) {
-      await new Promise(resolve => setTimeout(resolve, delay * Math.pow(2, i)));
-    }
-  }
-  throw new Error(`Failed to fetch from ${url} after ${retries + 1} attempts.`);
-};
-
-
-// --- Helper Components ---
-interface VehicleMarkerProps {
-  vehicle: Vehicle;
-  color: string;
-  iconShape: IconShape;
-}
-
-const VehicleMarker: React.FC<VehicleMarkerProps> = ({ vehicle, color, iconShape }) => {
-  const icon = useMemo(() => {
-    const isTram = vehicle.vehicleType === 'TRAM';
-    let svg: string;
-    let iconSize: L.PointExpression;
-
-    const shadowFilter = `filter: drop-shadow(0 2px 2px rgba(0,0,0,0.5));`;
-
-    switch (iconShape) {
-      case 'dot':
-        const line = vehicle.routeShortName;
-        const fontSize = line.length > 2 ? '10px' : line.length > 1 ? '12px' : '14px';
-        svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="${color}" width="26" height="26" style="${shadowFilter}">
-            <circle cx="12" cy="12" r="11" stroke="white" stroke-width="1.5" />
-            <text x="12" y="12" dominant-baseline="central" text-anchor="middle" fill="white" font-size="${fontSize}" font-weight="bold" font-family="sans-serif">
-              ${line}
-            </text>
-          </svg>`;
-        iconSize = [26, 26];
-        break;
-      
-      case 'pin':
-        svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="${color}" width="30" height="30" style="${shadowFilter}">
-            <path d="M12 0C7.589 0 4 3.589 4 8c0 4.411 8 16 8 16s8-11.589 8-16c0-4.411-3.589-8-8-8zm0 12c-2.21 0-4-1.79-4-4s1.79-4 4-4 4 1.79 4 4-1.79 4-4 4z"/>
-          </svg>`;
-        iconSize = [30, 30];
-        break;
-
-      case 'vehicle':
-      default:
-        if (isTram) {
-          svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 40 12" fill="${color}" width="40" height="12" style="${shadowFilter}">
-              <rect x="0" y="0" width="19" height="12" rx="3" />
-              <rect x="21" y="0" width="19" height="12" rx="3" />
-              <rect x="18" y="4" width="4" height="4" fill="rgba(0,0,0,0.4)" rx="1"/>
-            </svg>`;
-          iconSize = [40, 12];
-        } else {
-          svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 30 14" fill="${color}" width="30" height="14" style="${shadowFilter}">
-              <rect x="0" y="0" width="30" height="14" rx="3" />
-              <rect x="3" y="2" width="24" height="10" fill="rgba(255,255,255,0.4)" rx="2" />
-            </svg>`;
-          iconSize = [30, 14];
-        }
-        break;
-    }
-
-    const iconHtml = `
-      <div style="transform-origin: center; transform: rotate(${vehicle.bearing}deg); transition: transform 0.5s linear;">
-        ${svg}
-      </div>
-    `;
-
-    return L.divIcon({
-      html: iconHtml,
-      className: '',
-      iconSize: iconSize,
-      iconAnchor: [iconSize[0] / 2, iconSize[1] / 2],
-      popupAnchor: [0, -iconSize[1] / 2],
-    });
-  }, [vehicle.bearing, vehicle.vehicleType, color, iconShape, vehicle.routeShortName]);
-
-  const delayInMinutes = Math.round(vehicle.delay / 60);
-  const delayText =
-    delayInMinutes > 0
-      ? `${delayInMinutes} min opóźnienia`
-      : delayInMinutes < 0
-      ? `${-delayInMinutes} min przyspieszenia`
-      : 'punktualnie';
-  const delayColor =
-    delayInMinutes > 2 ? 'text-red-500' : delayInMinutes < -2 ? 'text-green-500' : 'text-gray-700 dark:text-gray-400';
-
-  return (
-    <Marker position={[vehicle.lat, vehicle.lon]} icon={icon}>
-      <Popup>
-        <div className="font-sans text-gray-800 dark:text-gray-300">
-          <h3 className="font-bold text-lg mb-1 text-gray-900 dark:text-white">
-            {vehicle.vehicleType === 'TRAM' ? 'Tramwaj' : 'Autobus'} Linii: {vehicle.routeShortName}
-          </h3>
-          <p>
-            <span className="font-semibold">Kierunek:</span> {vehicle.headsign}
-          </p>
-          <p>
-            <span className="font-semibold">Pojazd:</span> {vehicle.vehicleCode}
-          </p>
-          <p>
-            <span className="font-semibold">Prędkość:</span> {vehicle.speed} km/h
-          </p>
-          <p className={delayColor}>
-            <span className="font-semibold">Status:</span> {delayText}
-          </p>
-        </div>
-      </Popup>
-    </Marker>
-  );
-};
-
 const App: React.FC = () => {
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
-  const [routeInfo, setRouteInfo] = useState<Map<string, 'BUS' | 'TRAM'>>(new Map());
+  const [routeInfo, setRouteInfo] = useState<RouteCatalog>(new Map());
+  const knownVehicleTypes = useRef(new Map<number, VehicleType>());
   const [lastUpdate, setLastUpdate] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [initError, setInitError] = useState<string | null>(null);
-  const [apiError, setApiError] = useState<string | null>(null);
+  const [initError, setInitError] = useState<MessageKey | null>(null);
+  const [apiError, setApiError] = useState<MessageKey | null>(null);
+  const [droppedRecords, setDroppedRecords] = useState<ValidationIssue[]>([]);
   const isInitialLoad = useRef(true);
+  // True while the map shows a saved snapshot instead of live data
+  const [isStale, setIsStale] = useState<boolean>(false);
+  const hasLiveData = useRef(false);
+  const lastSnapshotSave = useRef(0);
+  // Consecutive failed polls; drives the connection status and the back-off
+  const [failureCount, setFailureCount] = useState(0);
+  // updateKey of the last processed live snapshot, to skip unchanged payloads
+  const lastSeenUpdate = useRef('');
+  // Enabled data sources whose last poll failed while others answered
+  const [failedSources, setFailedSources] = useState<DataSourceId[]>([]);
+  const frozenPositions = useRef(new FrozenPositionTracker());
+  const [staleVehicleIds, setStaleVehicleIds] = useState<Set<number>>(new Set());
+  // A shared link overrides the defaults and saved settings on load.
+  const [initialUrlState] = useState(() => parseUrlState(window.location.search));
 
-  const [filters, setFilters] = useState<Filters>({
-    line: '',
-    type: 'ALL',
-    delay: 'ALL',
-  });
+  const [filters, setFilters] = useState<Filters>({ ...DEFAULT_FILTERS, ...initialUrlState.filters });
 
   const defaultSettings: Settings = {
-    busColor: '#2563EB',
-    tramColor: '#DC2626',
-    busIconShape: 'dot',
-    tramIconShape: 'dot',
+    markerTheme: DEFAULT_MARKER_THEME,
     isDarkMode: window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches,
+    showStops: false,
+    showHeadwayFlags: false,
+    historyMinutes: DEFAULT_HISTORY_WINDOW_MINUTES,
+    heatmapMode: 'OFF',
+    renderMode: 'AUTO',
+    favouriteLines: [],
+    favouritePlaces: [],
+    alerts: [],
+    nearbyRadius: 500,
+    language: detectLanguage(),
+    filterPresets: [],
+    dataSources: DEFAULT_DATA_SOURCES,
   };
 
   const loadSettings = (): Settings => {
@@ -191,16 +133,81 @@ const App: React.FC = () => {
         if (typeof parsed.isDarkMode !== 'boolean') {
           parsed.isDarkMode = defaultSettings.isDarkMode;
         }
-        return { ...defaultSettings, ...parsed };
+        if (!isLanguage(parsed.language)) {
+          parsed.language = defaultSettings.language;
+        }
+        // Presets saved before a filter field existed get its default.
+        parsed.filterPresets = Array.isArray(parsed.filterPresets)
+          ? parsed.filterPresets.map((preset: FilterPreset) => ({ ...preset, filters: { ...DEFAULT_FILTERS, ...preset.filters } }))
+          : defaultSettings.filterPresets;
+        const dataSources = Array.isArray(parsed.dataSources) ? parsed.dataSources.filter(isDataSourceId) : [];
+        parsed.dataSources = dataSources.length > 0 ? dataSources : defaultSettings.dataSources;
+        // Settings saved before marker themes kept the type colors, icons and
+        // operator colors at the top level.
+        parsed.markerTheme = parseMarkerTheme(parsed.markerTheme && typeof parsed.markerTheme === 'object' ? parsed.markerTheme : parsed);
+        for (const key of LEGACY_MARKER_SETTINGS) delete parsed[key];
+        return { ...defaultSettings, ...parsed, isDarkMode: initialUrlState.isDarkMode ?? parsed.isDarkMode };
       }
     } catch (error) {
       console.error("Could not load settings from localStorage", error);
     }
-    return defaultSettings;
+    return { ...defaultSettings, isDarkMode: initialUrlState.isDarkMode ?? defaultSettings.isDarkMode };
   };
   
   const [settings, setSettings] = useState<Settings>(loadSettings);
+  const dataSources = useMemo(() => getDataSources(settings.dataSources), [settings.dataSources]);
+  // Without a shared view the map opens over the first enabled city.
+  const [mapView, setMapView] = useState<MapView>(() => initialUrlState.view ?? {
+    ...DEFAULT_MAP_VIEW,
+    center: dataSources.find(source => source.center)?.center ?? DEFAULT_MAP_VIEW.center,
+  });
+  const i18n = useMemo(() => createI18n(settings.language), [settings.language]);
+  const { t, formatDateTime } = i18n;
+  // Read by fetchVehicles for alert texts, like alertConfig below
+  const translate = useRef(t);
+  translate.current = t;
   const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [stops, setStops] = useState<Stop[]>([]);
+  const [selectedStop, setSelectedStop] = useState<Stop | null>(null);
+  const [routeShapes, setRouteShapes] = useState<Map<string, RouteShape[]> | null>(null);
+  const [selectedVehicleId, setSelectedVehicleId] = useState<number | null>(initialUrlState.vehicleId ?? null);
+  const [replayTime, setReplayTime] = useState<number | null>(null);
+  const [isFollowing, setIsFollowing] = useState<boolean>(initialUrlState.isFollowing ?? false);
+  const lastFollowedVehicle = useRef<Vehicle | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const history = useRef(new VehicleHistoryStore(settings.historyMinutes));
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const delayStats = useRef(new DelayStatsCollector());
+  const [statsVersion, setStatsVersion] = useState(0);
+  const [isDashboardOpen, setIsDashboardOpen] = useState<boolean>(false);
+  const [isHeadwaysOpen, setIsHeadwaysOpen] = useState<boolean>(false);
+  const [isFavouritesOpen, setIsFavouritesOpen] = useState<boolean>(false);
+  const [isListOpen, setIsListOpen] = useState<boolean>(false);
+  // Focus goes back to the toggle when the list is closed from the keyboard
+  const listToggleRef = useRef<HTMLButtonElement>(null);
+  const [isNearbyOpen, setIsNearbyOpen] = useState<boolean>(false);
+  const [userPosition, setUserPosition] = useState<[number, number] | null>(null);
+  const [geolocationError, setGeolocationError] = useState<MessageKey | null>(null);
+  // Opens a vehicle's popup from a list; seq makes repeated taps on the same entry count
+  const [popupRequest, setPopupRequest] = useState<{ vehicleId: number; seq: number } | null>(null);
+  const alertEvaluator = useRef(new AlertEvaluator());
+  // Read by fetchVehicles, which must not be recreated on every settings change
+  const alertConfig = useRef({ alerts: settings.alerts, places: settings.favouritePlaces });
+  alertConfig.current = { alerts: settings.alerts, places: settings.favouritePlaces };
+  const heatmap = useRef(new HeatmapCollector());
+  const [heatmapVersion, setHeatmapVersion] = useState(0);
+  const recorder = useRef(new SessionRecorder());
+  const [recordingVersion, setRecordingVersion] = useState(0);
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  // Read by fetchVehicles, like alertConfig above
+  const isRecordingRef = useRef(isRecording);
+  isRecordingRef.current = isRecording;
+  const [isRecordingOpen, setIsRecordingOpen] = useState<boolean>(false);
+  // A loaded recording replaces the live feed until playback is stopped.
+  const [playback, setPlayback] = useState<RecordedSnapshot[] | null>(null);
+  const [playbackIndex, setPlaybackIndex] = useState(0);
+  const isReplaying = useRef(false);
+  const lastPlaybackIndex = useRef(-1);
 
   useEffect(() => {
     try {
@@ -217,34 +224,111 @@ const App: React.FC = () => {
     }
   }, [settings]);
 
+  useEffect(() => {
+    document.documentElement.lang = i18n.locale;
+    document.title = i18n.t('app.title');
+  }, [i18n]);
+
   useEffect(() => {
     const fetchRouteInfo = async () => {
+      // The saved catalog lets polling start before (or without) the GTFS download.
+      const cachedCatalog = await loadCached('lineCatalog').catch(() => null);
+      if (cachedCatalog && cachedCatalog.size > 0) setRouteInfo(cachedCatalog);
       try {
-        const response = await fetchWithRetry(ROUTES_API_URL);
-        if (!response.ok) throw new Error(`Błąd HTTP: ${response.status}`);
-        
-        const data: RoutesApiResponse = await response.json();
-        const routes = Object.values(data)[0]?.routes;
-        if (!routes) throw new Error("Nieprawidłowy format danych o liniach.");
-
-        const newRouteInfo = new Map<string, 'BUS' | 'TRAM'>();
-        for (const route of routes) {
-           if (route && route.routeShortName) {
-            const isTram = /^\d{1,2}$/.test(route.routeShortName);
-            const vehicleType = isTram ? 'TRAM' : 'BUS';
-            newRouteInfo.set(route.routeShortName, vehicleType);
-          }
-        }
-        setRouteInfo(newRouteInfo);
+        const catalog = await fetchRouteCatalogs(dataSources);
+        setRouteInfo(catalog);
+        saveCached('lineCatalog', catalog).catch(error => console.error("Nie udało się zapisać katalogu linii:", error));
       } catch (error) {
+        if (cachedCatalog && cachedCatalog.size > 0) {
+          console.error("Błąd pobierania informacji o liniach, używam zapisanych:", error);
+          return;
+        }
         console.error("Błąd krytyczny podczas pobierania informacji o liniach:", error);
-        setInitError("Nie można załadować kluczowych informacji o liniach. Odśwież stronę, aby spróbować ponownie.");
+        setInitError('errors.routeInfo');
         setIsLoading(false);
       }
     };
     fetchRouteInfo();
+  }, [dataSources]);
+
+  // Shows the last saved snapshot right away, until live data arrives.
+  useEffect(() => {
+    loadCached('vehicles')
+      .then(cached => {
+        if (!cached || hasLiveData.current) return;
+        setVehicles(cached.vehicles);
+        setLastUpdate(cached.lastUpdate);
+        setIsStale(true);
+        isInitialLoad.current = false;
+        setIsLoading(false);
+      })
+      .catch(error => console.error("Nie udało się odczytać zapisanych danych:", error));
   }, []);
 
+  // Stops are only downloaded once the layer is switched on for the first time.
+  useEffect(() => {
+    if (!settings.showStops || stops.length > 0) return;
+    const loadStops = async () => {
+      try {
+        setStops(await fetchStops());
+      } catch (error) {
+        console.error("Błąd pobierania przystanków:", error);
+        setApiError('errors.stops');
+      }
+    };
+    loadStops();
+  }, [settings.showStops, stops.length]);
+
+  // Shared by the live feed and recording playback, so a replayed recording
+  // goes through the same enrichment, history and rendering as live data.
+  // `snapshotTime` orders the snapshots for the trails, statistics and heatmap;
+  // `sourceUpdates` tells which sources of a live snapshot published anew.
+  const applySnapshot = useCallback((
+    lastUpdate: string,
+    rawVehicles: RawVehicle[],
+    snapshotTime: number,
+    isLive: boolean,
+    sourceUpdates?: MergedVehiclesSnapshot['sourceUpdates'],
+  ) => {
+    const enrichedVehicles: Vehicle[] = rawVehicles.map(v => ({
+      ...v,
+      vehicleType: resolveVehicleType(v, routeInfo, knownVehicleTypes.current),
+      agencyName: v.agencyName ?? findRoute(routeInfo, v.routeShortName, undefined, v.sourceId)?.agencyName ?? '',
+    }));
+
+    setVehicles(enrichedVehicles);
+    setStaleVehicleIds(frozenPositions.current.update(enrichedVehicles, sourceUpdates));
+    setIsStale(false);
+    if (isLive) {
+      hasLiveData.current = true;
+      if (Date.now() - lastSnapshotSave.current > SNAPSHOT_SAVE_INTERVAL_MS) {
+        lastSnapshotSave.current = Date.now();
+        saveCached('vehicles', { lastUpdate, vehicles: enrichedVehicles })
+          .catch(error => console.error("Nie udało się zapisać danych o pojazdach:", error));
+      }
+    }
+    if (history.current.record(snapshotTime, enrichedVehicles)) {
+      setHistoryVersion(version => version + 1);
+    }
+    if (delayStats.current.record(snapshotTime, enrichedVehicles)) {
+      setStatsVersion(version => version + 1);
+    }
+    if (heatmap.current.record(snapshotTime, enrichedVehicles)) {
+      setHeatmapVersion(version => version + 1);
+    }
+    // Alerts are about vehicles on the road now, not in a recording.
+    if (isLive) {
+      const alertMessages = alertEvaluator.current.evaluate(alertConfig.current.alerts, alertConfig.current.places, enrichedVehicles, translate.current);
+      const unshownMessages = alertMessages.filter(message => !showAlertNotification(message));
+      if (unshownMessages.length > 0) {
+        setNotice(unshownMessages.map(message => `${message.title}: ${message.body}`).join('\n'));
+      }
+    }
+    if (lastUpdate) {
+      setLastUpdate(lastUpdate);
+    }
+  }, [routeInfo]);
+
   const fetchVehicles = useCallback(async () => {
     if (routeInfo.size === 0) return;
 
@@ -253,37 +337,166 @@ const App: React.FC = () => {
     }
     
     try {
-      const response = await fetchWithRetry(VEHICLES_API_URL);
-      const data: ApiResponse = await response.json();
-      
-      const enrichedVehicles: Vehicle[] = data.vehicles.map((v: RawVehicle) => ({
-        ...v,
-        vehicleType: routeInfo.get(v.routeShortName) || 'BUS',
-      }));
-
-      setVehicles(enrichedVehicles);
-      if (data.lastUpdate) {
-        setLastUpdate(data.lastUpdate);
-      }
+      const data = await fetchVehiclesFromSources(dataSources);
+      // A poll started before playback must not overwrite the recording.
+      if (isReplaying.current) return;
+      setFailureCount(0);
       setApiError(null);
+      setFailedSources(data.failedSources);
+      // The feed republishes the same snapshot between its own updates;
+      // nothing on the map would change.
+      if (data.updateKey && data.updateKey === lastSeenUpdate.current) return;
+      lastSeenUpdate.current = data.updateKey;
+
+      if (isRecordingRef.current) {
+        recorder.current.record(data.lastUpdate, data.vehicles);
+        setRecordingVersion(version => version + 1);
+      }
+      // The merged lastUpdate is the newest of all sources, so it stands still
+      // when a source that lags behind the others publishes; the poll time
+      // moves on with every changed snapshot.
+      applySnapshot(data.lastUpdate, data.vehicles, Date.now(), true, data.sourceUpdates);
+      setDroppedRecords(data.issues.filter(issue => issue.action === 'dropped'));
     } catch (error) {
       console.error("Błąd pobierania danych o pojazdach:", error);
-      setApiError("Wystąpił problem podczas aktualizacji pozycji pojazdów.");
+      setApiError('errors.vehicles');
+      setFailureCount(count => count + 1);
+      // Rethrown so the scheduler backs off
+      throw error;
     } finally {
       if (isInitialLoad.current) {
         setIsLoading(false);
         isInitialLoad.current = false;
       }
     }
-  }, [routeInfo]);
+  }, [routeInfo, dataSources, applySnapshot]);
+
+  const isPlaybackActive = playback !== null;
+  useEffect(() => {
+    if (routeInfo.size > 0 && !initError && !isPlaybackActive) {
+      const scheduler = new PollScheduler(fetchVehicles, REFRESH_INTERVAL, MAX_REFRESH_INTERVAL);
+      scheduler.start();
+      return () => scheduler.stop();
+    }
+  }, [fetchVehicles, routeInfo.size, initError, isPlaybackActive]);
+
+  // Trails, statistics and the heatmap only make sense for one timeline, so
+  // they start over when switching between live data and a recording.
+  const resetCollectedData = () => {
+    history.current.reset();
+    delayStats.current.reset();
+    heatmap.current.reset();
+    frozenPositions.current.reset();
+    setHistoryVersion(version => version + 1);
+    setStatsVersion(version => version + 1);
+    setHeatmapVersion(version => version + 1);
+  };
+
+  const startPlayback = (snapshots: RecordedSnapshot[]) => {
+    isReplaying.current = true;
+    setIsRecording(false);
+    setReplayTime(null);
+    setDroppedRecords([]);
+    resetCollectedData();
+    lastPlaybackIndex.current = -1;
+    setPlaybackIndex(0);
+    setPlayback(snapshots);
+  };
+
+  const stopPlayback = () => {
+    isReplaying.current = false;
+    resetCollectedData();
+    // The next poll is applied even if the feed has not changed meanwhile.
+    lastSeenUpdate.current = '';
+    setPlayback(null);
+  };
+
+  useEffect(() => {
+    if (!playback) return;
+    // Seeking back would feed older snapshots to the collectors.
+    if (playbackIndex < lastPlaybackIndex.current) resetCollectedData();
+    lastPlaybackIndex.current = playbackIndex;
+    const snapshot = playback[playbackIndex];
+    applySnapshot(snapshot.lastUpdate, snapshot.vehicles, Date.parse(snapshot.lastUpdate) || Date.now(), false);
+  }, [playback, playbackIndex, applySnapshot]);
+
+  const recordingSnapshots = useMemo(() => recorder.current.getSnapshots(), [recordingVersion]);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      const { pathname, search: currentSearch, hash } = window.location;
+      const search = buildUrlSearch(filters, mapView, settings.isDarkMode, selectedVehicleId, isFollowing);
+      if (search === currentSearch) return;
+      // Panning and zooming replace the current entry; filter, theme and
+      // vehicle changes get their own entry, so back/forward steps through them.
+      const previousView = parseUrlState(currentSearch).view;
+      const isViewChange = !previousView ||
+        buildUrlSearch(filters, previousView, settings.isDarkMode, selectedVehicleId, isFollowing) === currentSearch;
+      if (isViewChange) {
+        window.history.replaceState(null, '', `${pathname}${search}${hash}`);
+      } else {
+        window.history.pushState(null, '', `${pathname}${search}${hash}`);
+      }
+    }, URL_UPDATE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [filters, mapView, settings.isDarkMode, selectedVehicleId, isFollowing]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseUrlState(window.location.search);
+      setFilters({ ...DEFAULT_FILTERS, ...state.filters });
+      if (state.view) setMapView(state.view);
+      if (state.isDarkMode !== undefined) {
+        const isDarkMode = state.isDarkMode;
+        setSettings(prev => ({ ...prev, isDarkMode }));
+      }
+      setSelectedVehicleId(state.vehicleId ?? null);
+      setIsFollowing(state.isFollowing ?? false);
+      setReplayTime(null);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
 
+  // The position is only watched while the "near me" panel is open.
   useEffect(() => {
-    if (routeInfo.size > 0 && !initError) {
-      fetchVehicles();
-      const intervalId = setInterval(fetchVehicles, REFRESH_INTERVAL);
-      return () => clearInterval(intervalId);
+    if (!isNearbyOpen) return;
+    if (!('geolocation' in navigator)) {
+      setGeolocationError('errors.geolocationUnsupported');
+      return;
     }
-  }, [fetchVehicles, routeInfo.size, initError]);
+
+    let hasCentered = false;
+    const watchId = navigator.geolocation.watchPosition(
+      position => {
+        const location: [number, number] = [position.coords.latitude, position.coords.longitude];
+        setUserPosition(location);
+        setGeolocationError(null);
+        if (!hasCentered) {
+          hasCentered = true;
+          setIsFollowing(false);
+          setMapView(view => roundMapView(location, Math.max(view.zoom, NEARBY_ZOOM)));
+        }
+      },
+      error => {
+        console.error("Błąd geolokalizacji:", error);
+        setGeolocationError(error.code === error.PERMISSION_DENIED
+          ? 'errors.geolocationDenied'
+          : 'errors.geolocationFailed');
+      },
+      { enableHighAccuracy: true, maximumAge: 10000, timeout: 20000 },
+    );
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      setUserPosition(null);
+      setGeolocationError(null);
+    };
+  }, [isNearbyOpen]);
+
+  useEffect(() => {
+    history.current.setWindow(settings.historyMinutes);
+    setHistoryVersion(version => version + 1);
+  }, [settings.historyMinutes]);
 
   const handleSettingsChange = <K extends keyof Settings>(key: K, value: Settings[K]) => {
     setSettings(prev => ({ ...prev, [key]: value }));
@@ -293,12 +506,47 @@ const App: React.FC = () => {
     setFilters(prev => ({...prev, [key]: value}));
   }
 
-  const filteredVehicles = useMemo(() => {
-    const lines = filters.line
-      .split(',')
-      .map(l => l.trim().toUpperCase())
-      .filter(l => l !== '');
+  // Stops saved from the departure board use a fixed id, so the star can find them again.
+  const toggleFavouriteStop = (stop: Stop) => {
+    const id = `stop-${stop.stopId}`;
+    if (settings.favouritePlaces.some(place => place.id === id)) {
+      handleSettingsChange('favouritePlaces', settings.favouritePlaces.filter(place => place.id !== id));
+      handleSettingsChange('alerts', settings.alerts.filter(rule => rule.kind !== 'APPROACH' || rule.placeId !== id));
+    } else {
+      handleSettingsChange('favouritePlaces', [
+        ...settings.favouritePlaces,
+        { id, name: `${stop.stopName} ${stop.stopCode}`.trim(), lat: stop.lat, lon: stop.lon, stopId: stop.stopId },
+      ]);
+    }
+  };
+
+  const selectedLines = useMemo(() => filters.line
+    .split(',')
+    .map(l => l.trim().toUpperCase())
+    .filter(l => l !== ''), [filters.line]);
+
+  // Route geometries are only needed (and downloaded) once a line is filtered
+  // or headways are analysed.
+  const isAnalysingHeadways = isHeadwaysOpen || settings.showHeadwayFlags;
+  const needsRouteShapes = selectedLines.length > 0 || isAnalysingHeadways;
+  useEffect(() => {
+    if (!needsRouteShapes || routeShapes) return;
+    fetchRouteShapes()
+      .then(setRouteShapes)
+      .catch(error => console.error("Błąd pobierania przebiegów linii:", error));
+  }, [needsRouteShapes, routeShapes]);
+
+  const lineColors = useMemo(() => assignLineColors(selectedLines, routeInfo), [selectedLines, routeInfo]);
+  // Only shapes of operators whose data source is enabled
+  const selectedShapes = useMemo(
+    () => selectedLines.flatMap(line =>
+      (routeShapes?.get(line) ?? []).filter(shape => findRoute(routeInfo, line, shape.agencyName))),
+    [selectedLines, routeShapes, routeInfo],
+  );
+
+  const filterQuery = useMemo(() => parseFilterQuery(filters.query), [filters.query]);
 
+  const filteredVehicles = useMemo(() => {
     return vehicles
       .filter(v => {
         if (filters.type === 'ALL') return true;
@@ -310,13 +558,127 @@ const App: React.FC = () => {
         return filters.delay === 'DELAYED' ? isDelayed : !isDelayed;
       })
       .filter(v => {
-        if (lines.length === 0) return true;
-        return lines.includes(v.routeShortName.toUpperCase());
-      });
-  }, [vehicles, filters]);
+        if (selectedLines.length === 0) return true;
+        return selectedLines.includes(v.routeShortName.toUpperCase());
+      })
+      .filter(filterQuery.matches);
+  }, [vehicles, filters.type, filters.delay, selectedLines, filterQuery]);
+
+  const selectedVehicle = useMemo(
+    () => vehicles.find(v => v.vehicleId === selectedVehicleId) ?? null,
+    [vehicles, selectedVehicleId],
+  );
+  const selectedTrack = useMemo(
+    () => (selectedVehicleId === null ? [] : history.current.getTrack(selectedVehicleId)),
+    [selectedVehicleId, historyVersion],
+  );
+
+  const handleVehicleSelect = useCallback((vehicleId: number | null) => {
+    setSelectedVehicleId(vehicleId);
+    setIsFollowing(false);
+    setReplayTime(null);
+  }, []);
+
+  // Search results are looked up in all vehicles; filters hiding the result are cleared.
+  const handleSearchSelect = (vehicle: Vehicle) => {
+    if (!filteredVehicles.some(v => v.vehicleId === vehicle.vehicleId)) {
+      setFilters(DEFAULT_FILTERS);
+    }
+    handleVehicleSelect(vehicle.vehicleId);
+    setMapView(view => roundMapView([vehicle.lat, vehicle.lon], Math.max(view.zoom, SEARCH_RESULT_ZOOM)));
+  };
+
+  const handleListVehicleSelect = (vehicle: Vehicle) => {
+    handleVehicleSelect(vehicle.vehicleId);
+    setMapView(view => roundMapView([vehicle.lat, vehicle.lon], Math.max(view.zoom, NEARBY_ZOOM)));
+    setPopupRequest(request => ({ vehicleId: vehicle.vehicleId, seq: (request?.seq ?? 0) + 1 }));
+  };
+
+  const handleNearbyVehicleClick = (vehicle: Vehicle) => {
+    setIsFollowing(false);
+    setMapView(view => roundMapView([vehicle.lat, vehicle.lon], Math.max(view.zoom, NEARBY_ZOOM)));
+    setPopupRequest(request => ({ vehicleId: vehicle.vehicleId, seq: (request?.seq ?? 0) + 1 }));
+  };
+
+  // Follow mode recenters the map on every new fix of the selected vehicle.
+  useEffect(() => {
+    if (!isFollowing || !selectedVehicle) return;
+    setMapView(view => roundMapView([selectedVehicle.lat, selectedVehicle.lon], view.zoom));
+  }, [isFollowing, selectedVehicle?.lat, selectedVehicle?.lon]);
+
+  // Ends follow mode when the vehicle is no longer in the feed (end of the
+  // trip, depot run or lost GPS).
+  useEffect(() => {
+    if (!isFollowing || selectedVehicleId === null || vehicles.length === 0) return;
+    if (selectedVehicle) {
+      lastFollowedVehicle.current = selectedVehicle;
+      return;
+    }
+    const code = lastFollowedVehicle.current?.vehicleCode ?? String(selectedVehicleId);
+    setNotice(t('app.followEnded', { code }));
+    handleVehicleSelect(null);
+  }, [vehicles]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timeoutId = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timeoutId);
+  }, [notice]);
 
-  const tramCount = useMemo(() => filteredVehicles.filter(v => v.vehicleType === 'TRAM').length, [filteredVehicles]);
-  const busCount = useMemo(() => filteredVehicles.filter(v => v.vehicleType === 'BUS').length, [filteredVehicles]);
+  const { markerTheme } = settings;
+  const getVehicleColor = useMemo(
+    () => createMarkerColorResolver(markerTheme, lineColors, routeInfo),
+    [markerTheme, lineColors, routeInfo],
+  );
+  const agencies = useMemo(
+    () => [...new Set([...vehicles.map(v => v.agencyName), ...Object.keys(markerTheme.agencyColors)])]
+      .filter(name => name !== '')
+      .sort((a, b) => a.localeCompare(b, 'pl')),
+    [vehicles, markerTheme.agencyColors],
+  );
+  const getVehicleIconShape = useCallback((vehicle: Vehicle) =>
+    vehicle.vehicleType === 'TRAM' ? markerTheme.tramIconShape : markerTheme.busIconShape,
+  [markerTheme.tramIconShape, markerTheme.busIconShape]);
+  const getVehicleLabel = useCallback(
+    (vehicle: Vehicle) => buildMarkerLabel(vehicle, markerTheme.labels, t),
+    [markerTheme.labels, t],
+  );
+  const typeColors = useMemo(
+    () => ({ BUS: markerTheme.busColor, TRAM: markerTheme.tramColor }),
+    [markerTheme.busColor, markerTheme.tramColor],
+  );
+
+  const isFastRendering = settings.renderMode === 'FAST' ||
+    (settings.renderMode === 'AUTO' && filteredVehicles.length > FAST_RENDER_THRESHOLD);
+
+  // The snapshot is only rebuilt while the dashboard is visible.
+  const delayStatsSnapshot = useMemo(
+    () => (isDashboardOpen ? delayStats.current.getSnapshot() : null),
+    [isDashboardOpen, statsVersion],
+  );
+
+  // Headways are computed from all vehicles, since a vehicle hidden by a
+  // filter would open a false gap; only lines left visible are shown.
+  const headwayAnalysis = useMemo(() => {
+    if (!isAnalysingHeadways) return null;
+    const analysis = analyzeHeadways(vehicles, routeShapes);
+    // Line numbers repeat between operators
+    const visibleLines = new Set(filteredVehicles.map(v => `${v.agencyName}|${v.routeShortName}`));
+    return {
+      ...analysis,
+      issues: analysis.issues.filter(issue => visibleLines.has(`${issue.agencyName}|${issue.routeShortName}`)),
+    };
+  }, [isAnalysingHeadways, vehicles, filteredVehicles, routeShapes]);
+
+  // The delay filter is left out on purpose: a vehicle gains delay before it
+  // counts as delayed, and the hotspots are where that happens.
+  const heatCells = useMemo(() => {
+    if (settings.heatmapMode === 'OFF') return [];
+    return aggregateHeatmap(heatmap.current.getSamples(), settings.heatmapMode, sample =>
+      (filters.type === 'ALL' || sample.vehicleType === filters.type) &&
+      (selectedLines.length === 0 || selectedLines.includes(sample.routeShortName.toUpperCase())),
+    );
+  }, [settings.heatmapMode, filters.type, selectedLines, heatmapVersion]);
 
   const FilterButton = ({
     label,
@@ -342,158 +704,561 @@ const App: React.FC = () => {
   );
 
   return (
-    <div className="relative h-screen w-screen bg-white dark:bg-gray-900">
-      <header className="absolute top-0 left-0 right-0 z-[1000] p-4 bg-white/80 dark:bg-black/70 backdrop-blur-sm text-gray-800 dark:text-white shadow-lg flex flex-col gap-2">
-        <div className="relative flex justify-center items-center flex-wrap gap-2 md:justify-end">
-          <div className="text-center md:absolute md:left-1/2 md:-translate-x-1/2">
-              <h1 className="text-xl md:text-2xl font-bold">Gdańsk Transport na Żywo</h1>
-              {lastUpdate && !isLoading && (
-                <p className="text-xs text-gray-600 dark:text-gray-300">Ostatnia aktualizacja: {lastUpdate}</p>
-              )}
-            </div>
-            <div className="flex items-center gap-4 text-sm md:text-base">
-               {apiError && (
-                <span className="flex items-center gap-1 text-yellow-500 dark:text-yellow-400" title={apiError}>
+    <I18nContext.Provider value={i18n}>
+      <div className="relative h-screen w-screen bg-white dark:bg-gray-900">
+        <header className="absolute top-0 left-0 right-0 z-[1000] p-4 bg-white/80 dark:bg-black/70 backdrop-blur-sm text-gray-800 dark:text-white shadow-lg flex flex-col gap-2">
+          <div className="relative flex justify-center items-center flex-wrap gap-2 md:justify-end">
+            <div className="text-center md:absolute md:left-1/2 md:-translate-x-1/2">
+                <h1 className="text-xl md:text-2xl font-bold">{t('app.title')}</h1>
+                {lastUpdate && !isLoading && (playback ? (
+                  <p className="text-xs font-semibold text-purple-600 dark:text-purple-400">{t('recording.playbackOf', { time: formatDateTime(lastUpdate) })}</p>
+                ) : isStale ? (
+                  <p className="text-xs font-semibold text-yellow-600 dark:text-yellow-400">{t('app.staleSnapshot', { time: formatDateTime(lastUpdate) })}</p>
+                ) : (
+                  <p className="text-xs text-gray-600 dark:text-gray-300">{t('app.lastUpdate', { time: formatDateTime(lastUpdate) })}</p>
+                ))}
+              </div>
+              <div className="flex items-center gap-4 text-sm md:text-base">
+                 {!isLoading && !playback && (
+                  <ConnectionIndicator
+                    lastUpdate={lastUpdate}
+                    failureCount={failureCount}
+                    isCachedData={isStale}
+                    errorMessage={apiError && t(apiError)}
+                  />
+                 )}
+                 {!playback && failedSources.length > 0 && (
+                  <span className="flex items-center gap-1 text-yellow-500 dark:text-yellow-400" role="status">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+                      <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                    </svg>
+                    <span className="text-xs md:text-sm">
+                      {t('app.failedSources', { sources: DATA_SOURCES.filter(source => failedSources.includes(source.id)).map(source => source.label).join(', ') })}
+                    </span>
+                  </span>
+                 )}
+                 {droppedRecords.length > 0 && (
+                  <span
+                    className="flex items-center gap-1 text-yellow-500 dark:text-yellow-400"
+                    title={droppedRecords.map(issue => `#${issue.vehicleId ?? issue.index}: ${issue.reasons.join(', ')}`).join('\n')}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                      <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+                    </svg>
+                    <span className="hidden md:inline">{t('app.droppedRecords', { count: droppedRecords.length })}</span>
+                  </span>
+                 )}
+                <MarkerLegend theme={markerTheme} vehicles={filteredVehicles} colorOf={getVehicleColor} />
+                <button
+                  onClick={() => {
+                    if (settings.showStops) setSelectedStop(null);
+                    handleSettingsChange('showStops', !settings.showStops);
+                  }}
+                  className={`p-2 rounded-md transition-colors ${
+                    settings.showStops
+                      ? 'bg-blue-600 text-white hover:bg-blue-700'
+                      : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
+                  }`}
+                  aria-label={t(settings.showStops ? 'header.hideStops' : 'header.showStops')}
+                  aria-pressed={settings.showStops}
+                  title={t('header.stops')}
+                >
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                    <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.22 3.008-1.742 3.008H4.42c-1.522 0-2.492-1.674-1.742-3.008l5.58-9.92zM10 13a1 1 0 110-2 1 1 0 010 2zm-1-4a1 1 0 001 1h.01a1 1 0 100-2H10a1 1 0 00-1 1z" clipRule="evenodd" />
+                    <path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
                   </svg>
-                  <span className="hidden md:inline">Problem z danymi</span>
-                </span>
-               )}
-               <span className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded-full" style={{ backgroundColor: settings.busColor, border: '2px solid rgba(150,150,150,0.7)' }}></div>
-                Autobusy: <span className="font-bold">{busCount}</span>
-              </span>
-              <span className="flex items-center gap-2">
-                <div className="w-4 h-4 rounded-full" style={{ backgroundColor: settings.tramColor, border: '2px solid rgba(150,150,150,0.7)' }}></div>
-                Tramwaje: <span className="font-bold">{tramCount}</span>
+                </button>
+                <button
+                  onClick={() => {
+                    if (!isNearbyOpen) setSelectedStop(null);
+                    setIsNearbyOpen(!isNearbyOpen);
+                  }}
+                  className={`p-2 rounded-md transition-colors ${
+                    isNearbyOpen
+                      ? 'bg-blue-600 text-white hover:bg-blue-700'
+                      : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
+                  }`}
+                  aria-label={t('header.nearby')}
+                  aria-pressed={isNearbyOpen}
+                  title={t('nearby.title')}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M10 2a1 1 0 011 1v1.07A6.002 6.002 0 0115.93 9H17a1 1 0 110 2h-1.07A6.002 6.002 0 0111 15.93V17a1 1 0 11-2 0v-1.07A6.002 6.002 0 014.07 11H3a1 1 0 110-2h1.07A6.002 6.002 0 019 4.07V3a1 1 0 011-1zm0 4a4 4 0 100 8 4 4 0 000-8zm0 2a2 2 0 110 4 2 2 0 010-4z" clipRule="evenodd" />
+                  </svg>
+                </button>
+                <button
+                  ref={listToggleRef}
+                  onClick={() => {
+                    if (!isListOpen) setIsFavouritesOpen(false);
+                    setIsListOpen(!isListOpen);
+                  }}
+                  className={`p-2 rounded-md transition-colors ${
+                    isListOpen
+                      ? 'bg-blue-600 text-white hover:bg-blue-700'
+                      : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
+                  }`}
+                  aria-label={t('list.title')}
+                  aria-pressed={isListOpen}
+                  title={t('list.title')}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M3 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm0 4a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z" clipRule="evenodd" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => {
+                    if (!isFavouritesOpen) setIsListOpen(false);
+                    setIsFavouritesOpen(!isFavouritesOpen);
+                  }}
+                  className={`p-2 rounded-md transition-colors ${
+                    isFavouritesOpen
+                      ? 'bg-blue-600 text-white hover:bg-blue-700'
+                      : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
+                  }`}
+                  aria-label={t('favourites.title')}
+                  aria-pressed={isFavouritesOpen}
+                  title={t('favourites.title')}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                    <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => setIsRecordingOpen(!isRecordingOpen)}
+                  className={`relative p-2 rounded-md transition-colors ${
+                    isRecordingOpen
+                      ? 'bg-blue-600 text-white hover:bg-blue-700'
+                      : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
+                  }`}
+                  aria-label={t('recording.title')}
+                  aria-pressed={isRecordingOpen}
+                  title={t('recording.title')}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm0-4a4 4 0 100-8 4 4 0 000 8z" clipRule="evenodd" />
+                  </svg>
+                  {isRecording && <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-red-600 animate-pulse" aria-hidden="true"></span>}
+                </button>
+                <button
+                  onClick={() => {
+                    if (!isHeadwaysOpen) setIsDashboardOpen(false);
+                    setIsHeadwaysOpen(!isHeadwaysOpen);
+                  }}
+                  className={`p-2 rounded-md transition-colors ${
+                    isHeadwaysOpen
+                      ? 'bg-blue-600 text-white hover:bg-blue-700'
+                      : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
+                  }`}
+                  aria-label={t('headways.title')}
+                  aria-pressed={isHeadwaysOpen}
+                  title={t('headways.title')}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+                    <path d="M2 10a2 2 0 114 0 2 2 0 01-4 0zM6.5 10a2 2 0 114 0 2 2 0 01-4 0zM15 10a2 2 0 114 0 2 2 0 01-4 0z" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => {
+                    if (!isDashboardOpen) setIsHeadwaysOpen(false);
+                    setIsDashboardOpen(!isDashboardOpen);
+                  }}
+                  className={`p-2 rounded-md transition-colors ${
+                    isDashboardOpen
+                      ? 'bg-blue-600 text-white hover:bg-blue-700'
+                      : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'
+                  }`}
+                  aria-label={t('dashboard.title')}
+                  aria-pressed={isDashboardOpen}
+                  title={t('dashboard.title')}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                    <path d="M2 11a1 1 0 011-1h2a1 1 0 011 1v5a1 1 0 01-1 1H3a1 1 0 01-1-1v-5zM8 7a1 1 0 011-1h2a1 1 0 011 1v9a1 1 0 01-1 1H9a1 1 0 01-1-1V7zM14 4a1 1 0 011-1h2a1 1 0 011 1v12a1 1 0 01-1 1h-2a1 1 0 01-1-1V4z" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => handleSettingsChange('isDarkMode', !settings.isDarkMode)}
+                  className="p-2 rounded-md bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                  aria-label={t('header.toggleTheme')}
+                >
+                  {settings.isDarkMode ? (
+                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M17.293 13.293A8 8 0 016.707 2.707a8.001 8.001 0 1010.586 10.586z" /></svg>
+                  ) : (
+                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 2a1 1 0 011 1v1a1 1 0 11-2 0V3a1 1 0 011-1zm4 8a4 4 0 11-8 0 4 4 0 018 0zm-.464 4.95l.707.707a1 1 0 001.414-1.414l-.707-.707a1 1 0 00-1.414 1.414zm2.12-10.607a1 1 0 010 1.414l-.706.707a1 1 0 11-1.414-1.414l.707-.707a1 1 0 011.414 0zM17 11a1 1 0 100-2h-1a1 1 0 100 2h1zm-7 4a1 1 0 011 1v1a1 1 0 11-2 0v-1a1 1 0 011-1zM5.05 6.464A1 1 0 106.465 5.05l-.708-.707a1 1 0 00-1.414 1.414l.707.707zm-.707 10.607a1 1 0 011.414 0l.707-.707a1 1 0 111.414 1.414l-.707.707a1 1 0 01-1.414 0zM3 11a1 1 0 100-2H2a1 1 0 100 2h1z" clipRule="evenodd" /></svg>
+                  )}
+                </button>
+                <button
+                  onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+                  className="p-2 rounded-md bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                  aria-label={t('header.settings')}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M11.49 3.17c-.38-1.56-2.6-1.56-2.98 0a1.532 1.532 0 01-2.286.948c-1.372-.836-2.942.734-2.106 2.106.54.886.061 2.042-.947 2.287-1.561.379-1.561 2.6 0 2.978a1.532 1.532 0 01.947 2.287c-.836 1.372.734 2.942 2.106 2.106a1.532 1.532 0 012.287.947c.379 1.561 2.6 1.561 2.978 0a1.532 1.532 0 012.287-.947c1.372.836 2.942-.734 2.106-2.106a1.532 1.532 0 01-.947-2.287c1.561-.379 1.561-2.6 0-2.978a1.532 1.532 0 01-.947-2.287c.836-1.372-.734-2.942-2.106-2.106a1.532 1.532 0 01-2.287-.947zM10 13a3 3 0 100-6 3 3 0 000 6z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              </div>
+          </div>
+        
+          <div className="bg-gray-100 dark:bg-gray-800 p-2 rounded-lg mt-2 flex flex-wrap gap-x-4 gap-y-2 items-center justify-center text-sm">
+             <div className="flex items-center gap-2">
+              <label htmlFor="lineFilter" className="font-medium">{t('filters.line')}:</label>
+              <input
+                id="lineFilter"
+                type="text"
+                value={filters.line}
+                onChange={(e) => handleFilterChange('line', e.target.value)}
+                placeholder={t('filters.linePlaceholder')}
+                className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1 w-32 border-gray-300 dark:border-gray-600 border focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label htmlFor="queryFilter" className="font-medium">{t('filters.query')}:</label>
+              <input
+                id="queryFilter"
+                type="text"
+                value={filters.query}
+                onChange={(e) => handleFilterChange('query', e.target.value)}
+                placeholder={t('filters.queryPlaceholder')}
+                title={t('filters.queryHelp')}
+                aria-invalid={filterQuery.invalidTerms.length > 0}
+                aria-describedby="queryFilterHelp"
+                className={`bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1 w-48 border focus:ring-1 outline-none ${
+                  filterQuery.invalidTerms.length > 0
+                    ? 'border-red-500 focus:border-red-500 focus:ring-red-500'
+                    : 'border-gray-300 dark:border-gray-600 focus:border-blue-500 focus:ring-blue-500'
+                }`}
+              />
+              <span id="queryFilterHelp" className={filterQuery.invalidTerms.length > 0 ? 'text-xs text-red-600 dark:text-red-400' : 'sr-only'}>
+                {filterQuery.invalidTerms.length > 0
+                  ? t('filters.queryInvalid', { terms: filterQuery.invalidTerms.join(' ') })
+                  : t('filters.queryHelp')}
               </span>
-              <button
-                onClick={() => handleSettingsChange('isDarkMode', !settings.isDarkMode)}
-                className="p-2 rounded-md bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
-                aria-label="Zmień motyw"
-              >
-                {settings.isDarkMode ? (
-                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M17.293 13.293A8 8 0 016.707 2.707a8.001 8.001 0 1010.586 10.586z" /></svg>
-                ) : (
-                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 2a1 1 0 011 1v1a1 1 0 11-2 0V3a1 1 0 011-1zm4 8a4 4 0 11-8 0 4 4 0 018 0zm-.464 4.95l.707.707a1 1 0 001.414-1.414l-.707-.707a1 1 0 00-1.414 1.414zm2.12-10.607a1 1 0 010 1.414l-.706.707a1 1 0 11-1.414-1.414l.707-.707a1 1 0 011.414 0zM17 11a1 1 0 100-2h-1a1 1 0 100 2h1zm-7 4a1 1 0 011 1v1a1 1 0 11-2 0v-1a1 1 0 011-1zM5.05 6.464A1 1 0 106.465 5.05l-.708-.707a1 1 0 00-1.414 1.414l.707.707zm-.707 10.607a1 1 0 011.414 0l.707-.707a1 1 0 111.414 1.414l-.707.707a1 1 0 01-1.414 0zM3 11a1 1 0 100-2H2a1 1 0 100 2h1z" clipRule="evenodd" /></svg>
-                )}
-              </button>
-              <button
-                onClick={() => setIsSettingsOpen(!isSettingsOpen)}
-                className="p-2 rounded-md bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
-                aria-label="Dostosuj ikony"
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                  <path fillRule="evenodd" d="M11.49 3.17c-.38-1.56-2.6-1.56-2.98 0a1.532 1.532 0 01-2.286.948c-1.372-.836-2.942.734-2.106 2.106.54.886.061 2.042-.947 2.287-1.561.379-1.561 2.6 0 2.978a1.532 1.532 0 01.947 2.287c-.836 1.372.734 2.942 2.106 2.106a1.532 1.532 0 012.287.947c.379 1.561 2.6 1.561 2.978 0a1.532 1.532 0 012.287-.947c1.372.836 2.942-.734 2.106-2.106a1.532 1.532 0 01-.947-2.287c1.561-.379 1.561-2.6 0-2.978a1.532 1.532 0 01-.947-2.287c.836-1.372-.734-2.942-2.106-2.106a1.532 1.532 0 01-2.287-.947zM10 13a3 3 0 100-6 3 3 0 000 6z" clipRule="evenodd" />
-                </svg>
-              </button>
             </div>
-        </div>
-        
-        <div className="bg-gray-100 dark:bg-gray-800 p-2 rounded-lg mt-2 flex flex-wrap gap-x-4 gap-y-2 items-center justify-center text-sm">
-           <div className="flex items-center gap-2">
-            <label htmlFor="lineFilter" className="font-medium">Linia:</label>
-            <input
-              id="lineFilter"
-              type="text"
-              value={filters.line}
-              onChange={(e) => handleFilterChange('line', e.target.value)}
-              placeholder="np. 2, 115, N1"
-              className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1 w-32 border-gray-300 dark:border-gray-600 border focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+            <FilterPresets
+              presets={settings.filterPresets}
+              filters={filters}
+              onApply={setFilters}
+              onPresetsChange={(presets) => handleSettingsChange('filterPresets', presets)}
             />
+            <VehicleSearch vehicles={vehicles} onSelect={handleSearchSelect} />
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{t('filters.type')}:</span>
+              <FilterButton label={t('filters.all')} value="ALL" currentValue={filters.type} onClick={() => handleFilterChange('type', 'ALL')} />
+              <FilterButton label={t('app.buses')} value="BUS" currentValue={filters.type} onClick={() => handleFilterChange('type', 'BUS')} />
+              <FilterButton label={t('app.trams')} value="TRAM" currentValue={filters.type} onClick={() => handleFilterChange('type', 'TRAM')} />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{t('filters.status')}:</span>
+              <FilterButton label={t('filters.all')} value="ALL" currentValue={filters.delay} onClick={() => handleFilterChange('delay', 'ALL')} />
+              <FilterButton label={t('filters.onTime')} value="ON_TIME" currentValue={filters.delay} onClick={() => handleFilterChange('delay', 'ON_TIME')} />
+              <FilterButton label={t('filters.delayed')} value="DELAYED" currentValue={filters.delay} onClick={() => handleFilterChange('delay', 'DELAYED')} />
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{t('filters.heatmap')}:</span>
+              <FilterButton label={t('filters.heatmapOff')} value="OFF" currentValue={settings.heatmapMode} onClick={() => handleSettingsChange('heatmapMode', 'OFF')} />
+              <FilterButton label={t('filters.heatmapDelayGain')} value="DELAY_GAIN" currentValue={settings.heatmapMode} onClick={() => handleSettingsChange('heatmapMode', 'DELAY_GAIN')} />
+              <FilterButton label={t('filters.heatmapSlow')} value="SLOW" currentValue={settings.heatmapMode} onClick={() => handleSettingsChange('heatmapMode', 'SLOW')} />
+            </div>
           </div>
-          <div className="flex items-center gap-2">
-            <span className="font-medium">Typ:</span>
-            <FilterButton label="Wszystkie" value="ALL" currentValue={filters.type} onClick={() => handleFilterChange('type', 'ALL')} />
-            <FilterButton label="Autobusy" value="BUS" currentValue={filters.type} onClick={() => handleFilterChange('type', 'BUS')} />
-            <FilterButton label="Tramwaje" value="TRAM" currentValue={filters.type} onClick={() => handleFilterChange('type', 'TRAM')} />
-          </div>
-          <div className="flex items-center gap-2">
-            <span className="font-medium">Status:</span>
-            <FilterButton label="Wszystkie" value="ALL" currentValue={filters.delay} onClick={() => handleFilterChange('delay', 'ALL')} />
-            <FilterButton label="Na czas" value="ON_TIME" currentValue={filters.delay} onClick={() => handleFilterChange('delay', 'ON_TIME')} />
-            <FilterButton label="Opóźnione" value="DELAYED" currentValue={filters.delay} onClick={() => handleFilterChange('delay', 'DELAYED')} />
-          </div>
-        </div>
 
-        {isSettingsOpen && (
-           <div className="bg-gray-100 dark:bg-gray-800 p-3 rounded-lg mt-2 flex flex-wrap gap-4 items-center justify-center text-sm">
-              <div className="flex items-center gap-2">
-                <label htmlFor="busColor">Kolor Autobusu:</label>
-                <input type="color" id="busColor" value={settings.busColor} onChange={(e) => handleSettingsChange('busColor', e.target.value)} className="w-8 h-8 p-0 border-0 rounded" />
-              </div>
-              <div className="flex items-center gap-2">
-                <label htmlFor="busIcon">Ikona Autobusu:</label>
-                <select id="busIcon" value={settings.busIconShape} onChange={(e) => handleSettingsChange('busIconShape', e.target.value as IconShape)} className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1">
-                  <option value="dot">Kropka</option>
-                  <option value="vehicle">Pojazd</option>
-                  <option value="pin">Pinezka</option>
-                </select>
-              </div>
-              <div className="border-l border-gray-400 dark:border-gray-600 h-8 mx-2"></div>
-               <div className="flex items-center gap-2">
-                <label htmlFor="tramColor">Kolor Tramwaju:</label>
-                <input type="color" id="tramColor" value={settings.tramColor} onChange={(e) => handleSettingsChange('tramColor', e.target.value)} className="w-8 h-8 p-0 border-0 rounded" />
-              </div>
-              <div className="flex items-center gap-2">
-                <label htmlFor="tramIcon">Ikona Tramwaju:</label>
-                <select id="tramIcon" value={settings.tramIconShape} onChange={(e) => handleSettingsChange('tramIconShape', e.target.value as IconShape)} className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1">
-                  <option value="dot">Kropka</option>
-                  <option value="vehicle">Pojazd</option>
-                  <option value="pin">Pinezka</option>
-                </select>
+          {(isRecordingOpen || playback) && (
+            <RecordingBar
+              isRecording={isRecording}
+              recording={recordingSnapshots}
+              onRecordingToggle={() => setIsRecording(!isRecording)}
+              onRecordingClear={() => {
+                recorder.current.clear();
+                setRecordingVersion(version => version + 1);
+              }}
+              playback={playback}
+              playbackIndex={playbackIndex}
+              onPlaybackStart={startPlayback}
+              onPlaybackSeek={setPlaybackIndex}
+              onPlaybackStop={stopPlayback}
+            />
+          )}
+
+          {isSettingsOpen && (
+             <div className="bg-gray-100 dark:bg-gray-800 p-3 rounded-lg mt-2 flex flex-wrap gap-4 items-center justify-center text-sm">
+                <div className="flex items-center gap-2">
+                  <label htmlFor="language">{t('settings.language')}:</label>
+                  <select id="language" value={settings.language} onChange={(e) => handleSettingsChange('language', e.target.value as Language)} className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1">
+                    {LANGUAGES.map(language => (
+                      <option key={language.code} value={language.code} lang={language.code}>{language.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="border-l border-gray-400 dark:border-gray-600 h-8 mx-2"></div>
+                <MarkerThemeSettings
+                  theme={markerTheme}
+                  agencies={agencies}
+                  onChange={theme => handleSettingsChange('markerTheme', theme)}
+                />
+                <div className="border-l border-gray-400 dark:border-gray-600 h-8 mx-2"></div>
+                <div className="flex items-center gap-2">
+                  <label htmlFor="historyMinutes">{t('settings.history')}:</label>
+                  <select id="historyMinutes" value={settings.historyMinutes} onChange={(e) => handleSettingsChange('historyMinutes', Number(e.target.value))} className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1">
+                    {HISTORY_WINDOW_OPTIONS.map(minutes => (
+                      <option key={minutes} value={minutes}>{t('units.minutes', { count: minutes })}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <label htmlFor="renderMode">{t('settings.renderMode')}:</label>
+                  <select id="renderMode" value={settings.renderMode} onChange={(e) => handleSettingsChange('renderMode', e.target.value as RenderMode)} className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1">
+                    <option value="AUTO">{t('settings.renderAuto')}</option>
+                    <option value="MARKERS">{t('settings.renderMarkers')}</option>
+                    <option value="FAST">{t('settings.renderFast')}</option>
+                  </select>
+                </div>
+                <div className="border-l border-gray-400 dark:border-gray-600 h-8 mx-2"></div>
+                <fieldset className="flex items-center gap-2">
+                  <legend className="float-left mr-2">{t('settings.dataSources')}:</legend>
+                  {DATA_SOURCES.map(source => {
+                    const isEnabled = settings.dataSources.includes(source.id);
+                    return (
+                      <label key={source.id} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={isEnabled}
+                          // At least one source stays enabled
+                          disabled={isEnabled && settings.dataSources.length === 1}
+                          onChange={() => handleSettingsChange('dataSources', isEnabled
+                            ? settings.dataSources.filter(id => id !== source.id)
+                            : DATA_SOURCES.map(s => s.id).filter(id => id === source.id || settings.dataSources.includes(id)))}
+                        />
+                        {source.label}
+                      </label>
+                    );
+                  })}
+                </fieldset>
+             </div>
+          )}
+        </header>
+      
+        {(isLoading || initError) && (
+          <div className="absolute inset-0 z-[1001] flex items-center justify-center bg-gray-100/70 dark:bg-gray-900/70">
+            {initError ? (
+              <div className="p-6 bg-red-100 border border-red-400 text-red-700 rounded-lg shadow-xl text-center max-w-sm">
+                <p className="font-bold">{t('app.criticalError')}</p>
+                <p>{t(initError)}</p>
               </div>
-           </div>
+            ) : (
+              <div className="text-gray-800 dark:text-white text-2xl font-semibold animate-pulse">{t('app.loading')}</div>
+            )}
+          </div>
         )}
-      </header>
       
-      {(isLoading || initError) && (
-        <div className="absolute inset-0 z-[1001] flex items-center justify-center bg-gray-100/70 dark:bg-gray-900/70">
-          {initError ? (
-            <div className="p-6 bg-red-100 border border-red-400 text-red-700 rounded-lg shadow-xl text-center max-w-sm">
-              <p className="font-bold">Błąd Krytyczny</p>
-              <p>{initError}</p>
-            </div>
+        {!isLoading && vehicles.length === 0 && apiError && !initError && (
+          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[1001] p-6 bg-red-100 border border-red-400 text-red-700 rounded-lg shadow-xl text-center">
+              <p className="font-bold">{t('app.noDataTitle')}</p>
+              <p>{t('app.noData')}</p>
+              <p className="text-sm text-gray-600 mt-2">{t('app.noDataHint')}</p>
+          </div>
+        )}
+
+        <MapContainer center={mapView.center} zoom={mapView.zoom} scrollWheelZoom={true}>
+          <MapViewSync view={mapView} onViewChange={setMapView} onUserPan={() => setIsFollowing(false)} />
+          {settings.isDarkMode ? (
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
+              url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+            />
           ) : (
-            <div className="text-gray-800 dark:text-white text-2xl font-semibold animate-pulse">Ładowanie danych...</div>
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            />
           )}
-        </div>
-      )}
-      
-      {!isLoading && vehicles.length === 0 && apiError && !initError && (
-        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-[1001] p-6 bg-red-100 border border-red-400 text-red-700 rounded-lg shadow-xl text-center">
-            <p className="font-bold">Błąd Ładowania Danych</p>
-            <p>Nie udało się załadować żadnych danych o pojazdach.</p>
-            <p className="text-sm text-gray-600 mt-2">Sprawdź połączenie z internetem lub spróbuj ponownie później.</p>
-        </div>
-      )}
-
-      <MapContainer center={GDANSK_CENTER} zoom={12} scrollWheelZoom={true}>
-        {settings.isDarkMode ? (
-          <TileLayer
-            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
-            url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+          {settings.heatmapMode !== 'OFF' && (
+            <HeatmapLayer cells={heatCells} mode={settings.heatmapMode} />
+          )}
+          {selectedShapes.length > 0 && (
+            <RouteShapesLayer
+              shapes={selectedShapes}
+              lineColors={lineColors}
+              onSelectLine={line => handleFilterChange('line', line)}
+            />
+          )}
+          {headwayAnalysis && (
+            <HeadwayLayer issues={headwayAnalysis.issues} onSelect={handleListVehicleSelect} />
+          )}
+          {selectedVehicle && (
+            <VehicleTrail track={selectedTrack} color={getVehicleColor(selectedVehicle)} replayTime={replayTime} />
+          )}
+          {isFastRendering ? (
+            <FastVehicleLayer
+              vehicles={filteredVehicles}
+              colorOf={getVehicleColor}
+              iconShapeOf={getVehicleIconShape}
+              labelOf={getVehicleLabel}
+              typeColors={typeColors}
+              onSelect={handleVehicleSelect}
+              popupRequest={popupRequest}
+              staleVehicleIds={staleVehicleIds}
+            />
+          ) : (
+            <VehicleAnimatorProvider>
+              {filteredVehicles.map(vehicle => (
+                <VehicleMarker
+                  key={vehicle.vehicleId}
+                  vehicle={vehicle}
+                  color={getVehicleColor(vehicle)}
+                  iconShape={getVehicleIconShape(vehicle)}
+                  label={getVehicleLabel(vehicle)}
+                  isStale={staleVehicleIds.has(vehicle.vehicleId)}
+                  onSelect={handleVehicleSelect}
+                  popupRequest={popupRequest?.vehicleId === vehicle.vehicleId ? popupRequest.seq : undefined}
+                />
+              ))}
+            </VehicleAnimatorProvider>
+          )}
+          {isNearbyOpen && userPosition && (
+            <>
+              <Circle
+                center={userPosition}
+                radius={settings.nearbyRadius}
+                pathOptions={{ color: '#2563EB', weight: 1, fillOpacity: 0.08 }}
+                interactive={false}
+              />
+              <CircleMarker
+                center={userPosition}
+                radius={7}
+                pathOptions={{ color: 'white', weight: 2, fillColor: '#2563EB', fillOpacity: 1 }}
+                interactive={false}
+              />
+            </>
+          )}
+          {settings.showStops && (
+            <StopsLayer
+              stops={stops}
+              selectedStopId={selectedStop?.stopId ?? null}
+              isDarkMode={settings.isDarkMode}
+              onSelect={setSelectedStop}
+            />
+          )}
+        </MapContainer>
+
+        {settings.showStops && mapView.zoom < MIN_STOPS_ZOOM && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-3 px-3 py-2 rounded-lg shadow-lg bg-white/90 dark:bg-gray-800/90 text-gray-800 dark:text-gray-200 text-xs">
+            {t('header.stopsZoomIn')}
+            <button
+              onClick={() => setMapView(view => roundMapView(view.center, MIN_STOPS_ZOOM))}
+              className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+            >
+              {t('header.stopsZoomInAction')}
+            </button>
+          </div>
+        )}
+
+        {settings.heatmapMode !== 'OFF' && (
+          <HeatmapLegend mode={settings.heatmapMode} windowMinutes={DEFAULT_HEATMAP_WINDOW_MINUTES} />
+        )}
+
+        {selectedStop && (
+          <DepartureBoard
+            stop={selectedStop}
+            isFavourite={settings.favouritePlaces.some(place => place.stopId === selectedStop.stopId)}
+            onToggleFavourite={() => toggleFavouriteStop(selectedStop)}
+            onClose={() => setSelectedStop(null)}
           />
-        ) : (
-          <TileLayer
-            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        )}
+
+        {delayStatsSnapshot && (
+          <DelayDashboard
+            stats={delayStatsSnapshot}
+            onReset={() => {
+              delayStats.current.reset();
+              setStatsVersion(version => version + 1);
+            }}
+            onClose={() => setIsDashboardOpen(false)}
           />
         )}
-        {filteredVehicles.map(vehicle => {
-          const isTram = vehicle.vehicleType === 'TRAM';
-          return (
-            <VehicleMarker 
-              key={vehicle.vehicleId} 
-              vehicle={vehicle}
-              color={isTram ? settings.tramColor : settings.busColor}
-              iconShape={isTram ? settings.tramIconShape : settings.busIconShape}
-            />
-          );
-        })}
-      </MapContainer>
-    </div>
+
+        {isHeadwaysOpen && headwayAnalysis && (
+          <HeadwayPanel
+            analysis={headwayAnalysis}
+            isLoadingShapes={!routeShapes}
+            showOnMap={settings.showHeadwayFlags}
+            onShowOnMapChange={show => handleSettingsChange('showHeadwayFlags', show)}
+            onSelect={handleListVehicleSelect}
+            onClose={() => setIsHeadwaysOpen(false)}
+          />
+        )}
+
+        {isNearbyOpen && !selectedStop && (
+          <NearbyPanel
+            vehicles={filteredVehicles}
+            position={userPosition}
+            error={geolocationError && t(geolocationError)}
+            radius={settings.nearbyRadius}
+            onRadiusChange={radius => handleSettingsChange('nearbyRadius', radius)}
+            onVehicleClick={handleNearbyVehicleClick}
+            onClose={() => setIsNearbyOpen(false)}
+          />
+        )}
+
+        {isListOpen && (
+          <VehicleListPanel
+            vehicles={filteredVehicles}
+            selectedVehicle={selectedVehicle}
+            colorOf={getVehicleColor}
+            onSelect={handleListVehicleSelect}
+            onClose={() => {
+              setIsListOpen(false);
+              listToggleRef.current?.focus();
+            }}
+          />
+        )}
+
+        {isFavouritesOpen && (
+          <FavouritesPanel
+            lines={settings.favouriteLines}
+            places={settings.favouritePlaces}
+            alerts={settings.alerts}
+            catalog={routeInfo}
+            mapCenter={mapView.center}
+            onLinesChange={lines => handleSettingsChange('favouriteLines', lines)}
+            onPlacesChange={places => handleSettingsChange('favouritePlaces', places)}
+            onAlertsChange={alerts => handleSettingsChange('alerts', alerts)}
+            onShowLines={lines => handleFilterChange('line', lines.join(', '))}
+            onClose={() => setIsFavouritesOpen(false)}
+          />
+        )}
+
+        {notice && (
+          <div
+            role="status"
+            className="absolute bottom-24 left-1/2 -translate-x-1/2 z-[1001] px-4 py-2 rounded-lg shadow-xl bg-gray-900/90 text-white text-sm whitespace-pre-line"
+          >
+            {notice}
+          </div>
+        )}
+
+        {selectedVehicle && isFollowing && (
+          <FollowCard
+            vehicle={selectedVehicle}
+            color={getVehicleColor(selectedVehicle)}
+            lastUpdate={lastUpdate}
+            onStopFollowing={() => setIsFollowing(false)}
+            onClose={() => handleVehicleSelect(null)}
+          />
+        )}
+
+        {selectedVehicle && !isFollowing && (
+          <TripReplayPanel
+            title={`${t('vehicle.lineTowards', { line: selectedVehicle.routeShortName, headsign: selectedVehicle.headsign })} · ${selectedVehicle.vehicleCode}`}
+            track={selectedTrack}
+            color={getVehicleColor(selectedVehicle)}
+            replayTime={replayTime}
+            onReplayTimeChange={setReplayTime}
+            onFollow={() => {
+              setReplayTime(null);
+              setIsFollowing(true);
+            }}
+            onClose={() => handleVehicleSelect(null)}
+          />
+        )}
+      </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { ConnectionStatus } from '../types';
+import { getConnectionStatus } from '../services/feedHealth';
+import { MessageKey, Translate, useI18n } from '../i18n';
+
+const STATUS_STYLES: Record<ConnectionStatus, { label: MessageKey; dotClass: string; textClass: string }> = {
+  LIVE: { label: 'connection.live', dotClass: 'bg-green-500 animate-pulse', textClass: 'text-green-600 dark:text-green-400' },
+  DEGRADED: { label: 'connection.degraded', dotClass: 'bg-yellow-500', textClass: 'text-yellow-600 dark:text-yellow-400' },
+  STALE: { label: 'connection.stale', dotClass: 'bg-orange-500', textClass: 'text-orange-600 dark:text-orange-400' },
+  OFFLINE: { label: 'connection.offline', dotClass: 'bg-red-500', textClass: 'text-red-600 dark:text-red-400' },
+};
+
+const formatAge = (ms: number, t: Translate) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return t('connection.ageSeconds', { count: seconds });
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return t('connection.ageMinutes', { count: minutes });
+  return t('connection.ageHours', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+};
+
+interface ConnectionIndicatorProps {
+  lastUpdate: string;
+  failureCount: number;
+  isCachedData: boolean;
+  errorMessage: string | null;
+}
+
+// Feed health at a glance: live / degraded / stale / offline plus the age of
+// the data on the map. Ticks every second on its own, so the rest of the app
+// does not re-render for the age counter.
+const ConnectionIndicator: React.FC<ConnectionIndicatorProps> = ({ lastUpdate, failureCount, isCachedData, errorMessage }) => {
+  const { t } = useI18n();
+  const [now, setNow] = useState(() => Date.now());
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const updatedAt = Date.parse(lastUpdate);
+  const dataAgeMs = Number.isNaN(updatedAt) ? null : now - updatedAt;
+  const status = getConnectionStatus({ isOnline, failureCount, dataAgeMs, isCachedData });
+  const { dotClass, textClass } = STATUS_STYLES[status];
+  const label = t(STATUS_STYLES[status].label);
+
+  const details = [
+    label,
+    dataAgeMs !== null ? t('connection.dataAge', { age: formatAge(dataAgeMs, t) }) : null,
+    isCachedData ? t('connection.cached') : null,
+    failureCount > 0 ? t('connection.failures', { count: failureCount }) : null,
+    errorMessage,
+  ].filter(Boolean).join(' · ');
+
+  // Only the status label is a live region: the age ticks every second and
+  // would otherwise be announced just as often.
+  return (
+    <span className={`flex items-center gap-1 ${textClass}`} title={details}>
+      <span className={`inline-block w-2.5 h-2.5 rounded-full ${dotClass}`} aria-hidden="true"></span>
+      <span role="status" className="sr-only md:not-sr-only">{label}</span>
+      {dataAgeMs !== null && <span className="text-xs opacity-80">{formatAge(dataAgeMs, t)}</span>}
+    </span>
+  );
+};
+
+export default ConnectionIndicator;
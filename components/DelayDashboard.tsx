@@ -0,0 +1,238 @@
+import React, { useMemo } from 'react';
+import { DELAY_THRESHOLD_SECONDS } from '../constants';
+import { DelayAggregate, PunctualityPoint } from '../types';
+import {
+  DelayStatsSnapshot,
+  HISTOGRAM_MAX_MINUTES,
+  HISTOGRAM_MIN_MINUTES,
+  delayStatsToCsv,
+  meanDelay,
+  punctuality,
+} from '../services/delayStats';
+import { downloadFile, fileTimestamp } from '../utils/download';
+import { formatDelay } from '../utils/delay';
+import { useI18n } from '../i18n';
+
+// Lines with fewer samples are left out of the ranking, so a single late
+// vehicle on a rarely seen line does not top it.
+const MIN_LINE_SAMPLES = 10;
+const WORST_LINES_COUNT = 10;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatSeconds = (seconds: number) => `${seconds >= 0 ? '+' : '−'}${Math.abs(Math.round(seconds))} s`;
+
+const Histogram: React.FC<{ bins: number[] }> = ({ bins }) => {
+  const { t } = useI18n();
+  const max = Math.max(1, ...bins);
+  const thresholdBin = Math.round(DELAY_THRESHOLD_SECONDS / 60) - HISTOGRAM_MIN_MINUTES;
+  return (
+    <div>
+      <div className="flex items-end gap-px h-28" role="img" aria-label={t('dashboard.distribution')}>
+        {bins.map((count, i) => (
+          <div
+            key={i}
+            className={`flex-1 rounded-t ${i > thresholdBin ? 'bg-red-500' : i < -HISTOGRAM_MIN_MINUTES - 2 ? 'bg-green-500' : 'bg-blue-500'}`}
+            style={{ height: `${(count / max) * 100}%` }}
+            title={`${i + HISTOGRAM_MIN_MINUTES} min: ${count}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+        <span>≤{HISTOGRAM_MIN_MINUTES} min</span>
+        <span>0</span>
+        <span>≥{HISTOGRAM_MAX_MINUTES} min</span>
+      </div>
+    </div>
+  );
+};
+
+const PunctualityChart: React.FC<{ points: PunctualityPoint[] }> = ({ points }) => {
+  const { t } = useI18n();
+  const width = 400;
+  const height = 80;
+  if (points.length < 2) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">{t('dashboard.notEnoughData')}</p>;
+  }
+  const start = points[0].time;
+  const span = Math.max(points[points.length - 1].time - start, 1);
+  const path = points
+    .map(p => `${(((p.time - start) / span) * width).toFixed(1)},${((1 - p.punctuality) * height).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-20" preserveAspectRatio="none" role="img" aria-label={t('dashboard.punctualityOverTime')}>
+      {[0.25, 0.5, 0.75].map(level => (
+        <line key={level} x1={0} x2={width} y1={(1 - level) * height} y2={(1 - level) * height} stroke="currentColor" strokeOpacity={0.15} />
+      ))}
+      <polyline points={path} fill="none" stroke="#2563EB" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+// `detail` is shown under the label, e.g. the operator of a line
+const StatRow: React.FC<{ label: string; detail?: string; aggregate: DelayAggregate }> = ({ label, detail, aggregate }) => (
+  <tr className="border-t border-gray-200 dark:border-gray-700">
+    <td className="py-1 font-semibold">
+      {label}
+      {detail && <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">{detail}</span>}
+    </td>
+    <td className="py-1 text-right">{aggregate.samples}</td>
+    <td className="py-1 text-right">{formatSeconds(meanDelay(aggregate))}</td>
+    <td className="py-1 text-right">{formatPercent(punctuality(aggregate))}</td>
+  </tr>
+);
+
+interface DelayDashboardProps {
+  stats: DelayStatsSnapshot;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const DelayDashboard: React.FC<DelayDashboardProps> = ({ stats, onReset, onClose }) => {
+  const { t, formatTime } = useI18n();
+  const worstLines = useMemo(
+    () => stats.byLine
+      .filter(line => line.samples >= MIN_LINE_SAMPLES)
+      .sort((a, b) => meanDelay(b) - meanDelay(a))
+      .slice(0, WORST_LINES_COUNT),
+    [stats.byLine],
+  );
+  const allLines = useMemo(
+    () => [...stats.byLine].sort((a, b) =>
+      a.routeShortName.localeCompare(b.routeShortName, 'pl', { numeric: true }) || a.agencyName.localeCompare(b.agencyName, 'pl')),
+    [stats.byLine],
+  );
+
+  const latest = stats.timeSeries[stats.timeSeries.length - 1];
+
+  const exportCsv = () => downloadFile(`opoznienia-linie_${fileTimestamp()}.csv`, delayStatsToCsv(stats), 'text/csv;charset=utf-8');
+  const exportJson = () => downloadFile(`opoznienia_${fileTimestamp()}.json`, JSON.stringify(stats, null, 2), 'application/json');
+
+  return (
+    <aside className="absolute inset-y-0 right-0 z-[1002] w-full md:w-[28rem] flex flex-col bg-white/95 dark:bg-gray-900/95 text-gray-800 dark:text-gray-200 shadow-2xl">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">{t('dashboard.title')}</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {t('dashboard.since', { time: formatTime(stats.startedAt) })} · {t('dashboard.polls', { count: stats.polls })} · {t('dashboard.samples', { count: stats.total.samples })}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          aria-label={t('dashboard.close')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-5 text-sm">
+        <section className="grid grid-cols-3 gap-2 text-center">
+          <div className="bg-gray-100 dark:bg-gray-800 rounded-lg p-2">
+            <div className="text-xs text-gray-500 dark:text-gray-400">{t('dashboard.punctualityNow')}</div>
+            <div className="text-xl font-bold">{latest ? formatPercent(latest.punctuality) : '—'}</div>
+          </div>
+          <div className="bg-gray-100 dark:bg-gray-800 rounded-lg p-2">
+            <div className="text-xs text-gray-500 dark:text-gray-400">{t('dashboard.punctualityTotal')}</div>
+            <div className="text-xl font-bold">{formatPercent(punctuality(stats.total))}</div>
+          </div>
+          <div className="bg-gray-100 dark:bg-gray-800 rounded-lg p-2">
+            <div className="text-xs text-gray-500 dark:text-gray-400">{t('dashboard.meanDelay')}</div>
+            <div className="text-xl font-bold">{formatSeconds(meanDelay(stats.total))}</div>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="font-semibold mb-2">{t('dashboard.punctualityOverTime')}</h3>
+          <PunctualityChart points={stats.timeSeries} />
+        </section>
+
+        <section>
+          <h3 className="font-semibold mb-2">{t('dashboard.distribution')}</h3>
+          <Histogram bins={stats.histogram} />
+        </section>
+
+        <section>
+          <h3 className="font-semibold mb-2">{t('dashboard.byType')}</h3>
+          <table className="w-full">
+            <thead className="text-xs text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="text-left font-normal">{t('dashboard.type')}</th>
+                <th className="text-right font-normal">{t('dashboard.samplesColumn')}</th>
+                <th className="text-right font-normal">{t('dashboard.meanDelayColumn')}</th>
+                <th className="text-right font-normal">{t('dashboard.punctuality')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              <StatRow label={t('app.buses')} aggregate={stats.byType.BUS} />
+              <StatRow label={t('app.trams')} aggregate={stats.byType.TRAM} />
+            </tbody>
+          </table>
+        </section>
+
+        <section>
+          <h3 className="font-semibold mb-2">{t('dashboard.worstLines')}</h3>
+          {worstLines.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('dashboard.notEnoughSamples')}</p>
+          ) : (
+            <ol className="flex flex-col gap-1">
+              {worstLines.map(line => {
+                const delay = formatDelay(meanDelay(line), t);
+                return (
+                  <li key={`${line.agencyName}|${line.routeShortName}`} className="flex items-center gap-2">
+                    <span className="w-10 text-center font-bold text-white bg-blue-600 rounded py-0.5">{line.routeShortName}</span>
+                    <span className="flex-1 min-w-0">
+                      <span className={delay.colorClass}>{delay.text}</span>
+                      {line.agencyName && <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">{line.agencyName}</span>}
+                    </span>
+                    {line.maxDelay !== null && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{t('dashboard.maxDelay', { delay: formatDelay(line.maxDelay, t).shortText })}</span>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </section>
+
+        <details>
+          <summary className="font-semibold cursor-pointer">{t('dashboard.allLines', { count: allLines.length })}</summary>
+          <table className="w-full mt-2">
+            <thead className="text-xs text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="text-left font-normal">{t('dashboard.line')}</th>
+                <th className="text-right font-normal">{t('dashboard.samplesColumn')}</th>
+                <th className="text-right font-normal">{t('dashboard.meanDelayColumn')}</th>
+                <th className="text-right font-normal">{t('dashboard.punctuality')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {allLines.map(line => (
+                <StatRow key={`${line.agencyName}|${line.routeShortName}`} label={line.routeShortName} detail={line.agencyName} aggregate={line} />
+              ))}
+            </tbody>
+          </table>
+        </details>
+      </div>
+
+      <div className="flex gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+        <button onClick={exportCsv} className="px-3 py-1 text-xs rounded bg-blue-600 text-white font-bold hover:bg-blue-700 transition-colors">
+          {t('dashboard.exportCsv')}
+        </button>
+        <button onClick={exportJson} className="px-3 py-1 text-xs rounded bg-blue-600 text-white font-bold hover:bg-blue-700 transition-colors">
+          {t('dashboard.exportJson')}
+        </button>
+        <button
+          onClick={onReset}
+          className="ml-auto px-3 py-1 text-xs rounded bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 dark:text-gray-200 transition-colors"
+        >
+          {t('dashboard.reset')}
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default DelayDashboard;
@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { Departure, Stop } from '../types';
+import { fetchDepartures } from '../services/apiClient';
+import { formatDelay } from '../utils/delay';
+import { Translate, useI18n } from '../i18n';
+
+const DEPARTURES_REFRESH_INTERVAL = 20000; // 20 seconds
+const MAX_DEPARTURES = 12;
+
+const formatCountdown = (iso: string, now: number, t: Translate) => {
+  const minutes = Math.floor((Date.parse(iso) - now) / 60000);
+  return minutes <= 0 ? t('departures.now') : t('departures.inMinutes', { count: minutes });
+};
+
+interface DepartureBoardProps {
+  stop: Stop;
+  isFavourite: boolean;
+  onToggleFavourite: () => void;
+  onClose: () => void;
+}
+
+const DepartureBoard: React.FC<DepartureBoardProps> = ({ stop, isFavourite, onToggleFavourite, onClose }) => {
+  const { t, formatTime } = useI18n();
+  const [departures, setDepartures] = useState<Departure[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [hasError, setHasError] = useState<boolean>(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    setDepartures([]);
+
+    const loadDepartures = async () => {
+      try {
+        const data = await fetchDepartures(stop.stopId);
+        if (isCancelled) return;
+        setDepartures(data.departures.slice(0, MAX_DEPARTURES));
+        setHasError(false);
+      } catch (err) {
+        if (isCancelled) return;
+        console.error(`Błąd pobierania odjazdów dla przystanku ${stop.stopId}:`, err);
+        setHasError(true);
+      } finally {
+        if (!isCancelled) setIsLoading(false);
+      }
+    };
+
+    loadDepartures();
+    const intervalId = setInterval(loadDepartures, DEPARTURES_REFRESH_INTERVAL);
+    return () => {
+      isCancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [stop.stopId]);
+
+  const now = Date.now();
+
+  return (
+    <div className="absolute bottom-4 left-4 z-[1000] w-[22rem] max-w-[calc(100vw-2rem)] max-h-[60vh] flex flex-col bg-white/95 dark:bg-gray-800/95 text-gray-800 dark:text-gray-200 rounded-lg shadow-xl overflow-hidden">
+      <div className="flex items-start justify-between gap-2 p-3 border-b border-gray-200 dark:border-gray-700">
+        <div>
+          <h2 className="font-bold text-lg text-gray-900 dark:text-white">{stop.stopName} {stop.stopCode}</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('departures.upcoming')}</p>
+        </div>
+        <button
+          onClick={onToggleFavourite}
+          className={`ml-auto p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${isFavourite ? 'text-yellow-500' : 'text-gray-400'}`}
+          aria-label={t(isFavourite ? 'departures.removeFavourite' : 'departures.addFavourite')}
+          aria-pressed={isFavourite}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+          </svg>
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          aria-label={t('departures.close')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="overflow-y-auto">
+        {isLoading && departures.length === 0 && (
+          <p className="p-3 text-sm animate-pulse">{t('departures.loading')}</p>
+        )}
+        {hasError && departures.length === 0 && (
+          <p className="p-3 text-sm text-red-600 dark:text-red-400">{t('departures.error')}</p>
+        )}
+        {!isLoading && !hasError && departures.length === 0 && (
+          <p className="p-3 text-sm">{t('departures.empty')}</p>
+        )}
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {departures.map(departure => {
+            const isRealtime = departure.status === 'REALTIME';
+            const delay = formatDelay(departure.delayInSeconds, t);
+            const isShifted = isRealtime && delay.minutes !== 0;
+            return (
+              <li key={departure.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <span className="w-10 text-center font-bold text-white bg-blue-600 rounded py-0.5">
+                  {departure.routeShortName}
+                </span>
+                <span className="flex-1 truncate" title={departure.headsign}>{departure.headsign}</span>
+                <span className="text-right">
+                  <span className="block font-semibold" title={t(isRealtime ? 'departures.estimatedTime' : 'departures.scheduledTime')}>
+                    {isRealtime && <span className="inline-block w-2 h-2 mr-1 rounded-full bg-green-500 animate-pulse" aria-label={t('departures.live')}></span>}
+                    {formatCountdown(departure.estimatedTime, now, t)}
+                  </span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {isShifted && <span className="line-through mr-1">{formatTime(departure.theoreticalTime)}</span>}
+                    {formatTime(departure.estimatedTime)}
+                  </span>
+                </span>
+                {isRealtime ? (
+                  <span
+                    className={`w-16 text-center text-xs font-semibold rounded px-1 py-0.5 bg-gray-100 dark:bg-gray-700 ${delay.colorClass}`}
+                    title={delay.text}
+                  >
+                    {delay.shortText}
+                  </span>
+                ) : (
+                  <span className="w-16 text-center text-xs rounded px-1 py-0.5 text-gray-500 dark:text-gray-400 border border-gray-300 dark:border-gray-600">
+                    {t('departures.scheduled')}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default DepartureBoard;
@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { IconShape, Vehicle, VehicleCluster, VehicleType } from '../types';
+import { clusterVehicles } from '../utils/vehicleClusters';
+import { VehicleCanvasRenderer } from '../utils/vehicleCanvas';
+import VehicleMarker, { VehicleDetails } from './VehicleMarker';
+import { useI18n } from '../i18n';
+
+// From this zoom on every vehicle is drawn on its own
+const CLUSTER_MAX_ZOOM = 14;
+const CLUSTER_CELL_PX = 56;
+
+const clusterIcon = (cluster: VehicleCluster, typeColors: Record<VehicleType, string>) => {
+  const segment = (type: VehicleType) =>
+    cluster.counts[type] > 0
+      ? `<span style="background:${typeColors[type]};padding:2px 6px;">${cluster.counts[type]}</span>`
+      : '';
+  // A zero-size icon with a centered child lets the pill size itself to its content.
+  return L.divIcon({
+    html: `<div style="position:absolute;transform:translate(-50%,-50%);display:flex;white-space:nowrap;border:2px solid white;border-radius:9999px;overflow:hidden;color:white;font:bold 12px sans-serif;box-shadow:0 2px 4px rgba(0,0,0,0.5);cursor:pointer;">${segment('BUS')}${segment('TRAM')}</div>`,
+    className: '',
+    iconSize: [0, 0],
+  });
+};
+
+interface FastVehicleLayerProps {
+  vehicles: Vehicle[];
+  colorOf: (vehicle: Vehicle) => string;
+  iconShapeOf: (vehicle: Vehicle) => IconShape;
+  labelOf: (vehicle: Vehicle) => string;
+  typeColors: Record<VehicleType, string>;
+  onSelect: (vehicleId: number) => void;
+  // Opens the popup of a vehicle from outside the map, e.g. from a list
+  popupRequest?: { vehicleId: number; seq: number } | null;
+  // Vehicles with a frozen GPS position, drawn faded
+  staleVehicleIds: Set<number>;
+}
+
+// Performance rendering mode for large fleets: vehicles are clustered with
+// per-type counts below CLUSTER_MAX_ZOOM and drawn on a canvas otherwise.
+// Only the clusters are React markers, and there are a few dozen at most.
+// A vehicle picked from a list is the exception: it is drawn as a regular
+// marker on top, so that it can take the keyboard focus.
+const FastVehicleLayer: React.FC<FastVehicleLayerProps> = ({ vehicles, colorOf, iconShapeOf, labelOf, typeColors, onSelect, popupRequest, staleVehicleIds }) => {
+  const map = useMap();
+  const { t } = useI18n();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  const [popupVehicleId, setPopupVehicleId] = useState<number | null>(null);
+  const [markerVehicleId, setMarkerVehicleId] = useState<number | null>(null);
+  const renderer = useRef<VehicleCanvasRenderer | null>(null);
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+
+  useEffect(() => {
+    renderer.current = new VehicleCanvasRenderer(map, vehicleId => {
+      setPopupVehicleId(vehicleId);
+      setMarkerVehicleId(null);
+      onSelectRef.current(vehicleId);
+    });
+    return () => {
+      renderer.current?.destroy();
+      renderer.current = null;
+    };
+  }, [map]);
+
+  useEffect(() => {
+    if (!popupRequest) return;
+    setPopupVehicleId(null);
+    setMarkerVehicleId(popupRequest.vehicleId);
+  }, [popupRequest]);
+
+  const markerVehicle = markerVehicleId === null ? null : vehicles.find(v => v.vehicleId === markerVehicleId) ?? null;
+  const layerVehicles = useMemo(
+    () => (markerVehicleId === null ? vehicles : vehicles.filter(v => v.vehicleId !== markerVehicleId)),
+    [vehicles, markerVehicleId],
+  );
+
+  const { clusters, singles } = useMemo(() => {
+    if (zoom >= CLUSTER_MAX_ZOOM) return { clusters: [], singles: layerVehicles };
+    return clusterVehicles(
+      layerVehicles,
+      (lat, lon) => {
+        const point = map.project([lat, lon], zoom);
+        return [point.x, point.y];
+      },
+      CLUSTER_CELL_PX,
+    );
+  }, [layerVehicles, zoom, map]);
+
+  useEffect(() => {
+    renderer.current?.setVehicles(singles.map(vehicle => ({
+      vehicle,
+      color: colorOf(vehicle),
+      iconShape: iconShapeOf(vehicle),
+      label: labelOf(vehicle),
+      isStale: staleVehicleIds.has(vehicle.vehicleId),
+    })));
+  }, [singles, colorOf, iconShapeOf, labelOf, staleVehicleIds]);
+
+  const popupVehicle = popupVehicleId === null ? null : singles.find(v => v.vehicleId === popupVehicleId) ?? null;
+
+  return (
+    <>
+      {clusters.map(cluster => (
+        <Marker
+          key={cluster.key}
+          position={[cluster.lat, cluster.lon]}
+          icon={clusterIcon(cluster, typeColors)}
+          title={t('vehicle.clusterTitle', { buses: cluster.counts.BUS, trams: cluster.counts.TRAM })}
+          eventHandlers={{ click: () => map.fitBounds(cluster.bounds, { padding: [40, 40], maxZoom: CLUSTER_MAX_ZOOM }) }}
+        />
+      ))}
+      {markerVehicle && popupRequest && (
+        <VehicleMarker
+          key={markerVehicle.vehicleId}
+          vehicle={markerVehicle}
+          color={colorOf(markerVehicle)}
+          iconShape={iconShapeOf(markerVehicle)}
+          label={labelOf(markerVehicle)}
+          isStale={staleVehicleIds.has(markerVehicle.vehicleId)}
+          onSelect={onSelect}
+          popupRequest={popupRequest.seq}
+        />
+      )}
+      {popupVehicle && (
+        <Popup
+          position={[popupVehicle.lat, popupVehicle.lon]}
+          eventHandlers={{ remove: () => setPopupVehicleId(null) }}
+        >
+          <VehicleDetails vehicle={popupVehicle} isStale={staleVehicleIds.has(popupVehicle.vehicleId)} />
+        </Popup>
+      )}
+    </>
+  );
+};
+
+export default FastVehicleLayer;
@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { AlertRule, FavouritePlace, RouteCatalog } from '../types';
+import { Translate, useI18n } from '../i18n';
+
+const DEFAULT_APPROACH_RADIUS = 800; // meters
+const DEFAULT_DELAY_MINUTES = 5;
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const inputClass = 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1 border-gray-300 dark:border-gray-600 border focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none';
+const primaryButtonClass = 'px-3 py-1 text-xs rounded bg-blue-600 text-white font-bold hover:bg-blue-700 disabled:opacity-50 transition-colors';
+
+const RemoveButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => (
+  <button
+    onClick={onClick}
+    className="p-1 rounded-md text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+    aria-label={label}
+  >
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+      <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+    </svg>
+  </button>
+);
+
+const describeAlert = (rule: AlertRule, places: FavouritePlace[], t: Translate) => {
+  const line = rule.agencyName ? `${rule.line} (${rule.agencyName})` : rule.line;
+  if (rule.kind === 'DELAY') return t('favourites.describeDelay', { line, minutes: rule.minDelayMinutes });
+  const place = places.find(p => p.id === rule.placeId);
+  return t('favourites.describeApproach', {
+    line,
+    direction: rule.headsign ? ` → ${rule.headsign}` : '',
+    radius: rule.radiusMeters,
+    place: place?.name ?? t('favourites.removedPlace'),
+  });
+};
+
+interface FavouritesPanelProps {
+  lines: string[];
+  places: FavouritePlace[];
+  alerts: AlertRule[];
+  // Offers a choice of operator for lines run by several
+  catalog: RouteCatalog;
+  mapCenter: [number, number];
+  onLinesChange: (lines: string[]) => void;
+  onPlacesChange: (places: FavouritePlace[]) => void;
+  onAlertsChange: (alerts: AlertRule[]) => void;
+  onShowLines: (lines: string[]) => void;
+  onClose: () => void;
+}
+
+const FavouritesPanel: React.FC<FavouritesPanelProps> = ({
+  lines,
+  places,
+  alerts,
+  catalog,
+  mapCenter,
+  onLinesChange,
+  onPlacesChange,
+  onAlertsChange,
+  onShowLines,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const [newLine, setNewLine] = useState<string>('');
+  const [newPlaceName, setNewPlaceName] = useState<string>('');
+  const [alertKind, setAlertKind] = useState<AlertRule['kind']>('APPROACH');
+  const [alertLine, setAlertLine] = useState<string>('');
+  const [alertHeadsign, setAlertHeadsign] = useState<string>('');
+  const [alertAgency, setAlertAgency] = useState<string>('');
+  const [alertPlaceId, setAlertPlaceId] = useState<string>('');
+  const [alertRadius, setAlertRadius] = useState<number>(DEFAULT_APPROACH_RADIUS);
+  const [alertMinutes, setAlertMinutes] = useState<number>(DEFAULT_DELAY_MINUTES);
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    'Notification' in window ? Notification.permission : 'unsupported',
+  );
+
+  const addLine = () => {
+    const line = newLine.trim().toUpperCase();
+    if (line !== '' && !lines.includes(line)) onLinesChange([...lines, line]);
+    setNewLine('');
+  };
+
+  const addPlace = () => {
+    const name = newPlaceName.trim();
+    if (name === '') return;
+    onPlacesChange([...places, { id: createId(), name, lat: mapCenter[0], lon: mapCenter[1] }]);
+    setNewPlaceName('');
+  };
+
+  const removePlace = (id: string) => {
+    onPlacesChange(places.filter(p => p.id !== id));
+    // Approach alerts of the place would never fire again
+    onAlertsChange(alerts.filter(rule => rule.kind !== 'APPROACH' || rule.placeId !== id));
+  };
+
+  const placeId = alertPlaceId || places[0]?.id || '';
+  const canAddAlert = alertLine.trim() !== '' && (alertKind === 'DELAY' || placeId !== '');
+  const lineAgencies = [...new Set((catalog.get(alertLine.trim().toUpperCase()) ?? []).map(route => route.agencyName))];
+  // The choice is dropped when the line is changed to one the operator does not run
+  const agencyName = lineAgencies.includes(alertAgency) ? alertAgency : '';
+
+  const addAlert = async () => {
+    const line = alertLine.trim().toUpperCase();
+    const rule: AlertRule = alertKind === 'APPROACH'
+      ? { id: createId(), kind: 'APPROACH', line, agencyName, headsign: alertHeadsign.trim(), placeId, radiusMeters: alertRadius }
+      : { id: createId(), kind: 'DELAY', line, agencyName, minDelayMinutes: alertMinutes };
+    onAlertsChange([...alerts, rule]);
+    setAlertLine('');
+    setAlertAgency('');
+    setAlertHeadsign('');
+    if (permission === 'default') setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <aside className="absolute inset-y-0 left-0 z-[1002] w-full md:w-96 flex flex-col bg-white/95 dark:bg-gray-900/95 text-gray-800 dark:text-gray-200 shadow-2xl">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-bold text-gray-900 dark:text-white">{t('favourites.title')}</h2>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          aria-label={t('favourites.close')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-5 text-sm">
+        <section>
+          <h3 className="font-semibold mb-2">{t('favourites.lines')}</h3>
+          {lines.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('favourites.noLines')}</p>
+          ) : (
+            <div className="flex flex-wrap gap-2 mb-2">
+              {lines.map(line => (
+                <span key={line} className="flex items-center rounded bg-gray-100 dark:bg-gray-800">
+                  <button onClick={() => onShowLines([line])} className="px-2 py-0.5 font-bold" title={t('favourites.showLine', { line })}>
+                    {line}
+                  </button>
+                  <RemoveButton label={t('favourites.removeLine', { line })} onClick={() => onLinesChange(lines.filter(l => l !== line))} />
+                </span>
+              ))}
+              <button onClick={() => onShowLines(lines)} className={primaryButtonClass}>{t('favourites.showAll')}</button>
+            </div>
+          )}
+          <div className="flex gap-2 mt-2">
+            <input
+              value={newLine}
+              onChange={(e) => setNewLine(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addLine()}
+              placeholder={t('favourites.linePlaceholder')}
+              className={`${inputClass} w-24`}
+              aria-label={t('favourites.lineNumber')}
+            />
+            <button onClick={addLine} disabled={newLine.trim() === ''} className={primaryButtonClass}>{t('favourites.addLine')}</button>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="font-semibold mb-2">{t('favourites.places')}</h3>
+          {places.length === 0 ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {t('favourites.noPlaces')}
+            </p>
+          ) : (
+            <ul className="flex flex-col gap-1">
+              {places.map(place => (
+                <li key={place.id} className="flex items-center gap-2">
+                  <span className="flex-1 truncate">{place.name}</span>
+                  {place.stopId !== undefined && <span className="text-xs text-gray-500 dark:text-gray-400">{t('favourites.stop')}</span>}
+                  <RemoveButton label={t('favourites.removePlace', { name: place.name })} onClick={() => removePlace(place.id)} />
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2 mt-2">
+            <input
+              value={newPlaceName}
+              onChange={(e) => setNewPlaceName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addPlace()}
+              placeholder={t('favourites.placePlaceholder')}
+              className={`${inputClass} flex-1`}
+              aria-label={t('favourites.placeName')}
+            />
+            <button onClick={addPlace} disabled={newPlaceName.trim() === ''} className={primaryButtonClass}>{t('favourites.saveMapCenter')}</button>
+          </div>
+        </section>
+
+        <section>
+          <h3 className="font-semibold mb-2">{t('favourites.notifications')}</h3>
+          {permission === 'unsupported' && (
+            <p className="text-xs text-yellow-600 dark:text-yellow-400 mb-2">{t('favourites.notificationsUnsupported')}</p>
+          )}
+          {permission === 'denied' && (
+            <p className="text-xs text-yellow-600 dark:text-yellow-400 mb-2">{t('favourites.notificationsDenied')}</p>
+          )}
+          {permission === 'default' && (
+            <button onClick={async () => setPermission(await Notification.requestPermission())} className={`${primaryButtonClass} mb-2`}>
+              {t('favourites.allowNotifications')}
+            </button>
+          )}
+
+          {alerts.length > 0 && (
+            <ul className="flex flex-col gap-1 mb-3">
+              {alerts.map(rule => (
+                <li key={rule.id} className="flex items-center gap-2">
+                  <span className="flex-1">{describeAlert(rule, places, t)}</span>
+                  <RemoveButton label={t('favourites.removeAlert')} onClick={() => onAlertsChange(alerts.filter(r => r.id !== rule.id))} />
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid grid-cols-[auto_1fr] gap-2 items-center bg-gray-100 dark:bg-gray-800 rounded-lg p-3">
+            <label htmlFor="alertKind">{t('favourites.alertKind')}:</label>
+            <select id="alertKind" value={alertKind} onChange={(e) => setAlertKind(e.target.value as AlertRule['kind'])} className={inputClass}>
+              <option value="APPROACH">{t('favourites.alertApproach')}</option>
+              <option value="DELAY">{t('favourites.alertDelay')}</option>
+            </select>
+            <label htmlFor="alertLine">{t('favourites.alertLine')}:</label>
+            <input id="alertLine" value={alertLine} onChange={(e) => setAlertLine(e.target.value)} placeholder={t('favourites.linePlaceholder')} className={inputClass} />
+            {lineAgencies.length > 1 && (
+              <>
+                <label htmlFor="alertAgency">{t('favourites.alertAgency')}:</label>
+                <select id="alertAgency" value={agencyName} onChange={(e) => setAlertAgency(e.target.value)} className={inputClass}>
+                  <option value="">{t('favourites.anyAgency')}</option>
+                  {lineAgencies.map(agency => <option key={agency} value={agency}>{agency || '—'}</option>)}
+                </select>
+              </>
+            )}
+            {alertKind === 'APPROACH' ? (
+              <>
+                <label htmlFor="alertHeadsign">{t('favourites.alertHeadsign')}:</label>
+                <input id="alertHeadsign" value={alertHeadsign} onChange={(e) => setAlertHeadsign(e.target.value)} placeholder={t('favourites.alertHeadsignPlaceholder')} className={inputClass} />
+                <label htmlFor="alertPlace">{t('favourites.alertPlace')}:</label>
+                <select id="alertPlace" value={placeId} onChange={(e) => setAlertPlaceId(e.target.value)} disabled={places.length === 0} className={inputClass}>
+                  {places.length === 0 && <option value="">{t('favourites.savePlaceFirst')}</option>}
+                  {places.map(place => <option key={place.id} value={place.id}>{place.name}</option>)}
+                </select>
+                <label htmlFor="alertRadius">{t('favourites.alertRadius')}:</label>
+                <input id="alertRadius" type="number" min={100} max={5000} step={100} value={alertRadius} onChange={(e) => setAlertRadius(Number(e.target.value))} className={inputClass} />
+              </>
+            ) : (
+              <>
+                <label htmlFor="alertMinutes">{t('favourites.alertMinutes')}:</label>
+                <input id="alertMinutes" type="number" min={1} max={60} value={alertMinutes} onChange={(e) => setAlertMinutes(Number(e.target.value))} className={inputClass} />
+              </>
+            )}
+            <div className="col-span-2">
+              <button onClick={addAlert} disabled={!canAddAlert} className={primaryButtonClass}>{t('favourites.addAlert')}</button>
+            </div>
+          </div>
+        </section>
+      </div>
+    </aside>
+  );
+};
+
+export default FavouritesPanel;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { FilterPreset, Filters } from '../types';
+import { useI18n } from '../i18n';
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const isSameFilters = (a: Filters, b: Filters) =>
+  a.line.trim() === b.line.trim() && a.type === b.type && a.delay === b.delay && a.query.trim() === b.query.trim();
+
+const buttonClass = 'px-3 py-1 text-xs rounded transition-colors bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 dark:text-gray-200 disabled:opacity-50';
+
+interface FilterPresetsProps {
+  presets: FilterPreset[];
+  filters: Filters;
+  onApply: (filters: Filters) => void;
+  onPresetsChange: (presets: FilterPreset[]) => void;
+}
+
+// Saved filter combinations in the filter bar. The preset matching the
+// current filters is shown as selected and can be deleted.
+const FilterPresets: React.FC<FilterPresetsProps> = ({ presets, filters, onApply, onPresetsChange }) => {
+  const { t } = useI18n();
+  const [isNaming, setIsNaming] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+
+  const current = presets.find(preset => isSameFilters(preset.filters, filters));
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (trimmed === '') return;
+    // Saving under an existing name replaces that preset.
+    const existing = presets.find(preset => preset.name === trimmed);
+    const preset: FilterPreset = { id: existing?.id ?? createId(), name: trimmed, filters };
+    onPresetsChange(existing
+      ? presets.map(p => (p.id === existing.id ? preset : p))
+      : [...presets, preset]);
+    setName('');
+    setIsNaming(false);
+  };
+
+  if (isNaming) {
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') save();
+            else if (e.key === 'Escape') setIsNaming(false);
+          }}
+          placeholder={t('presets.namePlaceholder')}
+          aria-label={t('presets.name')}
+          autoFocus
+          className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1 w-36 border-gray-300 dark:border-gray-600 border focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+        />
+        <button onClick={save} disabled={name.trim() === ''} className={buttonClass}>{t('presets.confirm')}</button>
+        <button onClick={() => setIsNaming(false)} className={buttonClass}>{t('presets.cancel')}</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor="filterPreset" className="font-medium">{t('presets.label')}:</label>
+      <select
+        id="filterPreset"
+        value={current?.id ?? ''}
+        onChange={(e) => {
+          const preset = presets.find(p => p.id === e.target.value);
+          if (preset) onApply(preset.filters);
+        }}
+        disabled={presets.length === 0}
+        className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1 max-w-[10rem]"
+      >
+        <option value="" disabled>{presets.length === 0 ? t('presets.none') : t('presets.choose')}</option>
+        {presets.map(preset => (
+          <option key={preset.id} value={preset.id}>{preset.name}</option>
+        ))}
+      </select>
+      {current ? (
+        <button
+          onClick={() => onPresetsChange(presets.filter(p => p.id !== current.id))}
+          className={buttonClass}
+          aria-label={t('presets.delete', { name: current.name })}
+          title={t('presets.delete', { name: current.name })}
+        >
+          ✕
+        </button>
+      ) : (
+        <button onClick={() => setIsNaming(true)} className={buttonClass}>{t('presets.save')}</button>
+      )}
+    </div>
+  );
+};
+
+export default FilterPresets;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Vehicle } from '../types';
+import { formatDelay } from '../utils/delay';
+import { useI18n } from '../i18n';
+
+interface FollowCardProps {
+  vehicle: Vehicle;
+  color: string;
+  lastUpdate: string;
+  onStopFollowing: () => void;
+  onClose: () => void;
+}
+
+// Info card of the followed vehicle. Stays open across refreshes, unlike the
+// marker popup, which closes whenever the marker is redrawn.
+const FollowCard: React.FC<FollowCardProps> = ({ vehicle, color, lastUpdate, onStopFollowing, onClose }) => {
+  const { t, formatDateTime } = useI18n();
+  const delay = formatDelay(vehicle.delay, t);
+
+  return (
+    <div
+      className="absolute bottom-4 right-4 z-[1000] w-[20rem] max-w-[calc(100vw-2rem)] bg-white/95 dark:bg-gray-800/95 text-gray-800 dark:text-gray-200 rounded-lg shadow-xl p-3 text-sm"
+      role="region"
+      aria-label={t('follow.region')}
+    >
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2">
+          <span className="min-w-[2.5rem] px-1 text-center font-bold text-white rounded py-0.5" style={{ backgroundColor: color }}>
+            {vehicle.routeShortName}
+          </span>
+          <div>
+            <h2 className="font-bold text-gray-900 dark:text-white">→ {vehicle.headsign}</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('follow.subtitle', { code: vehicle.vehicleCode })}</p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          aria-label={t('follow.close')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-1">
+        <dt className="font-semibold">{t('vehicle.speed')}</dt>
+        <dd>{Math.round(vehicle.speed)} km/h</dd>
+        <dt className="font-semibold">{t('vehicle.status')}</dt>
+        <dd className={delay.colorClass}>{delay.text}</dd>
+        {vehicle.agencyName && (
+          <>
+            <dt className="font-semibold">{t('vehicle.agency')}</dt>
+            <dd>{vehicle.agencyName}</dd>
+          </>
+        )}
+        {lastUpdate && (
+          <>
+            <dt className="font-semibold">{t('follow.dataFrom')}</dt>
+            <dd>{formatDateTime(lastUpdate)}</dd>
+          </>
+        )}
+      </dl>
+
+      <div className="flex mt-3">
+        <button
+          onClick={onStopFollowing}
+          className="px-3 py-1 text-xs rounded bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 dark:text-gray-200 transition-colors"
+        >
+          {t('follow.stop')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FollowCard;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Polyline, Tooltip } from 'react-leaflet';
+import { Vehicle } from '../types';
+import { HeadwayIssue, toMinutes } from '../services/headways';
+import { useI18n } from '../i18n';
+
+export const BUNCHED_COLOR = '#DC2626';
+export const GAP_COLOR = '#F59E0B';
+
+interface HeadwayLayerProps {
+  issues: HeadwayIssue[];
+  onSelect: (vehicle: Vehicle) => void;
+}
+
+// Draws the stretch between the vehicles of every bunched pair and gap:
+// bunched pairs as a solid red band, gaps dashed in amber.
+const HeadwayLayer: React.FC<HeadwayLayerProps> = ({ issues, onSelect }) => {
+  const { t } = useI18n();
+  return (
+    <>
+      {issues.map(issue => (
+        <Polyline
+          key={`${issue.follower.vehicleId}-${issue.leader.vehicleId}`}
+          positions={issue.path}
+          pathOptions={issue.kind === 'BUNCHED'
+            ? { color: BUNCHED_COLOR, weight: 8, opacity: 0.75 }
+            : { color: GAP_COLOR, weight: 5, opacity: 0.85, dashArray: '10 8' }}
+          eventHandlers={{ click: () => onSelect(issue.follower) }}
+        >
+          <Tooltip sticky>
+            {t('vehicle.lineTowards', { line: issue.routeShortName, headsign: issue.headsign })}
+            {' · '}
+            {t(issue.kind === 'BUNCHED' ? 'headways.bunched' : 'headways.gap')}
+            {' · '}
+            {t('headways.headway', {
+              minutes: toMinutes(issue.headwaySeconds),
+              expected: toMinutes(issue.expectedHeadwaySeconds),
+            })}
+          </Tooltip>
+        </Polyline>
+      ))}
+    </>
+  );
+};
+
+export default HeadwayLayer;
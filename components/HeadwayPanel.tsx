@@ -0,0 +1,93 @@
+import React from 'react';
+import { Vehicle } from '../types';
+import { HeadwayAnalysis, toMinutes } from '../services/headways';
+import { useI18n } from '../i18n';
+import { BUNCHED_COLOR, GAP_COLOR } from './HeadwayLayer';
+
+interface HeadwayPanelProps {
+  analysis: HeadwayAnalysis;
+  // Route shapes are still loading; lines are ordered by heading meanwhile
+  isLoadingShapes: boolean;
+  // Whether the map keeps the flags once the panel is closed
+  showOnMap: boolean;
+  onShowOnMapChange: (showOnMap: boolean) => void;
+  onSelect: (vehicle: Vehicle) => void;
+  onClose: () => void;
+}
+
+// Bunched pairs and gaps of the latest poll, most irregular first.
+const HeadwayPanel: React.FC<HeadwayPanelProps> = ({ analysis, isLoadingShapes, showOnMap, onShowOnMapChange, onSelect, onClose }) => {
+  const { t } = useI18n();
+  const bunched = analysis.issues.filter(issue => issue.kind === 'BUNCHED').length;
+  const gaps = analysis.issues.length - bunched;
+
+  return (
+    <aside className="absolute inset-y-0 right-0 z-[1002] w-full md:w-[26rem] flex flex-col bg-white/95 dark:bg-gray-900/95 text-gray-800 dark:text-gray-200 shadow-2xl">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">{t('headways.title')}</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400" aria-live="polite">
+            {t('headways.summary', { bunched, gaps })} · {t('headways.groups', { count: analysis.analysedGroups })}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          aria-label={t('headways.close')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto text-sm">
+        <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+          {t(isLoadingShapes ? 'headways.loadingShapes' : 'headways.help')}
+        </p>
+        <label className="flex items-center gap-2 px-4 py-2 text-xs">
+          <input type="checkbox" checked={showOnMap} onChange={e => onShowOnMapChange(e.target.checked)} />
+          {t('headways.showOnMap')}
+        </label>
+        {analysis.issues.length === 0 && <p className="px-4 py-2">{t('headways.empty')}</p>}
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {analysis.issues.map(issue => (
+            <li key={`${issue.follower.vehicleId}-${issue.leader.vehicleId}`}>
+              <button
+                onClick={() => onSelect(issue.follower)}
+                className="w-full flex items-center gap-3 px-4 py-2 text-left hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              >
+                <span
+                  className="w-2 self-stretch rounded"
+                  style={{ backgroundColor: issue.kind === 'BUNCHED' ? BUNCHED_COLOR : GAP_COLOR }}
+                  aria-hidden="true"
+                ></span>
+                <span className="w-10 text-center font-bold text-white bg-blue-600 rounded py-0.5">{issue.routeShortName}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="block truncate" title={issue.headsign}>{issue.headsign}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {t('headways.vehicles', { follower: issue.follower.vehicleCode, leader: issue.leader.vehicleCode })}
+                    {!issue.isAlongShape && ` · ${t('headways.straightLine')}`}
+                  </span>
+                </span>
+                <span className="text-right">
+                  <span className="block font-semibold">
+                    {t(issue.kind === 'BUNCHED' ? 'headways.bunched' : 'headways.gap')}
+                  </span>
+                  <span className="block text-xs tabular-nums">
+                    {t('headways.headway', { minutes: toMinutes(issue.headwaySeconds), expected: toMinutes(issue.expectedHeadwaySeconds) })}
+                  </span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400 tabular-nums">
+                    {Math.round(issue.distanceMeters / 10) * 10} m
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </aside>
+  );
+};
+
+export default HeadwayPanel;
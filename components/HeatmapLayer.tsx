@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { Rectangle, Tooltip } from 'react-leaflet';
+import L from 'leaflet';
+import { HeatCell, HeatmapMode } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+
+type ActiveHeatmapMode = Exclude<HeatmapMode, 'OFF'>;
+
+// Value ranges mapped onto the green → red scale
+const SCALES: Record<ActiveHeatmapMode, { min: number; max: number; unit: string; title: MessageKey }> = {
+  // Seconds of delay gained per minute of driving; 30 s/min means the vehicle
+  // loses half of its time at that spot.
+  DELAY_GAIN: { min: 0, max: 30, unit: 's/min', title: 'heatmap.delayGain' },
+  // Inverted: low speed is bad
+  SLOW: { min: 40, max: 0, unit: 'km/h', title: 'heatmap.slow' },
+};
+
+const colorFor = (mode: ActiveHeatmapMode, value: number) => {
+  const { min, max } = SCALES[mode];
+  const ratio = Math.min(Math.max((value - min) / (max - min), 0), 1);
+  return `hsl(${Math.round(120 * (1 - ratio))}, 85%, 45%)`;
+};
+
+interface HeatmapLayerProps {
+  cells: HeatCell[];
+  mode: ActiveHeatmapMode;
+}
+
+export const HeatmapLayer: React.FC<HeatmapLayerProps> = ({ cells, mode }) => {
+  // Hundreds of cells render much faster on one canvas than as SVG paths.
+  const renderer = useMemo(() => L.canvas({ padding: 0.2 }), []);
+  const { t } = useI18n();
+  const { unit } = SCALES[mode];
+
+  return (
+    <>
+      {cells.map(cell => (
+        <Rectangle
+          key={`${cell.bounds[0][0]}:${cell.bounds[0][1]}`}
+          bounds={cell.bounds}
+          pathOptions={{ renderer, stroke: false, fillColor: colorFor(mode, cell.value), fillOpacity: 0.55 }}
+        >
+          <Tooltip>
+            {cell.value.toFixed(1)} {unit} · {t('dashboard.samples', { count: cell.samples })}
+          </Tooltip>
+        </Rectangle>
+      ))}
+    </>
+  );
+};
+
+export const HeatmapLegend: React.FC<{ mode: ActiveHeatmapMode; windowMinutes: number }> = ({ mode, windowMinutes }) => {
+  const { t } = useI18n();
+  const { min, max, unit, title } = SCALES[mode];
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] px-3 py-2 rounded-lg shadow-lg bg-white/90 dark:bg-gray-800/90 text-gray-800 dark:text-gray-200 text-xs">
+      <div className="font-semibold mb-1">{t('heatmap.legend', { title: t(title), minutes: windowMinutes })}</div>
+      <div className="h-2 w-48 rounded" style={{ background: 'linear-gradient(to right, hsl(120,85%,45%), hsl(60,85%,45%), hsl(0,85%,45%))' }} />
+      <div className="flex justify-between mt-0.5">
+        <span>{min} {unit}</span>
+        <span>{max} {unit}</span>
+      </div>
+    </div>
+  );
+};
+
+export default HeatmapLayer;
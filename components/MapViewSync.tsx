@@ -0,0 +1,38 @@
+import React, { useEffect } from 'react';
+import { useMap, useMapEvents } from 'react-leaflet';
+import { MapView } from '../types';
+import { roundMapView } from '../utils/urlState';
+
+interface MapViewSyncProps {
+  view: MapView;
+  onViewChange: (view: MapView) => void;
+  // Called when the user starts dragging the map, e.g. to end follow mode
+  onUserPan?: () => void;
+}
+
+// Keeps the Leaflet viewport and the app's `view` state in step, both ways.
+// Views are rounded the same way on both sides, so a view reported by the map
+// never moves it again. Must be rendered inside MapContainer.
+const MapViewSync: React.FC<MapViewSyncProps> = ({ view, onViewChange, onUserPan }) => {
+  const map = useMap();
+
+  useMapEvents({
+    dragstart: () => onUserPan?.(),
+    moveend: () => {
+      const center = map.getCenter();
+      onViewChange(roundMapView([center.lat, center.lng], map.getZoom()));
+    },
+  });
+
+  useEffect(() => {
+    const center = map.getCenter();
+    const current = roundMapView([center.lat, center.lng], map.getZoom());
+    if (current.zoom !== view.zoom || current.center[0] !== view.center[0] || current.center[1] !== view.center[1]) {
+      map.setView(view.center, view.zoom, { animate: true });
+    }
+  }, [map, view]);
+
+  return null;
+};
+
+export default MapViewSync;
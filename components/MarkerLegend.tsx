@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import { ColorStop, MarkerTheme, Vehicle } from '../types';
+import { gradientCss } from '../utils/markerStyle';
+import { useI18n } from '../i18n';
+
+// Lines or operators beyond this are summed up as "+N"
+const MAX_LEGEND_ENTRIES = 6;
+
+const Swatch: React.FC<{ color: string }> = ({ color }) => (
+  <span className="inline-block w-4 h-4 rounded-full shrink-0" style={{ backgroundColor: color, border: '2px solid rgba(150,150,150,0.7)' }}></span>
+);
+
+const GradientLegend: React.FC<{ stops: ColorStop[]; format: (value: number) => string; label: string }> = ({ stops, format, label }) => (
+  <span className="flex items-center gap-2" role="img" aria-label={`${label}: ${stops.map(stop => format(stop.value)).join(', ')}`}>
+    <span className="text-xs">{format(stops[0].value)}</span>
+    <span className="inline-block w-24 h-3 rounded" style={{ background: gradientCss(stops) }} title={label}></span>
+    <span className="text-xs">{format(stops[stops.length - 1].value)}</span>
+  </span>
+);
+
+interface MarkerLegendProps {
+  theme: MarkerTheme;
+  // Vehicles on the map, for the counts and the lines or operators shown
+  vehicles: Vehicle[];
+  colorOf: (vehicle: Vehicle) => string;
+}
+
+// Vehicle counts and what the marker colors mean under the active rule.
+const MarkerLegend: React.FC<MarkerLegendProps> = ({ theme, vehicles, colorOf }) => {
+  const { t } = useI18n();
+  const busCount = vehicles.filter(v => v.vehicleType === 'BUS').length;
+  const tramCount = vehicles.length - busCount;
+
+  // The most frequent lines or operators with their colors
+  const entries = useMemo(() => {
+    if (theme.colorRule !== 'LINE' && theme.colorRule !== 'AGENCY') return [];
+    const counts = new Map<string, { color: string; count: number }>();
+    for (const vehicle of vehicles) {
+      const key = theme.colorRule === 'LINE' ? vehicle.routeShortName : vehicle.agencyName || '—';
+      const entry = counts.get(key);
+      if (entry) entry.count++;
+      else counts.set(key, { color: colorOf(vehicle), count: 1 });
+    }
+    return [...counts].sort((a, b) => b[1].count - a[1].count);
+  }, [theme.colorRule, vehicles, colorOf]);
+
+  const formatMinutes = (seconds: number) => {
+    const minutes = Math.round(seconds / 60);
+    return t(minutes > 0 ? 'delay.shortLate' : minutes < 0 ? 'delay.shortEarly' : 'delay.shortOnTime', { count: Math.abs(minutes) });
+  };
+
+  return (
+    <>
+      <span className="flex items-center gap-2">
+        {theme.colorRule === 'TYPE' && <Swatch color={theme.busColor} />}
+        {t('app.buses')}: <span className="font-bold">{busCount}</span>
+      </span>
+      <span className="flex items-center gap-2">
+        {theme.colorRule === 'TYPE' && <Swatch color={theme.tramColor} />}
+        {t('app.trams')}: <span className="font-bold">{tramCount}</span>
+      </span>
+      {theme.colorRule === 'DELAY' && (
+        <GradientLegend stops={theme.delayGradient} format={formatMinutes} label={t('theme.ruleDelay')} />
+      )}
+      {theme.colorRule === 'SPEED' && (
+        <GradientLegend stops={theme.speedGradient} format={value => `${value} km/h`} label={t('theme.ruleSpeed')} />
+      )}
+      {entries.length > 0 && (
+        <span className="flex items-center gap-2 text-xs" aria-label={t(theme.colorRule === 'LINE' ? 'theme.ruleLine' : 'theme.ruleAgency')}>
+          {entries.slice(0, MAX_LEGEND_ENTRIES).map(([key, { color }]) => (
+            <span key={key} className="flex items-center gap-1">
+              <Swatch color={color} />
+              {key}
+            </span>
+          ))}
+          {entries.length > MAX_LEGEND_ENTRIES && <span>{t('theme.more', { count: entries.length - MAX_LEGEND_ENTRIES })}</span>}
+        </span>
+      )}
+    </>
+  );
+};
+
+export default MarkerLegend;
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { ColorStop, IconShape, MarkerColorRule, MarkerLabel, MarkerTheme } from '../types';
+import {
+  MARKER_COLOR_RULES,
+  MARKER_LABELS,
+  MARKER_THEME_PRESETS,
+  markerThemeToJson,
+  parseMarkerThemeJson,
+} from '../utils/markerStyle';
+import { paletteColor } from '../utils/lineColors';
+import { downloadFile, fileTimestamp } from '../utils/download';
+import { MessageKey, useI18n } from '../i18n';
+
+const RULE_LABELS: Record<MarkerColorRule, MessageKey> = {
+  TYPE: 'theme.ruleType',
+  DELAY: 'theme.ruleDelay',
+  LINE: 'theme.ruleLine',
+  SPEED: 'theme.ruleSpeed',
+  AGENCY: 'theme.ruleAgency',
+};
+
+const LABEL_LABELS: Record<MarkerLabel, MessageKey> = {
+  LINE: 'theme.labelLine',
+  HEADSIGN: 'theme.labelHeadsign',
+  FLEET_NUMBER: 'theme.labelFleetNumber',
+  DELAY: 'theme.labelDelay',
+};
+
+const selectClass = 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1';
+const buttonClass = 'px-3 py-1 text-xs rounded transition-colors bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 dark:text-gray-200';
+const Separator = () => <div className="border-l border-gray-400 dark:border-gray-600 h-8 mx-2"></div>;
+
+const IconShapeSelect: React.FC<{ id: string; value: IconShape; onChange: (shape: IconShape) => void }> = ({ id, value, onChange }) => {
+  const { t } = useI18n();
+  return (
+    <select id={id} value={value} onChange={(e) => onChange(e.target.value as IconShape)} className={selectClass}>
+      <option value="dot">{t('settings.iconDot')}</option>
+      <option value="vehicle">{t('settings.iconVehicle')}</option>
+      <option value="pin">{t('settings.iconPin')}</option>
+    </select>
+  );
+};
+
+// One color input per stop; the stop values themselves are edited in the
+// exported JSON.
+const GradientEditor: React.FC<{ stops: ColorStop[]; format: (value: number) => string; onChange: (stops: ColorStop[]) => void }> = ({ stops, format, onChange }) => (
+  <div className="flex items-center gap-2">
+    {stops.map((stop, i) => (
+      <label key={i} className="flex flex-col items-center text-xs">
+        <input
+          type="color"
+          value={stop.color}
+          onChange={(e) => onChange(stops.map((s, j) => (j === i ? { ...s, color: e.target.value.toUpperCase() } : s)))}
+          className="w-6 h-6 p-0 border-0 rounded"
+        />
+        {format(stop.value)}
+      </label>
+    ))}
+  </div>
+);
+
+interface MarkerThemeSettingsProps {
+  theme: MarkerTheme;
+  // Operators seen in the feed, for the AGENCY rule
+  agencies: string[];
+  onChange: (theme: MarkerTheme) => void;
+}
+
+// The marker part of the settings panel: color rule, icons, labels, presets
+// and the JSON export and import of the whole theme.
+const MarkerThemeSettings: React.FC<MarkerThemeSettingsProps> = ({ theme, agencies, onChange }) => {
+  const { t } = useI18n();
+  const [hasImportError, setHasImportError] = useState<boolean>(false);
+  const update = <K extends keyof MarkerTheme>(key: K, value: MarkerTheme[K]) => onChange({ ...theme, [key]: value });
+
+  const activePreset = MARKER_THEME_PRESETS.find(preset => markerThemeToJson(preset.theme) === markerThemeToJson(theme));
+
+  const importFile = async (file: File) => {
+    try {
+      onChange(parseMarkerThemeJson(await file.text()));
+      setHasImportError(false);
+    } catch (error) {
+      console.error("Nie udało się wczytać motywu znaczników:", error);
+      setHasImportError(true);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <label htmlFor="markerThemePreset">{t('theme.preset')}:</label>
+        <select
+          id="markerThemePreset"
+          value={activePreset?.id ?? ''}
+          onChange={(e) => {
+            const preset = MARKER_THEME_PRESETS.find(p => p.id === e.target.value);
+            if (preset) onChange(preset.theme);
+          }}
+          className={selectClass}
+        >
+          {!activePreset && <option value="">{t('theme.presetCustom')}</option>}
+          {MARKER_THEME_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{t(preset.labelKey)}</option>)}
+        </select>
+      </div>
+      <div className="flex items-center gap-2">
+        <label htmlFor="markerColorRule">{t('theme.colorBy')}:</label>
+        <select id="markerColorRule" value={theme.colorRule} onChange={(e) => update('colorRule', e.target.value as MarkerColorRule)} className={selectClass}>
+          {MARKER_COLOR_RULES.map(rule => <option key={rule} value={rule}>{t(RULE_LABELS[rule])}</option>)}
+        </select>
+      </div>
+      {theme.colorRule === 'TYPE' && (
+        <>
+          <div className="flex items-center gap-2">
+            <label htmlFor="busColor">{t('settings.busColor')}:</label>
+            <input type="color" id="busColor" value={theme.busColor} onChange={(e) => update('busColor', e.target.value.toUpperCase())} className="w-8 h-8 p-0 border-0 rounded" />
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="tramColor">{t('settings.tramColor')}:</label>
+            <input type="color" id="tramColor" value={theme.tramColor} onChange={(e) => update('tramColor', e.target.value.toUpperCase())} className="w-8 h-8 p-0 border-0 rounded" />
+          </div>
+        </>
+      )}
+      {theme.colorRule === 'DELAY' && (
+        <GradientEditor
+          stops={theme.delayGradient}
+          format={value => t(value > 0 ? 'delay.shortLate' : value < 0 ? 'delay.shortEarly' : 'delay.shortOnTime', { count: Math.abs(Math.round(value / 60)) })}
+          onChange={stops => update('delayGradient', stops)}
+        />
+      )}
+      {theme.colorRule === 'SPEED' && (
+        <GradientEditor stops={theme.speedGradient} format={value => `${value} km/h`} onChange={stops => update('speedGradient', stops)} />
+      )}
+      {theme.colorRule === 'LINE' && <span className="text-xs text-gray-500 dark:text-gray-400">{t('theme.lineHint')}</span>}
+      {theme.colorRule === 'AGENCY' && (
+        <fieldset className="flex flex-wrap items-center gap-2">
+          <legend className="sr-only">{t('settings.agencyColors')}</legend>
+          {agencies.length === 0 && <span className="text-xs text-gray-500 dark:text-gray-400">{t('theme.noAgencies')}</span>}
+          {agencies.map(agency => (
+            <span key={agency} className="flex items-center gap-1">
+              <input
+                type="color"
+                value={theme.agencyColors[agency] ?? paletteColor(agency)}
+                onChange={(e) => update('agencyColors', { ...theme.agencyColors, [agency]: e.target.value.toUpperCase() })}
+                className="w-6 h-6 p-0 border-0 rounded"
+                aria-label={t('settings.agencyColor', { agency })}
+                title={t('settings.agencyColor', { agency })}
+              />
+              <span className="text-xs">{agency}</span>
+              {theme.agencyColors[agency] && (
+                <button
+                  onClick={() => {
+                    const { [agency]: _removed, ...rest } = theme.agencyColors;
+                    update('agencyColors', rest);
+                  }}
+                  className="text-xs text-gray-500 hover:text-gray-800 dark:hover:text-white"
+                  aria-label={t('settings.resetAgencyColor', { agency })}
+                  title={t('settings.resetAgencyColor', { agency })}
+                >
+                  ✕
+                </button>
+              )}
+            </span>
+          ))}
+        </fieldset>
+      )}
+      <Separator />
+      <div className="flex items-center gap-2">
+        <label htmlFor="busIcon">{t('settings.busIcon')}:</label>
+        <IconShapeSelect id="busIcon" value={theme.busIconShape} onChange={shape => update('busIconShape', shape)} />
+      </div>
+      <div className="flex items-center gap-2">
+        <label htmlFor="tramIcon">{t('settings.tramIcon')}:</label>
+        <IconShapeSelect id="tramIcon" value={theme.tramIconShape} onChange={shape => update('tramIconShape', shape)} />
+      </div>
+      <Separator />
+      <fieldset className="flex items-center gap-2">
+        <legend className="float-left mr-2">{t('theme.labels')}:</legend>
+        {MARKER_LABELS.map(label => (
+          <label key={label} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={theme.labels.includes(label)}
+              onChange={() => update('labels', MARKER_LABELS.filter(l => (l === label ? !theme.labels.includes(l) : theme.labels.includes(l))))}
+            />
+            {t(LABEL_LABELS[label])}
+          </label>
+        ))}
+      </fieldset>
+      <Separator />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => downloadFile(`motyw-znacznikow_${fileTimestamp()}.json`, markerThemeToJson(theme), 'application/json')}
+          className={buttonClass}
+        >
+          {t('theme.export')}
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          {t('theme.import')}
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="sr-only"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {hasImportError && <span role="alert" className="text-xs text-red-600 dark:text-red-400">{t('theme.importFailed')}</span>}
+      </div>
+    </>
+  );
+};
+
+export default MarkerThemeSettings;
@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import { Vehicle } from '../types';
+import { angleBetween, bearingTo, distanceMeters } from '../utils/motion';
+import { formatDelay } from '../utils/delay';
+import { useI18n } from '../i18n';
+
+export const NEARBY_RADIUS_OPTIONS = [300, 500, 1000]; // meters
+const MAX_NEARBY_VEHICLES = 15;
+// Stationary vehicles have no meaningful bearing
+const MIN_MOVING_SPEED = 3; // km/h
+
+interface NearbyPanelProps {
+  vehicles: Vehicle[];
+  // null while waiting for the first fix
+  position: [number, number] | null;
+  error: string | null;
+  radius: number;
+  onRadiusChange: (radius: number) => void;
+  onVehicleClick: (vehicle: Vehicle) => void;
+  onClose: () => void;
+}
+
+const NearbyPanel: React.FC<NearbyPanelProps> = ({ vehicles, position, error, radius, onRadiusChange, onVehicleClick, onClose }) => {
+  const { t } = useI18n();
+  const nearby = useMemo(() => {
+    if (!position) return [];
+    return vehicles
+      .map(vehicle => {
+        const distance = distanceMeters(position[0], position[1], vehicle.lat, vehicle.lon);
+        // Approaching when the user is ahead of the vehicle, i.e. within 90° of its heading
+        const heading = vehicle.speed < MIN_MOVING_SPEED
+          ? null
+          : angleBetween(vehicle.bearing, bearingTo(vehicle.lat, vehicle.lon, position[0], position[1])) < 90;
+        return { vehicle, distance, isApproaching: heading };
+      })
+      .filter(entry => entry.distance <= radius)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, MAX_NEARBY_VEHICLES);
+  }, [vehicles, position, radius]);
+
+  return (
+    <div className="absolute bottom-4 left-4 z-[1000] w-[22rem] max-w-[calc(100vw-2rem)] max-h-[60vh] flex flex-col bg-white/95 dark:bg-gray-800/95 text-gray-800 dark:text-gray-200 rounded-lg shadow-xl overflow-hidden">
+      <div className="flex items-start justify-between gap-2 p-3 border-b border-gray-200 dark:border-gray-700">
+        <div>
+          <h2 className="font-bold text-lg text-gray-900 dark:text-white">{t('nearby.title')}</h2>
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            {t('nearby.radius')}{' '}
+            <select
+              value={radius}
+              onChange={(e) => onRadiusChange(Number(e.target.value))}
+              className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-0.5"
+            >
+              {NEARBY_RADIUS_OPTIONS.map(option => <option key={option} value={option}>{option} m</option>)}
+            </select>
+          </label>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          aria-label={t('nearby.close')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="overflow-y-auto">
+        {error && <p className="p-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+        {!error && !position && <p className="p-3 text-sm animate-pulse">{t('nearby.locating')}</p>}
+        {!error && position && nearby.length === 0 && (
+          <p className="p-3 text-sm">{t('nearby.empty', { radius })}</p>
+        )}
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {nearby.map(({ vehicle, distance, isApproaching }) => {
+            const delay = formatDelay(vehicle.delay, t);
+            return (
+              <li key={vehicle.vehicleId}>
+                <button
+                  onClick={() => onVehicleClick(vehicle)}
+                  className="w-full flex items-center gap-3 px-3 py-2 text-sm text-left hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <span className="w-10 text-center font-bold text-white bg-blue-600 rounded py-0.5">{vehicle.routeShortName}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block truncate" title={vehicle.headsign}>{vehicle.headsign}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {t(isApproaching === null ? 'nearby.stopped' : isApproaching ? 'nearby.approaching' : 'nearby.leaving')}
+                    </span>
+                  </span>
+                  <span className="text-right">
+                    <span className="block font-semibold">{Math.round(distance / 10) * 10} m</span>
+                    <span className={`block text-xs ${delay.colorClass}`}>{delay.shortText}</span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default NearbyPanel;
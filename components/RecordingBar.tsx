@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { RecordedSnapshot } from '../types';
+import { REFRESH_INTERVAL } from '../constants';
+import { parseRecording, recordingToCsv, recordingToGeoJson, recordingToNdjson } from '../services/recording';
+import { downloadFile, fileTimestamp } from '../utils/download';
+import { useI18n } from '../i18n';
+
+const PLAYBACK_RATES = [1, 4, 16, 60];
+// Bounds for the real time between two replayed snapshots
+const MIN_STEP_MS = 100;
+const MAX_STEP_MS = 10_000;
+
+const EXPORTS = [
+  { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8', serialize: recordingToCsv },
+  { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json', serialize: recordingToGeoJson },
+  { label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson', serialize: recordingToNdjson },
+];
+
+const buttonClass = 'px-3 py-1 text-xs rounded transition-colors bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 dark:text-gray-200 disabled:opacity-50';
+
+interface RecordingBarProps {
+  isRecording: boolean;
+  recording: RecordedSnapshot[];
+  onRecordingToggle: () => void;
+  onRecordingClear: () => void;
+  // Snapshots replayed instead of the live feed, null when live
+  playback: RecordedSnapshot[] | null;
+  playbackIndex: number;
+  onPlaybackStart: (snapshots: RecordedSnapshot[]) => void;
+  onPlaybackSeek: (index: number) => void;
+  onPlaybackStop: () => void;
+}
+
+// Records the live feed, exports the recording and replays imported ones.
+// The playback timer lives here, so the bar stays open while replaying.
+const RecordingBar: React.FC<RecordingBarProps> = ({
+  isRecording, recording, onRecordingToggle, onRecordingClear,
+  playback, playbackIndex, onPlaybackStart, onPlaybackSeek, onPlaybackStop,
+}) => {
+  const { t, formatDateTime } = useI18n();
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [playbackRate, setPlaybackRate] = useState<number>(PLAYBACK_RATES[1]);
+  const [hasImportError, setHasImportError] = useState<boolean>(false);
+
+  // Snapshots follow each other with their recorded spacing, sped up by the rate.
+  useEffect(() => {
+    if (!playback || !isPlaying) return;
+    if (playbackIndex >= playback.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const gap = Date.parse(playback[playbackIndex + 1].lastUpdate) - Date.parse(playback[playbackIndex].lastUpdate);
+    const delay = Math.min(Math.max((gap || REFRESH_INTERVAL) / playbackRate, MIN_STEP_MS), MAX_STEP_MS);
+    const timeoutId = setTimeout(() => onPlaybackSeek(playbackIndex + 1), delay);
+    return () => clearTimeout(timeoutId);
+  }, [playback, playbackIndex, isPlaying, playbackRate, onPlaybackSeek]);
+
+  const importFile = async (file: File) => {
+    try {
+      onPlaybackStart(parseRecording(await file.text()));
+      setHasImportError(false);
+      setIsPlaying(true);
+    } catch (error) {
+      console.error("Nie udało się wczytać nagrania:", error);
+      setHasImportError(true);
+    }
+  };
+
+  if (playback) {
+    const current = playback[playbackIndex];
+    return (
+      <div className="bg-gray-100 dark:bg-gray-800 p-3 rounded-lg mt-2 flex flex-wrap gap-3 items-center justify-center text-sm">
+        <span className="font-medium">{t('recording.playback')}</span>
+        <button
+          onClick={() => {
+            if (!isPlaying && playbackIndex >= playback.length - 1) onPlaybackSeek(0);
+            setIsPlaying(!isPlaying);
+          }}
+          className="px-3 py-1 text-xs rounded bg-blue-600 text-white font-bold hover:bg-blue-700 transition-colors"
+        >
+          {t(isPlaying ? 'replay.pause' : 'replay.play')}
+        </button>
+        <select
+          value={playbackRate}
+          onChange={e => setPlaybackRate(Number(e.target.value))}
+          className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1 text-xs"
+          aria-label={t('replay.playbackRate')}
+        >
+          {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+        </select>
+        <input
+          type="range"
+          min={0}
+          max={playback.length - 1}
+          value={playbackIndex}
+          onChange={e => onPlaybackSeek(Number(e.target.value))}
+          className="w-48"
+          aria-label={t('recording.timeline')}
+          aria-valuetext={formatDateTime(current.lastUpdate)}
+        />
+        <span className="text-xs text-gray-600 dark:text-gray-300 tabular-nums">
+          {formatDateTime(current.lastUpdate)} · {t('recording.position', { index: playbackIndex + 1, count: playback.length })}
+        </span>
+        <button
+          onClick={() => {
+            setIsPlaying(false);
+            onPlaybackStop();
+          }}
+          className={buttonClass}
+        >
+          {t('replay.backToLive')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-100 dark:bg-gray-800 p-3 rounded-lg mt-2 flex flex-wrap gap-3 items-center justify-center text-sm">
+      <button
+        onClick={onRecordingToggle}
+        className={`px-3 py-1 text-xs rounded font-bold transition-colors ${
+          isRecording ? 'bg-red-600 text-white hover:bg-red-700' : 'bg-blue-600 text-white hover:bg-blue-700'
+        }`}
+        aria-pressed={isRecording}
+      >
+        {t(isRecording ? 'recording.stop' : 'recording.start')}
+      </button>
+      <span className="flex items-center gap-2" aria-live="polite">
+        {isRecording && <span className="w-2 h-2 rounded-full bg-red-600 animate-pulse" aria-hidden="true"></span>}
+        {t('recording.snapshots', { count: recording.length })}
+      </span>
+      <span className="font-medium">{t('recording.export')}:</span>
+      {EXPORTS.map(format => (
+        <button
+          key={format.extension}
+          onClick={() => downloadFile(`nagranie-pojazdow_${fileTimestamp()}.${format.extension}`, format.serialize(recording), format.mimeType)}
+          disabled={recording.length === 0}
+          className={buttonClass}
+        >
+          {format.label}
+        </button>
+      ))}
+      <button onClick={onRecordingClear} disabled={recording.length === 0 || isRecording} className={buttonClass}>
+        {t('recording.clear')}
+      </button>
+      <div className="border-l border-gray-400 dark:border-gray-600 h-8 mx-2"></div>
+      <label className={`${buttonClass} cursor-pointer`}>
+        {t('recording.import')}
+        <input
+          type="file"
+          accept=".csv,.geojson,.json,.ndjson,.jsonl"
+          className="sr-only"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      {hasImportError && <span role="alert" className="text-xs text-red-600 dark:text-red-400">{t('recording.importFailed')}</span>}
+    </div>
+  );
+};
+
+export default RecordingBar;
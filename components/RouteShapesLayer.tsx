@@ -0,0 +1,41 @@
+import React from 'react';
+import { Polyline, Tooltip } from 'react-leaflet';
+import { RouteShape } from '../types';
+import { lineColorKey } from '../utils/lineColors';
+import { useI18n } from '../i18n';
+
+interface RouteShapesLayerProps {
+  shapes: RouteShape[];
+  // Keyed by lineColorKey
+  lineColors: Map<string, string>;
+  onSelectLine: (routeShortName: string) => void;
+}
+
+const RouteShapesLayer: React.FC<RouteShapesLayerProps> = ({ shapes, lineColors, onSelectLine }) => {
+  const { t } = useI18n();
+  return (
+    <>
+      {shapes.map(shape => (
+        <Polyline
+          key={shape.shapeId}
+          positions={shape.points}
+          pathOptions={{
+            color: lineColors.get(lineColorKey(shape.agencyName, shape.routeShortName)) ?? '#6B7280',
+            weight: 5,
+            opacity: 0.7,
+            // The return direction is dashed so both directions stay visible
+            // where they share the same street.
+            dashArray: shape.directionId === 1 ? '8 6' : undefined,
+          }}
+          eventHandlers={{ click: () => onSelectLine(shape.routeShortName) }}
+        >
+          <Tooltip sticky>
+            {t('vehicle.lineTowards', { line: shape.routeShortName, headsign: shape.headsign })}
+          </Tooltip>
+        </Polyline>
+      ))}
+    </>
+  );
+};
+
+export default RouteShapesLayer;
@@ -0,0 +1,60 @@
+import React, { useState, useMemo } from 'react';
+import { CircleMarker, Tooltip, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { Stop } from '../types';
+
+// Below this zoom level the ~2000 stops would only clutter the map.
+export const MIN_STOPS_ZOOM = 15;
+
+interface StopsLayerProps {
+  stops: Stop[];
+  selectedStopId: number | null;
+  isDarkMode: boolean;
+  onSelect: (stop: Stop) => void;
+}
+
+const StopsLayer: React.FC<StopsLayerProps> = ({ stops, selectedStopId, isDarkMode, onSelect }) => {
+  const map = useMapEvents({
+    moveend: () => setView({ zoom: map.getZoom(), bounds: map.getBounds() }),
+    zoomend: () => setView({ zoom: map.getZoom(), bounds: map.getBounds() }),
+  });
+  const [view, setView] = useState<{ zoom: number; bounds: L.LatLngBounds }>(() => ({
+    zoom: map.getZoom(),
+    bounds: map.getBounds(),
+  }));
+
+  // Only stops inside the (slightly padded) viewport are rendered.
+  const visibleStops = useMemo(() => {
+    if (view.zoom < MIN_STOPS_ZOOM) return [];
+    const bounds = view.bounds.pad(0.2);
+    return stops.filter(stop => bounds.contains([stop.lat, stop.lon]));
+  }, [stops, view]);
+
+  return (
+    <>
+      {visibleStops.map(stop => {
+        const isSelected = stop.stopId === selectedStopId;
+        return (
+          <CircleMarker
+            key={stop.stopId}
+            center={[stop.lat, stop.lon]}
+            radius={isSelected ? 8 : 5}
+            pathOptions={{
+              color: isDarkMode ? '#e5e7eb' : '#1f2937',
+              weight: 2,
+              fillColor: isSelected ? '#facc15' : isDarkMode ? '#374151' : '#ffffff',
+              fillOpacity: 1,
+            }}
+            eventHandlers={{ click: () => onSelect(stop) }}
+          >
+            <Tooltip direction="top" offset={[0, -6]}>
+              {stop.stopName} {stop.stopCode}
+            </Tooltip>
+          </CircleMarker>
+        );
+      })}
+    </>
+  );
+};
+
+export default StopsLayer;
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HistorySample } from '../types';
+import { sampleAt } from '../services/vehicleHistory';
+import { formatDelay } from '../utils/delay';
+import { useI18n } from '../i18n';
+
+const PLAYBACK_RATES = [10, 30, 60];
+
+interface SparklineProps {
+  track: HistorySample[];
+  value: (sample: HistorySample) => number;
+  cursorTime: number;
+  color: string;
+}
+
+// Minimal SVG line chart of one sample field over the recorded window.
+const Sparkline: React.FC<SparklineProps> = ({ track, value, cursorTime, color }) => {
+  const width = 280;
+  const height = 36;
+  const start = track[0].time;
+  const span = Math.max(track[track.length - 1].time - start, 1);
+  const values = track.map(value);
+  const min = Math.min(0, ...values);
+  const max = Math.max(1, ...values);
+
+  const x = (time: number) => ((time - start) / span) * width;
+  const y = (v: number) => height - ((v - min) / (max - min)) * height;
+  const points = track.map((sample, i) => `${x(sample.time).toFixed(1)},${y(values[i]).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-9" preserveAspectRatio="none" aria-hidden="true">
+      {min < 0 && <line x1={0} x2={width} y1={y(0)} y2={y(0)} stroke="currentColor" strokeOpacity={0.2} />}
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      <line x1={x(cursorTime)} x2={x(cursorTime)} y1={0} y2={height} stroke="currentColor" strokeOpacity={0.6} />
+    </svg>
+  );
+};
+
+interface TripReplayPanelProps {
+  title: string;
+  track: HistorySample[];
+  color: string;
+  // null means live: the panel follows the newest sample
+  replayTime: number | null;
+  onReplayTimeChange: (time: number | null) => void;
+  onFollow: () => void;
+  onClose: () => void;
+}
+
+const TripReplayPanel: React.FC<TripReplayPanelProps> = ({ title, track, color, replayTime, onReplayTimeChange, onFollow, onClose }) => {
+  const { t, formatTime } = useI18n();
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [playbackRate, setPlaybackRate] = useState<number>(PLAYBACK_RATES[1]);
+  const replayTimeRef = useRef(replayTime);
+  replayTimeRef.current = replayTime;
+
+  const firstTime = track[0]?.time ?? 0;
+  const lastTime = track[track.length - 1]?.time ?? 0;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frameId: number;
+    let previous = performance.now();
+
+    const step = (now: number) => {
+      const current = replayTimeRef.current ?? firstTime;
+      const next = current + (now - previous) * playbackRate;
+      previous = now;
+      if (next >= lastTime) {
+        // Reaching the newest sample returns to live mode.
+        setIsPlaying(false);
+        onReplayTimeChange(null);
+        return;
+      }
+      onReplayTimeChange(next);
+      frameId = requestAnimationFrame(step);
+    };
+
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, playbackRate, firstTime, lastTime, onReplayTimeChange]);
+
+  const cursorTime = replayTime ?? lastTime;
+  const current = sampleAt(track, cursorTime);
+  const delay = current ? formatDelay(current.delay, t) : null;
+  const hasHistory = track.length >= 2;
+
+  return (
+    <div className="absolute bottom-4 right-4 z-[1000] w-[20rem] max-w-[calc(100vw-2rem)] bg-white/95 dark:bg-gray-800/95 text-gray-800 dark:text-gray-200 rounded-lg shadow-xl p-3 text-sm">
+      <div className="flex items-start justify-between gap-2 mb-2">
+        <div>
+          <h2 className="font-bold text-gray-900 dark:text-white">{title}</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {t(replayTime === null ? 'replay.live' : 'replay.playback')} · {formatTime(cursorTime, true)}
+          </p>
+        </div>
+        <button
+          onClick={onFollow}
+          className="ml-auto px-2 py-1 text-xs rounded bg-blue-600 text-white font-bold hover:bg-blue-700 transition-colors"
+          title={t('replay.followHint')}
+        >
+          {t('replay.follow')}
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          aria-label={t('replay.close')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      {!hasHistory ? (
+        <p className="text-gray-500 dark:text-gray-400">{t('replay.collecting')}</p>
+      ) : (
+        <>
+          {current && delay && (
+            <div className="flex justify-between mb-2">
+              <span><span className="font-semibold">{t('vehicle.speed')}:</span> {Math.round(current.speed)} km/h</span>
+              <span className={delay.colorClass}>{delay.text}</span>
+            </div>
+          )}
+          <div className="text-xs text-gray-500 dark:text-gray-400">{t('replay.speed')}</div>
+          <Sparkline track={track} value={sample => sample.speed} cursorTime={cursorTime} color={color} />
+          <div className="text-xs text-gray-500 dark:text-gray-400">{t('replay.delay')}</div>
+          <Sparkline track={track} value={sample => sample.delay} cursorTime={cursorTime} color="#EF4444" />
+
+          <input
+            type="range"
+            min={firstTime}
+            max={lastTime}
+            step={1000}
+            value={cursorTime}
+            onChange={e => {
+              const time = Number(e.target.value);
+              onReplayTimeChange(time >= lastTime ? null : time);
+            }}
+            className="w-full mt-2"
+            aria-label={t('replay.timeline')}
+            aria-valuetext={formatTime(cursorTime, true)}
+          />
+          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+            <span>{formatTime(firstTime, true)}</span>
+            <span>{formatTime(lastTime, true)}</span>
+          </div>
+
+          <div className="flex items-center gap-2 mt-2">
+            <button
+              onClick={() => {
+                if (!isPlaying && replayTime === null) onReplayTimeChange(firstTime);
+                setIsPlaying(!isPlaying);
+              }}
+              className="px-3 py-1 text-xs rounded bg-blue-600 text-white font-bold hover:bg-blue-700 transition-colors"
+            >
+              {t(isPlaying ? 'replay.pause' : 'replay.play')}
+            </button>
+            <select
+              value={playbackRate}
+              onChange={e => setPlaybackRate(Number(e.target.value))}
+              className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1 text-xs"
+              aria-label={t('replay.playbackRate')}
+            >
+              {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+            </select>
+            <button
+              onClick={() => {
+                setIsPlaying(false);
+                onReplayTimeChange(null);
+              }}
+              disabled={replayTime === null}
+              className="ml-auto px-3 py-1 text-xs rounded bg-gray-200 hover:bg-gray-300 text-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 dark:text-gray-200 disabled:opacity-50 transition-colors"
+            >
+              {t('replay.backToLive')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TripReplayPanel;
@@ -0,0 +1,22 @@
+import React, { createContext, useEffect, useState } from 'react';
+import { useMap } from 'react-leaflet';
+import { VehicleAnimator } from '../utils/vehicleAnimator';
+
+export const VehicleAnimatorContext = createContext<VehicleAnimator | null>(null);
+
+// Shares one VehicleAnimator between all vehicle markers of the map. Must be
+// rendered inside MapContainer.
+const VehicleAnimatorProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const map = useMap();
+  const [animator, setAnimator] = useState<VehicleAnimator | null>(null);
+
+  useEffect(() => {
+    const instance = new VehicleAnimator(map);
+    setAnimator(instance);
+    return () => instance.stop();
+  }, [map]);
+
+  return <VehicleAnimatorContext.Provider value={animator}>{children}</VehicleAnimatorContext.Provider>;
+};
+
+export default VehicleAnimatorProvider;
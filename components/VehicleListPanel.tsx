@@ -0,0 +1,225 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Vehicle } from '../types';
+import { formatDelay } from '../utils/delay';
+import { useI18n } from '../i18n';
+
+type SortKey = 'LINE' | 'DELAY' | 'SPEED';
+
+// Rows skipped by Page Up / Page Down
+const PAGE_SIZE = 10;
+
+const compareLines = (a: Vehicle, b: Vehicle) =>
+  a.routeShortName.localeCompare(b.routeShortName, 'pl', { numeric: true }) ||
+  a.vehicleCode.localeCompare(b.vehicleCode, 'pl', { numeric: true });
+
+const COMPARATORS: Record<SortKey, (a: Vehicle, b: Vehicle) => number> = {
+  LINE: compareLines,
+  DELAY: (a, b) => a.delay - b.delay || compareLines(a, b),
+  SPEED: (a, b) => a.speed - b.speed || compareLines(a, b),
+};
+
+interface SortHeaderProps {
+  sortId: SortKey;
+  label: string;
+  sortKey: SortKey;
+  isDescending: boolean;
+  onSort: (key: SortKey) => void;
+  className?: string;
+}
+
+const SortHeader: React.FC<SortHeaderProps> = ({ sortId, label, sortKey, isDescending, onSort, className = '' }) => (
+  <th
+    scope="col"
+    aria-sort={sortKey === sortId ? (isDescending ? 'descending' : 'ascending') : 'none'}
+    className={`py-1 font-normal ${className}`}
+  >
+    <button onClick={() => onSort(sortId)} className="inline-flex items-center gap-1 hover:underline">
+      {label}
+      <span aria-hidden="true">{sortKey === sortId ? (isDescending ? '▼' : '▲') : ''}</span>
+    </button>
+  </th>
+);
+
+interface VehicleListPanelProps {
+  vehicles: Vehicle[];
+  selectedVehicle: Vehicle | null;
+  colorOf: (vehicle: Vehicle) => string;
+  onSelect: (vehicle: Vehicle) => void;
+  onClose: () => void;
+}
+
+// Table of the filtered vehicles for keyboard and screen reader users, as an
+// alternative to the map markers. Rows use a roving tabindex: Tab enters the
+// table once, the arrow keys move between vehicles.
+const VehicleListPanel: React.FC<VehicleListPanelProps> = ({ vehicles, selectedVehicle, colorOf, onSelect, onClose }) => {
+  const { t } = useI18n();
+  const [sortKey, setSortKey] = useState<SortKey>('LINE');
+  const [isDescending, setIsDescending] = useState<boolean>(false);
+  const [isGrouped, setIsGrouped] = useState<boolean>(true);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const rowRefs = useRef(new Map<number, HTMLTableRowElement>());
+
+  const groups = useMemo(() => {
+    const direction = isDescending ? -1 : 1;
+    const sorted = [...vehicles].sort((a, b) => COMPARATORS[sortKey](a, b) * direction);
+    if (!isGrouped) return [{ line: null, vehicles: sorted }];
+    // Groups stay in line order; the sort applies within each line.
+    const byLine = new Map<string, Vehicle[]>();
+    for (const vehicle of sorted) {
+      const group = byLine.get(vehicle.routeShortName);
+      if (group) group.push(vehicle);
+      else byLine.set(vehicle.routeShortName, [vehicle]);
+    }
+    return [...byLine.entries()]
+      .sort(([a], [b]) => a.localeCompare(b, 'pl', { numeric: true }) * (sortKey === 'LINE' ? direction : 1))
+      .map(([line, lineVehicles]) => ({ line, vehicles: lineVehicles }));
+  }, [vehicles, sortKey, isDescending, isGrouped]);
+
+  const rows = useMemo(() => groups.flatMap(group => group.vehicles), [groups]);
+  // The tab stop falls back to the selected vehicle, then to the first row.
+  const tabStopId = [activeId, selectedVehicle?.vehicleId, rows[0]?.vehicleId]
+    .find(id => id !== undefined && id !== null && rows.some(v => v.vehicleId === id));
+
+  const focusRow = (index: number) => {
+    const vehicle = rows[Math.min(Math.max(index, 0), rows.length - 1)];
+    if (!vehicle) return;
+    setActiveId(vehicle.vehicleId);
+    rowRefs.current.get(vehicle.vehicleId)?.focus();
+  };
+
+  const handleRowKeyDown = (e: React.KeyboardEvent, vehicle: Vehicle) => {
+    const index = rows.indexOf(vehicle);
+    const moves: Record<string, number> = {
+      ArrowDown: index + 1,
+      ArrowUp: index - 1,
+      PageDown: index + PAGE_SIZE,
+      PageUp: index - PAGE_SIZE,
+      Home: 0,
+      End: rows.length - 1,
+    };
+    if (e.key in moves) {
+      e.preventDefault();
+      focusRow(moves[e.key]);
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onSelect(vehicle);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) setIsDescending(!isDescending);
+    else {
+      setSortKey(key);
+      // The most delayed and the fastest vehicles are the interesting ones.
+      setIsDescending(key !== 'LINE');
+    }
+  };
+
+  // Announced whenever the selection or the status of the selected vehicle
+  // changes; position and speed updates alone would be too chatty.
+  const announcement = selectedVehicle
+    ? t('list.announcement', {
+        code: selectedVehicle.vehicleCode,
+        title: t('vehicle.lineTowards', { line: selectedVehicle.routeShortName, headsign: selectedVehicle.headsign }),
+        delay: formatDelay(selectedVehicle.delay, t).text,
+      })
+    : '';
+
+  return (
+    <aside
+      className="absolute inset-y-0 left-0 z-[1002] w-full md:w-[26rem] flex flex-col bg-white/95 dark:bg-gray-900/95 text-gray-800 dark:text-gray-200 shadow-2xl"
+      aria-labelledby="vehicleListTitle"
+    >
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <div>
+          <h2 id="vehicleListTitle" className="text-lg font-bold text-gray-900 dark:text-white">{t('list.title')}</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('list.vehicles', { count: vehicles.length })}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          aria-label={t('list.close')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+          </svg>
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 px-4 py-2 text-sm border-b border-gray-200 dark:border-gray-700">
+        <input type="checkbox" checked={isGrouped} onChange={(e) => setIsGrouped(e.target.checked)} />
+        {t('list.groupByLine')}
+      </label>
+      <p id="vehicleListHint" className="sr-only">{t('list.keyboardHint')}</p>
+      <p className="sr-only" aria-live="polite" aria-atomic="true">{announcement}</p>
+
+      <div className="flex-1 overflow-y-auto px-4 pb-4 text-sm">
+        {rows.length === 0 ? (
+          <p className="py-3 text-gray-500 dark:text-gray-400">{t('list.empty')}</p>
+        ) : (
+          <table role="grid" aria-labelledby="vehicleListTitle" aria-describedby="vehicleListHint" className="w-full">
+            <thead className="sticky top-0 bg-white dark:bg-gray-900 text-xs text-gray-500 dark:text-gray-400">
+              <tr>
+                <SortHeader sortId="LINE" label={t('list.line')} sortKey={sortKey} isDescending={isDescending} onSort={sortBy} className="text-left" />
+                <th scope="col" className="py-1 font-normal text-left">{t('list.headsign')}</th>
+                <SortHeader sortId="DELAY" label={t('list.delay')} sortKey={sortKey} isDescending={isDescending} onSort={sortBy} className="text-right" />
+                <SortHeader sortId="SPEED" label={t('list.speed')} sortKey={sortKey} isDescending={isDescending} onSort={sortBy} className="text-right" />
+              </tr>
+            </thead>
+            {groups.map(group => (
+              <tbody key={group.line ?? 'all'}>
+                {group.line !== null && (
+                  <tr>
+                    <th scope="rowgroup" colSpan={4} className="pt-3 pb-1 text-left text-xs font-semibold text-gray-500 dark:text-gray-400">
+                      {t('list.groupHeading', { line: group.line, vehicles: t('list.vehicles', { count: group.vehicles.length }) })}
+                    </th>
+                  </tr>
+                )}
+                {group.vehicles.map(vehicle => {
+                  const delay = formatDelay(vehicle.delay, t);
+                  const isSelected = vehicle.vehicleId === selectedVehicle?.vehicleId;
+                  return (
+                    <tr
+                      key={vehicle.vehicleId}
+                      ref={element => {
+                        if (element) rowRefs.current.set(vehicle.vehicleId, element);
+                        else rowRefs.current.delete(vehicle.vehicleId);
+                      }}
+                      tabIndex={vehicle.vehicleId === tabStopId ? 0 : -1}
+                      aria-selected={isSelected}
+                      onClick={() => onSelect(vehicle)}
+                      onFocus={() => setActiveId(vehicle.vehicleId)}
+                      onKeyDown={(e) => handleRowKeyDown(e, vehicle)}
+                      className={`cursor-pointer border-t border-gray-200 dark:border-gray-700 outline-none focus:ring-2 focus:ring-inset focus:ring-blue-500 ${
+                        isSelected ? 'bg-blue-100 dark:bg-gray-700' : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                      }`}
+                    >
+                      <td className="py-1">
+                        <span className="inline-block min-w-[2.5rem] px-1 text-center font-bold text-white rounded py-0.5" style={{ backgroundColor: colorOf(vehicle) }}>
+                          {vehicle.routeShortName}
+                        </span>
+                      </td>
+                      <td className="py-1 px-2 max-w-0 w-full">
+                        <span className="block truncate" title={vehicle.headsign}>{vehicle.headsign}</span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">#{vehicle.vehicleCode}</span>
+                      </td>
+                      <td className={`py-1 text-right whitespace-nowrap ${delay.colorClass}`}>
+                        <span aria-hidden="true">{delay.shortText}</span>
+                        <span className="sr-only">{delay.text}</span>
+                      </td>
+                      <td className="py-1 pl-2 text-right whitespace-nowrap">{Math.round(vehicle.speed)} km/h</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            ))}
+          </table>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default VehicleListPanel;
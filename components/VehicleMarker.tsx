@@ -0,0 +1,124 @@
+import React, { useContext, useEffect, useMemo, useRef } from 'react';
+import { Marker, Popup } from 'react-leaflet';
+import L from 'leaflet';
+import { Vehicle, IconShape } from '../types';
+import { formatDelay } from '../utils/delay';
+import { useI18n } from '../i18n';
+import { LABEL_BACKGROUND, LABEL_COLOR, LABEL_FONT, STALE_ICON_OPACITY, buildVehicleIconSvg, escapeHtml, labelOffset } from '../utils/vehicleIcons';
+import { VehicleAnimatorContext } from './VehicleAnimatorProvider';
+
+interface VehicleMarkerProps {
+  vehicle: Vehicle;
+  color: string;
+  iconShape: IconShape;
+  // Text under the icon, e.g. line and fleet number; none when empty
+  label?: string;
+  // The feed has reported the same position for a long time
+  isStale?: boolean;
+  onSelect?: (vehicleId: number) => void;
+  // Changes whenever the app asks to open this marker's popup, e.g. from a list
+  popupRequest?: number;
+}
+
+// Popup body, also used by the canvas renderer.
+export const VehicleDetails: React.FC<{ vehicle: Vehicle; isStale?: boolean }> = ({ vehicle, isStale }) => {
+  const { t } = useI18n();
+  const { text: delayText, colorClass: delayColor } = formatDelay(vehicle.delay, t);
+  return (
+    <div className="font-sans text-gray-800 dark:text-gray-300">
+      <h3 className="font-bold text-lg mb-1 text-gray-900 dark:text-white">
+        {t(vehicle.vehicleType === 'TRAM' ? 'vehicle.tramLine' : 'vehicle.busLine', { line: vehicle.routeShortName })}
+      </h3>
+      <p>
+        <span className="font-semibold">{t('vehicle.headsign')}:</span> {vehicle.headsign}
+      </p>
+      <p>
+        <span className="font-semibold">{t('vehicle.code')}:</span> {vehicle.vehicleCode}
+      </p>
+      {vehicle.agencyName && (
+        <p>
+          <span className="font-semibold">{t('vehicle.agency')}:</span> {vehicle.agencyName}
+        </p>
+      )}
+      <p>
+        <span className="font-semibold">{t('vehicle.speed')}:</span> {vehicle.speed} km/h
+      </p>
+      <p className={delayColor}>
+        <span className="font-semibold">{t('vehicle.status')}:</span> {delayText}
+      </p>
+      {isStale && (
+        <p className="text-orange-600 dark:text-orange-400 text-sm mt-1">
+          {t('vehicle.frozenPosition')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const VehicleMarker: React.FC<VehicleMarkerProps> = ({ vehicle, color, iconShape, label = '', isStale = false, onSelect, popupRequest }) => {
+  const { t } = useI18n();
+  const icon = useMemo(() => {
+    const { svg, size: iconSize } = buildVehicleIconSvg(vehicle.vehicleType, vehicle.routeShortName, color, iconShape);
+
+    const iconHtml = `
+      <div style="transform-origin: center; transform: rotate(${vehicle.bearing}deg); transition: transform 0.5s linear;">
+        ${svg}
+      </div>
+      ${label && `<div style="position: absolute; left: 50%; top: ${iconSize[1] / 2 + labelOffset(iconSize)}px; transform: translateX(-50%); white-space: nowrap; padding: 0 4px; border-radius: 4px; font: ${LABEL_FONT}; color: ${LABEL_COLOR}; background: ${LABEL_BACKGROUND};">${escapeHtml(label)}</div>`}
+    `;
+
+    return L.divIcon({
+      html: iconHtml,
+      className: '',
+      iconSize: iconSize,
+      iconAnchor: [iconSize[0] / 2, iconSize[1] / 2],
+      popupAnchor: [0, -iconSize[1] / 2],
+    });
+  }, [vehicle.bearing, vehicle.vehicleType, color, iconShape, vehicle.routeShortName, label]);
+
+  // With an animator the marker is moved imperatively between polls, so the
+  // position prop stays at the first fix and never makes react-leaflet jump it.
+  const animator = useContext(VehicleAnimatorContext);
+  const markerRef = useRef<L.Marker | null>(null);
+  const initialPosition = useRef<[number, number]>([vehicle.lat, vehicle.lon]);
+
+  useEffect(() => {
+    if (!animator || !markerRef.current) return;
+    animator.update(vehicle.vehicleId, markerRef.current, {
+      lat: vehicle.lat,
+      lon: vehicle.lon,
+      speed: vehicle.speed,
+      bearing: vehicle.bearing,
+    });
+  }, [animator, vehicle.vehicleId, vehicle.lat, vehicle.lon, vehicle.speed, vehicle.bearing]);
+
+  useEffect(() => {
+    if (!animator) return;
+    const { vehicleId } = vehicle;
+    return () => animator.remove(vehicleId);
+  }, [animator, vehicle.vehicleId]);
+
+  // A request from a list also moves the keyboard focus to the marker.
+  useEffect(() => {
+    if (popupRequest === undefined) return;
+    markerRef.current?.openPopup();
+    markerRef.current?.getElement()?.focus({ preventScroll: true });
+  }, [popupRequest]);
+
+  return (
+    <Marker
+      ref={markerRef}
+      position={animator ? initialPosition.current : [vehicle.lat, vehicle.lon]}
+      icon={icon}
+      title={t('vehicle.lineTowards', { line: vehicle.routeShortName, headsign: vehicle.headsign })}
+      opacity={isStale ? STALE_ICON_OPACITY : 1}
+      eventHandlers={{ click: () => onSelect?.(vehicle.vehicleId) }}
+    >
+      <Popup>
+        <VehicleDetails vehicle={vehicle} isStale={isStale} />
+      </Popup>
+    </Marker>
+  );
+};
+
+export default VehicleMarker;
@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { Vehicle } from '../types';
+import { searchVehicles } from '../utils/vehicleSearch';
+import { useI18n } from '../i18n';
+
+const MAX_RESULTS = 8;
+
+interface VehicleSearchProps {
+  vehicles: Vehicle[];
+  onSelect: (vehicle: Vehicle) => void;
+}
+
+const VehicleSearch: React.FC<VehicleSearchProps> = ({ vehicles, onSelect }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState<string>('');
+  const [activeIndex, setActiveIndex] = useState<number>(0);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+
+  const results = useMemo(() => searchVehicles(vehicles, query, MAX_RESULTS), [vehicles, query]);
+  const showResults = isOpen && query.trim() !== '';
+
+  const choose = (vehicle: Vehicle) => {
+    onSelect(vehicle);
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      choose(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative flex items-center gap-2">
+      <label htmlFor="vehicleSearch" className="font-medium">{t('search.label')}:</label>
+      <input
+        id="vehicleSearch"
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        // Delayed, so a click on a result lands before the list disappears
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        placeholder={t('search.placeholder')}
+        role="combobox"
+        aria-expanded={showResults}
+        aria-controls="vehicleSearchResults"
+        aria-activedescendant={showResults && results[activeIndex] ? `vehicleSearch-${results[activeIndex].vehicleId}` : undefined}
+        className="bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded p-1 w-48 border-gray-300 dark:border-gray-600 border focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+      />
+      {showResults && (
+        <ul
+          id="vehicleSearchResults"
+          role="listbox"
+          className="absolute top-full right-0 mt-1 w-72 max-w-[calc(100vw-2rem)] z-[1003] bg-white dark:bg-gray-800 rounded-lg shadow-xl overflow-hidden"
+        >
+          {results.length === 0 ? (
+            <li className="px-3 py-2 text-gray-500 dark:text-gray-400">{t('search.empty')}</li>
+          ) : results.map((vehicle, i) => (
+            <li
+              key={vehicle.vehicleId}
+              id={`vehicleSearch-${vehicle.vehicleId}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(vehicle)}
+              onMouseEnter={() => setActiveIndex(i)}
+              className={`flex items-center gap-2 px-3 py-2 cursor-pointer ${i === activeIndex ? 'bg-blue-100 dark:bg-gray-700' : ''}`}
+            >
+              <span className="w-10 text-center font-bold text-white bg-blue-600 rounded py-0.5">{vehicle.routeShortName}</span>
+              <span className="flex-1 truncate">{vehicle.headsign}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">#{vehicle.vehicleCode}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default VehicleSearch;
@@ -0,0 +1,79 @@
+import React, { useEffect, useMemo } from 'react';
+import { CircleMarker, Polyline } from 'react-leaflet';
+import L from 'leaflet';
+import { HistorySample } from '../types';
+import { sampleAt } from '../services/vehicleHistory';
+
+// The trail is drawn as a handful of polylines with increasing opacity rather
+// than one polyline per segment, and the breadcrumb dots of the recorded
+// positions share one canvas instead of an SVG element each, which keeps long
+// trails cheap to render.
+const TRAIL_BUCKETS = 8;
+
+interface VehicleTrailProps {
+  track: HistorySample[];
+  color: string;
+  // When set, the trail ends at this time and a marker shows the replayed position
+  replayTime: number | null;
+}
+
+const VehicleTrail: React.FC<VehicleTrailProps> = ({ track, color, replayTime }) => {
+  const dotRenderer = useMemo(() => L.canvas(), []);
+  // Leaflet keeps a renderer on the map after its last path is gone
+  useEffect(() => () => {
+    dotRenderer.remove();
+  }, [dotRenderer]);
+  const visibleTrack = useMemo(
+    () => (replayTime === null ? track : track.filter(sample => sample.time <= replayTime)),
+    [track, replayTime],
+  );
+
+  const buckets = useMemo(() => {
+    if (visibleTrack.length < 2) return [];
+    const size = Math.ceil((visibleTrack.length - 1) / TRAIL_BUCKETS);
+    const result: { positions: [number, number][]; opacity: number }[] = [];
+    for (let start = 0; start < visibleTrack.length - 1; start += size) {
+      // Buckets share their boundary sample so the trail has no gaps.
+      const slice = visibleTrack.slice(start, start + size + 1);
+      result.push({
+        positions: slice.map(sample => [sample.lat, sample.lon]),
+        opacity: 0.15 + 0.75 * ((start + size) / (visibleTrack.length - 1)),
+      });
+    }
+    return result;
+  }, [visibleTrack]);
+
+  const replayed = replayTime === null ? null : sampleAt(track, replayTime);
+
+  return (
+    <>
+      {buckets.map((bucket, i) => (
+        <Polyline
+          key={i}
+          positions={bucket.positions}
+          pathOptions={{ color, weight: 4, opacity: Math.min(bucket.opacity, 0.9), lineCap: 'round' }}
+          interactive={false}
+        />
+      ))}
+      {visibleTrack.map(sample => (
+        <CircleMarker
+          key={sample.time}
+          center={[sample.lat, sample.lon]}
+          radius={2}
+          pathOptions={{ color, weight: 1, fillOpacity: 0.6, renderer: dotRenderer }}
+          interactive={false}
+        />
+      ))}
+      {replayed && (
+        <CircleMarker
+          center={[replayed.lat, replayed.lon]}
+          radius={9}
+          pathOptions={{ color: '#ffffff', weight: 3, fillColor: color, fillOpacity: 0.9 }}
+          interactive={false}
+        />
+      )}
+    </>
+  );
+};
+
+export default VehicleTrail;
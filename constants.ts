@@ -0,0 +1,6 @@
+export const GDANSK_CENTER: [number, number] = [54.372158, 18.638306];
+export const REFRESH_INTERVAL = 5000; // 5 seconds
+// Upper bound for the polling interval while backing off after failures
+export const MAX_REFRESH_INTERVAL = 60000; // 1 minute
+// A vehicle counts as delayed (and the network as unpunctual) above this delay
+export const DELAY_THRESHOLD_SECONDS = 120; // 2 minutes
@@ -0,0 +1,313 @@
+import { Messages } from './pl';
+
+const en: Messages = {
+  'app.title': 'Gdańsk Live Transport',
+  'app.lastUpdate': 'Last update: {time}',
+  'app.staleSnapshot': 'Outdated data · as of {time}',
+  'app.droppedRecords': '{count} skipped',
+  'app.buses': 'Buses',
+  'app.trams': 'Trams',
+  'app.loading': 'Loading data...',
+  'app.criticalError': 'Critical Error',
+  'app.noDataTitle': 'Data Loading Error',
+  'app.noData': 'No vehicle data could be loaded.',
+  'app.noDataHint': 'Check your internet connection or try again later.',
+  'app.failedSources': 'No data: {sources}',
+  'app.followEnded': 'Vehicle #{code} disappeared from the live feed — stopped following.',
+
+  'errors.routeInfo': 'Essential line information could not be loaded. Refresh the page to try again.',
+  'errors.stops': 'The list of stops could not be downloaded.',
+  'errors.vehicles': 'There was a problem updating vehicle positions.',
+  'errors.geolocationUnsupported': 'This browser does not provide a location.',
+  'errors.geolocationDenied': 'Location access was denied. You can allow it in the browser settings.',
+  'errors.geolocationFailed': 'Your location could not be determined.',
+
+  'header.showStops': 'Show stops',
+  'header.hideStops': 'Hide stops',
+  'header.stopsZoomIn': 'Zoom in to see stops',
+  'header.stopsZoomInAction': 'Zoom in',
+  'header.stops': 'Stops',
+  'header.nearby': 'Vehicles nearby',
+  'header.toggleTheme': 'Toggle theme',
+  'header.settings': 'Customise icons',
+
+  'filters.line': 'Line',
+  'filters.linePlaceholder': 'e.g. 2, 115, N1',
+  'filters.type': 'Type',
+  'filters.all': 'All',
+  'filters.status': 'Status',
+  'filters.onTime': 'On time',
+  'filters.delayed': 'Delayed',
+  'filters.heatmap': 'Heatmap',
+  'filters.heatmapOff': 'Off',
+  'filters.heatmapDelayGain': 'Delay growth',
+  'filters.heatmapSlow': 'Low speed',
+  'filters.query': 'Query',
+  'filters.queryPlaceholder': 'e.g. line:1xx delay>5m',
+  'filters.queryHelp': 'Terms separated by spaces must all match, a comma means "or" and a leading minus negates a term. Examples: line:1xx, line:100-199, N*, headsign~"Oliwa", delay>300, delay>5m, speed=0, type:tram, ahead, late, stopped, moving, -line:N*.',
+  'filters.queryInvalid': 'Unknown terms: {terms}',
+
+  'presets.label': 'Saved',
+  'presets.choose': 'Choose a filter',
+  'presets.none': 'None saved',
+  'presets.save': 'Save filter',
+  'presets.name': 'Filter name',
+  'presets.namePlaceholder': 'e.g. Late night buses',
+  'presets.confirm': 'Save',
+  'presets.cancel': 'Cancel',
+  'presets.delete': 'Delete saved filter {name}',
+
+  'settings.language': 'Language',
+  'settings.dataSources': 'Data sources',
+  'settings.agencyColors': 'Operator colours',
+  'settings.agencyColor': 'Vehicle colour of {agency}',
+  'settings.resetAgencyColor': 'Restore the default colour of {agency}',
+  'theme.preset': 'Marker theme',
+  'theme.presetCustom': 'Custom',
+  'theme.presetClassic': 'Classic',
+  'theme.presetPunctuality': 'Punctuality',
+  'theme.presetLines': 'Lines',
+  'theme.presetSpeed': 'Speed',
+  'theme.presetDepot': 'Depot',
+  'theme.colorBy': 'Colour by',
+  'theme.ruleType': 'Vehicle type',
+  'theme.ruleDelay': 'Delay',
+  'theme.ruleLine': 'Line',
+  'theme.ruleSpeed': 'Speed',
+  'theme.ruleAgency': 'Operator',
+  'theme.lineHint': 'Official line colours from the GTFS, palette colours for the other lines.',
+  'theme.noAgencies': 'No operators in the data.',
+  'theme.labels': 'Labels',
+  'theme.labelLine': 'Line',
+  'theme.labelHeadsign': 'Headsign',
+  'theme.labelFleetNumber': 'Fleet number',
+  'theme.labelDelay': 'Delay',
+  'theme.export': 'Export theme',
+  'theme.import': 'Import theme',
+  'theme.importFailed': 'This is not a marker theme file.',
+  'theme.more': '+{count}',
+  'settings.busColor': 'Bus Colour',
+  'settings.busIcon': 'Bus Icon',
+  'settings.tramColor': 'Tram Colour',
+  'settings.tramIcon': 'Tram Icon',
+  'settings.iconDot': 'Dot',
+  'settings.iconVehicle': 'Vehicle',
+  'settings.iconPin': 'Pin',
+  'settings.history': 'Trip history',
+  'settings.renderMode': 'Vehicle rendering',
+  'settings.renderAuto': 'Automatic',
+  'settings.renderMarkers': 'Markers',
+  'settings.renderFast': 'Fast (clustering)',
+
+  'units.minutes': '{count} min',
+
+  'delay.late': {
+    one: '{count} minute late',
+    other: '{count} minutes late',
+  },
+  'delay.early': {
+    one: '{count} minute early',
+    other: '{count} minutes early',
+  },
+  'delay.onTime': 'on time',
+  'delay.shortLate': '+{count} min',
+  'delay.shortEarly': '−{count} min',
+  'delay.shortOnTime': '0 min',
+
+  'vehicle.busLine': 'Bus Line: {line}',
+  'vehicle.tramLine': 'Tram Line: {line}',
+  'vehicle.lineTowards': 'Line {line} → {headsign}',
+  'vehicle.headsign': 'Destination',
+  'vehicle.code': 'Vehicle',
+  'vehicle.agency': 'Operator',
+  'vehicle.speed': 'Speed',
+  'vehicle.status': 'Status',
+  'vehicle.frozenPosition': 'The position has not changed for a long time – the GPS may be faulty.',
+  'vehicle.clusterTitle': 'Buses: {buses}, Trams: {trams}',
+
+  'connection.live': 'Live',
+  'connection.degraded': 'Connection problems',
+  'connection.stale': 'Outdated data',
+  'connection.offline': 'Offline',
+  'connection.dataAge': 'data from {age} ago',
+  'connection.cached': 'saved snapshot',
+  'connection.failures': 'failed attempts: {count}',
+  'connection.ageSeconds': '{count} s',
+  'connection.ageMinutes': '{count} min',
+  'connection.ageHours': '{hours} h {minutes} min',
+
+  'dashboard.title': 'Delay analysis',
+  'dashboard.since': 'Since {time}',
+  'dashboard.polls': {
+    one: '{count} poll',
+    other: '{count} polls',
+  },
+  'dashboard.samples': {
+    one: '{count} sample',
+    other: '{count} samples',
+  },
+  'dashboard.close': 'Close delay analysis',
+  'dashboard.punctualityNow': 'Punctuality now',
+  'dashboard.punctualityTotal': 'Overall punctuality',
+  'dashboard.meanDelay': 'Average delay',
+  'dashboard.punctualityOverTime': 'Network punctuality over time',
+  'dashboard.notEnoughData': 'Not enough data yet — the chart appears after a few refreshes.',
+  'dashboard.distribution': 'Delay distribution',
+  'dashboard.byType': 'By vehicle type',
+  'dashboard.type': 'Type',
+  'dashboard.line': 'Line',
+  'dashboard.samplesColumn': 'Samples',
+  'dashboard.meanDelayColumn': 'Avg. delay',
+  'dashboard.punctuality': 'Punctuality',
+  'dashboard.worstLines': 'Most delayed lines',
+  'dashboard.notEnoughSamples': 'Not enough samples.',
+  'dashboard.maxDelay': 'max {delay}',
+  'dashboard.allLines': 'All lines ({count})',
+  'dashboard.exportCsv': 'Export CSV',
+  'dashboard.exportJson': 'Export JSON',
+  'dashboard.reset': 'Reset',
+
+  'departures.upcoming': 'Next departures',
+  'departures.addFavourite': 'Add stop to favourites',
+  'departures.removeFavourite': 'Remove stop from favourites',
+  'departures.close': 'Close departure board',
+  'departures.loading': 'Loading departures...',
+  'departures.error': 'Departures could not be downloaded.',
+  'departures.empty': 'No departures in the near future.',
+  'departures.estimatedTime': 'Time estimated from GPS',
+  'departures.scheduledTime': 'Scheduled time',
+  'departures.live': 'live',
+  'departures.now': 'now',
+  'departures.inMinutes': 'in {count} min',
+  'departures.scheduled': 'scheduled',
+
+  'favourites.title': 'Favourites and notifications',
+  'favourites.close': 'Close favourites',
+  'favourites.lines': 'Favourite lines',
+  'favourites.noLines': 'No favourite lines yet.',
+  'favourites.showLine': 'Show line {line}',
+  'favourites.removeLine': 'Remove line {line} from favourites',
+  'favourites.showAll': 'Show all',
+  'favourites.linePlaceholder': 'e.g. 115',
+  'favourites.lineNumber': 'Line number',
+  'favourites.addLine': 'Add line',
+  'favourites.places': 'Places',
+  'favourites.noPlaces': 'Save the map centre as a place (e.g. home), or a stop with the star button on its departure board.',
+  'favourites.stop': 'stop',
+  'favourites.removePlace': 'Remove place {name}',
+  'favourites.placePlaceholder': 'Name, e.g. Home',
+  'favourites.placeName': 'Place name',
+  'favourites.saveMapCenter': 'Save map centre',
+  'favourites.notifications': 'Notifications',
+  'favourites.notificationsUnsupported': 'This browser does not support notifications — alerts will only appear on the map.',
+  'favourites.notificationsDenied': 'Notifications are blocked in the browser settings — alerts will only appear on the map.',
+  'favourites.allowNotifications': 'Allow notifications',
+  'favourites.removeAlert': 'Remove alert',
+  'favourites.alertKind': 'Kind',
+  'favourites.alertApproach': 'Vehicle near a place',
+  'favourites.alertDelay': 'Line delay',
+  'favourites.alertLine': 'Line',
+  'favourites.alertAgency': 'Operator',
+  'favourites.anyAgency': 'any',
+  'favourites.alertHeadsign': 'Destination',
+  'favourites.alertHeadsignPlaceholder': 'any, e.g. Jasień',
+  'favourites.alertPlace': 'Place',
+  'favourites.savePlaceFirst': 'Save a place first',
+  'favourites.alertRadius': 'Distance (m)',
+  'favourites.alertMinutes': 'Over (min)',
+  'favourites.addAlert': 'Add alert',
+  'favourites.describeDelay': 'Line {line} more than {minutes} min late',
+  'favourites.describeApproach': 'Line {line}{direction} within {radius} m of: {place}',
+  'favourites.removedPlace': '(removed place)',
+
+  'alerts.approachBody': 'Vehicle #{code} is {distance} m from: {place}.',
+  'alerts.delayTitle': 'Line {line} delayed',
+  'alerts.delayBody': 'Vehicle #{code} → {headsign}: {delay}.',
+
+  'follow.region': 'Followed vehicle',
+  'follow.subtitle': 'Following · vehicle #{code}',
+  'follow.close': 'Close and stop following',
+  'follow.dataFrom': 'Data from',
+  'follow.stop': 'Stop following',
+
+  'heatmap.delayGain': 'Delay growth',
+  'heatmap.slow': 'Average speed',
+  'heatmap.legend': '{title} · last {minutes} min',
+
+  'nearby.title': 'Nearby',
+  'nearby.radius': 'Radius',
+  'nearby.close': 'Close nearby vehicles',
+  'nearby.locating': 'Finding your location...',
+  'nearby.empty': 'No vehicles within {radius} m (with the current filters).',
+  'nearby.stopped': 'stopped',
+  'nearby.approaching': '↘ approaching',
+  'nearby.leaving': '↗ moving away',
+  'headways.title': 'Headways',
+  'headways.close': 'Close headways',
+  'headways.summary': 'Bunched: {bunched} · Gaps: {gaps}',
+  'headways.groups': {
+    one: '{count} line direction',
+    other: '{count} line directions',
+  },
+  'headways.help': 'Vehicles of the same line and headsign are ordered along the route. A headway below 1/4 of even spacing counts as bunched, one over twice as long as a gap.',
+  'headways.loadingShapes': 'Loading route shapes — until then the order of vehicles is estimated from their heading.',
+  'headways.showOnMap': 'Keep bunching and gaps on the map when the panel is closed',
+  'headways.empty': 'No bunched vehicles or gaps.',
+  'headways.bunched': 'Bunched',
+  'headways.gap': 'Gap',
+  'headways.headway': '{minutes} min (even: {expected} min)',
+  'headways.vehicles': '{follower} → {leader}',
+  'headways.straightLine': 'straight line',
+
+  'replay.live': 'Live',
+  'replay.playback': 'Replay',
+  'replay.followHint': 'Keep the vehicle in the centre of the map',
+  'replay.follow': 'Follow',
+  'replay.close': 'Close vehicle history',
+  'replay.collecting': 'Collecting history... The trail appears after the next refreshes.',
+  'replay.speed': 'Speed',
+  'replay.delay': 'Delay',
+  'replay.timeline': 'Trip timeline',
+  'replay.play': 'Play',
+  'replay.pause': 'Pause',
+  'replay.playbackRate': 'Playback speed',
+  'replay.backToLive': 'Live',
+
+  'search.label': 'Search',
+  'search.placeholder': 'fleet no., line, destination',
+  'search.empty': 'No vehicles',
+
+  'recording.title': 'Recording and playback',
+  'recording.start': 'Record',
+  'recording.stop': 'Stop recording',
+  'recording.snapshots': {
+    one: '{count} snapshot',
+    other: '{count} snapshots',
+  },
+  'recording.export': 'Export',
+  'recording.clear': 'Clear',
+  'recording.import': 'Load recording',
+  'recording.importFailed': 'The recording could not be loaded.',
+  'recording.playback': 'Recording playback',
+  'recording.playbackOf': 'Recording · {time}',
+  'recording.timeline': 'Recording timeline',
+  'recording.position': '{index} of {count}',
+
+  'list.title': 'Vehicle list',
+  'list.close': 'Close vehicle list',
+  'list.vehicles': {
+    one: '{count} vehicle',
+    other: '{count} vehicles',
+  },
+  'list.groupByLine': 'Group by line',
+  'list.line': 'Line',
+  'list.headsign': 'Destination',
+  'list.delay': 'Delay',
+  'list.speed': 'Speed',
+  'list.groupHeading': 'Line {line} · {vehicles}',
+  'list.empty': 'No vehicles match the filters.',
+  'list.keyboardHint': 'Up and down arrows move between vehicles, Enter shows the vehicle on the map.',
+  'list.announcement': 'Selected vehicle #{code}, {title}: {delay}.',
+};
+
+export default en;
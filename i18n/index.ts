@@ -0,0 +1,77 @@
+import { createContext, useContext } from 'react';
+import { Language } from '../types';
+import pl, { MessageKey, Messages } from './pl';
+import en from './en';
+
+export type { MessageKey } from './pl';
+
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+// Adding a language (German and Ukrainian are the next candidates): write a
+// dictionary typed as Messages, add its code to Language and list it here.
+export const LANGUAGES: { code: Language; label: string; locale: string }[] = [
+  { code: 'pl', label: 'Polski', locale: 'pl-PL' },
+  { code: 'en', label: 'English', locale: 'en-GB' },
+];
+
+const DICTIONARIES: Record<Language, Messages> = { pl, en };
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some(language => language.code === value);
+
+// First supported language of the browser, Polish otherwise.
+export const detectLanguage = (): Language => {
+  for (const tag of navigator.languages ?? [navigator.language]) {
+    const code = tag.split('-')[0].toLowerCase();
+    if (isLanguage(code)) return code;
+  }
+  return 'pl';
+};
+
+export interface I18n {
+  language: Language;
+  // BCP 47 tag for Intl and the <html lang> attribute
+  locale: string;
+  t: Translate;
+  // Wall-clock time of a timestamp in ms or an ISO string
+  formatTime: (time: number | string, withSeconds?: boolean) => string;
+  // Date and time of a feed timestamp; unparsable values are shown as they are
+  formatDateTime: (value: string) => string;
+}
+
+export const createI18n = (language: Language): I18n => {
+  const { locale } = LANGUAGES.find(l => l.code === language);
+  const messages = DICTIONARIES[language];
+  const pluralRules = new Intl.PluralRules(locale);
+  const numberFormat = new Intl.NumberFormat(locale);
+  const dateTimeFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'medium' });
+
+  const t: Translate = (key, params = {}) => {
+    const message = messages[key];
+    const template = typeof message === 'string'
+      ? message
+      : message[pluralRules.select(Number(params.count))] ?? message.other;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? numberFormat.format(value) : value;
+    });
+  };
+
+  const formatTime = (time: number | string, withSeconds = false) =>
+    new Date(time).toLocaleTimeString(locale, withSeconds
+      ? { hour: '2-digit', minute: '2-digit', second: '2-digit' }
+      : { hour: '2-digit', minute: '2-digit' });
+
+  const formatDateTime = (value: string) => {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? value : dateTimeFormat.format(time);
+  };
+
+  return { language, locale, t, formatTime, formatDateTime };
+};
+
+export const I18nContext = createContext<I18n>(createI18n('pl'));
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,332 @@
+import { Message } from '../types';
+
+// Source dictionary: every other language must translate all of its keys.
+// Placeholders in braces are filled from the parameters of t().
+const pl = {
+  'app.title': 'Gdańsk Transport na Żywo',
+  'app.lastUpdate': 'Ostatnia aktualizacja: {time}',
+  'app.staleSnapshot': 'Dane nieaktualne · stan z {time}',
+  'app.droppedRecords': 'Pominięto {count}',
+  'app.buses': 'Autobusy',
+  'app.trams': 'Tramwaje',
+  'app.loading': 'Ładowanie danych...',
+  'app.criticalError': 'Błąd Krytyczny',
+  'app.noDataTitle': 'Błąd Ładowania Danych',
+  'app.noData': 'Nie udało się załadować żadnych danych o pojazdach.',
+  'app.noDataHint': 'Sprawdź połączenie z internetem lub spróbuj ponownie później.',
+  'app.failedSources': 'Brak danych: {sources}',
+  'app.followEnded': 'Pojazd #{code} zniknął z danych na żywo — śledzenie zakończone.',
+
+  'errors.routeInfo': 'Nie można załadować kluczowych informacji o liniach. Odśwież stronę, aby spróbować ponownie.',
+  'errors.stops': 'Nie udało się pobrać listy przystanków.',
+  'errors.vehicles': 'Wystąpił problem podczas aktualizacji pozycji pojazdów.',
+  'errors.geolocationUnsupported': 'Ta przeglądarka nie udostępnia lokalizacji.',
+  'errors.geolocationDenied': 'Brak zgody na dostęp do lokalizacji. Możesz ją włączyć w ustawieniach przeglądarki.',
+  'errors.geolocationFailed': 'Nie udało się ustalić lokalizacji.',
+
+  'header.showStops': 'Pokaż przystanki',
+  'header.hideStops': 'Ukryj przystanki',
+  'header.stopsZoomIn': 'Przybliż mapę, aby zobaczyć przystanki',
+  'header.stopsZoomInAction': 'Przybliż',
+  'header.stops': 'Przystanki',
+  'header.nearby': 'Pojazdy w pobliżu',
+  'header.toggleTheme': 'Zmień motyw',
+  'header.settings': 'Dostosuj ikony',
+
+  'filters.line': 'Linia',
+  'filters.linePlaceholder': 'np. 2, 115, N1',
+  'filters.type': 'Typ',
+  'filters.all': 'Wszystkie',
+  'filters.status': 'Status',
+  'filters.onTime': 'Na czas',
+  'filters.delayed': 'Opóźnione',
+  'filters.heatmap': 'Mapa cieplna',
+  'filters.heatmapOff': 'Wył.',
+  'filters.heatmapDelayGain': 'Przyrost opóźnień',
+  'filters.heatmapSlow': 'Niska prędkość',
+  'filters.query': 'Zapytanie',
+  'filters.queryPlaceholder': 'np. line:1xx delay>5m',
+  'filters.queryHelp': 'Warunki oddzielone spacją muszą być spełnione jednocześnie, przecinek oznacza „lub”, a minus na początku zaprzecza warunkowi. Przykłady: line:1xx, line:100-199, N*, headsign~"Oliwa", delay>300, delay>5m, speed=0, type:tram, ahead, late, stopped, moving, -line:N*.',
+  'filters.queryInvalid': 'Nieznane warunki: {terms}',
+
+  'presets.label': 'Zapisane',
+  'presets.choose': 'Wybierz filtr',
+  'presets.none': 'Brak zapisanych',
+  'presets.save': 'Zapisz filtr',
+  'presets.name': 'Nazwa filtra',
+  'presets.namePlaceholder': 'np. Nocne opóźnione',
+  'presets.confirm': 'Zapisz',
+  'presets.cancel': 'Anuluj',
+  'presets.delete': 'Usuń zapisany filtr {name}',
+
+  'settings.language': 'Język',
+  'settings.dataSources': 'Źródła danych',
+  'settings.agencyColors': 'Kolory przewoźników',
+  'settings.agencyColor': 'Kolor pojazdów przewoźnika {agency}',
+  'settings.resetAgencyColor': 'Przywróć domyślny kolor przewoźnika {agency}',
+  'theme.preset': 'Motyw znaczników',
+  'theme.presetCustom': 'Własny',
+  'theme.presetClassic': 'Klasyczny',
+  'theme.presetPunctuality': 'Punktualność',
+  'theme.presetLines': 'Linie',
+  'theme.presetSpeed': 'Prędkość',
+  'theme.presetDepot': 'Zajezdnia',
+  'theme.colorBy': 'Kolor według',
+  'theme.ruleType': 'Typu pojazdu',
+  'theme.ruleDelay': 'Opóźnienia',
+  'theme.ruleLine': 'Linii',
+  'theme.ruleSpeed': 'Prędkości',
+  'theme.ruleAgency': 'Przewoźnika',
+  'theme.lineHint': 'Oficjalne kolory linii z GTFS, pozostałe linie z palety.',
+  'theme.noAgencies': 'Brak przewoźników w danych.',
+  'theme.labels': 'Etykiety',
+  'theme.labelLine': 'Linia',
+  'theme.labelHeadsign': 'Kierunek',
+  'theme.labelFleetNumber': 'Nr taborowy',
+  'theme.labelDelay': 'Opóźnienie',
+  'theme.export': 'Eksport motywu',
+  'theme.import': 'Import motywu',
+  'theme.importFailed': 'To nie jest plik motywu znaczników.',
+  'theme.more': '+{count}',
+  'settings.busColor': 'Kolor Autobusu',
+  'settings.busIcon': 'Ikona Autobusu',
+  'settings.tramColor': 'Kolor Tramwaju',
+  'settings.tramIcon': 'Ikona Tramwaju',
+  'settings.iconDot': 'Kropka',
+  'settings.iconVehicle': 'Pojazd',
+  'settings.iconPin': 'Pinezka',
+  'settings.history': 'Historia przejazdu',
+  'settings.renderMode': 'Rysowanie pojazdów',
+  'settings.renderAuto': 'Automatyczne',
+  'settings.renderMarkers': 'Znaczniki',
+  'settings.renderFast': 'Wydajne (grupowanie)',
+
+  'units.minutes': '{count} min',
+
+  'delay.late': {
+    one: '{count} minuta opóźnienia',
+    few: '{count} minuty opóźnienia',
+    many: '{count} minut opóźnienia',
+    other: '{count} minuty opóźnienia',
+  },
+  'delay.early': {
+    one: '{count} minutę przed czasem',
+    few: '{count} minuty przed czasem',
+    many: '{count} minut przed czasem',
+    other: '{count} minuty przed czasem',
+  },
+  'delay.onTime': 'punktualnie',
+  'delay.shortLate': '+{count} min',
+  'delay.shortEarly': '−{count} min',
+  'delay.shortOnTime': '0 min',
+
+  'vehicle.busLine': 'Autobus Linii: {line}',
+  'vehicle.tramLine': 'Tramwaj Linii: {line}',
+  'vehicle.lineTowards': 'Linia {line} → {headsign}',
+  'vehicle.headsign': 'Kierunek',
+  'vehicle.code': 'Pojazd',
+  'vehicle.agency': 'Przewoźnik',
+  'vehicle.speed': 'Prędkość',
+  'vehicle.status': 'Status',
+  'vehicle.frozenPosition': 'Pozycja nie zmienia się od dłuższego czasu – możliwa awaria GPS.',
+  'vehicle.clusterTitle': 'Autobusy: {buses}, Tramwaje: {trams}',
+
+  'connection.live': 'Na żywo',
+  'connection.degraded': 'Problemy z połączeniem',
+  'connection.stale': 'Dane nieaktualne',
+  'connection.offline': 'Offline',
+  'connection.dataAge': 'dane sprzed {age}',
+  'connection.cached': 'zapisany stan',
+  'connection.failures': 'nieudane próby: {count}',
+  'connection.ageSeconds': '{count} s',
+  'connection.ageMinutes': '{count} min',
+  'connection.ageHours': '{hours} h {minutes} min',
+
+  'dashboard.title': 'Analiza opóźnień',
+  'dashboard.since': 'Od {time}',
+  'dashboard.polls': {
+    one: '{count} odczyt',
+    few: '{count} odczyty',
+    many: '{count} odczytów',
+    other: '{count} odczytu',
+  },
+  'dashboard.samples': {
+    one: '{count} próbka',
+    few: '{count} próbki',
+    many: '{count} próbek',
+    other: '{count} próbki',
+  },
+  'dashboard.close': 'Zamknij analizę opóźnień',
+  'dashboard.punctualityNow': 'Punktualność teraz',
+  'dashboard.punctualityTotal': 'Punktualność łącznie',
+  'dashboard.meanDelay': 'Średnie opóźnienie',
+  'dashboard.punctualityOverTime': 'Punktualność sieci w czasie',
+  'dashboard.notEnoughData': 'Za mało danych — wykres pojawi się po kilku odświeżeniach.',
+  'dashboard.distribution': 'Rozkład opóźnień',
+  'dashboard.byType': 'Według typu pojazdu',
+  'dashboard.type': 'Typ',
+  'dashboard.line': 'Linia',
+  'dashboard.samplesColumn': 'Próbki',
+  'dashboard.meanDelayColumn': 'Śr. opóźnienie',
+  'dashboard.punctuality': 'Punktualność',
+  'dashboard.worstLines': 'Najbardziej opóźnione linie',
+  'dashboard.notEnoughSamples': 'Brak wystarczającej liczby próbek.',
+  'dashboard.maxDelay': 'max {delay}',
+  'dashboard.allLines': 'Wszystkie linie ({count})',
+  'dashboard.exportCsv': 'Eksport CSV',
+  'dashboard.exportJson': 'Eksport JSON',
+  'dashboard.reset': 'Wyzeruj',
+
+  'departures.upcoming': 'Najbliższe odjazdy',
+  'departures.addFavourite': 'Dodaj przystanek do ulubionych',
+  'departures.removeFavourite': 'Usuń przystanek z ulubionych',
+  'departures.close': 'Zamknij tablicę odjazdów',
+  'departures.loading': 'Ładowanie odjazdów...',
+  'departures.error': 'Nie udało się pobrać odjazdów.',
+  'departures.empty': 'Brak odjazdów w najbliższym czasie.',
+  'departures.estimatedTime': 'Czas szacowany na podstawie GPS',
+  'departures.scheduledTime': 'Czas rozkładowy',
+  'departures.live': 'na żywo',
+  'departures.now': 'teraz',
+  'departures.inMinutes': 'za {count} min',
+  'departures.scheduled': 'rozkład',
+
+  'favourites.title': 'Ulubione i powiadomienia',
+  'favourites.close': 'Zamknij ulubione',
+  'favourites.lines': 'Ulubione linie',
+  'favourites.noLines': 'Brak ulubionych linii.',
+  'favourites.showLine': 'Pokaż linię {line}',
+  'favourites.removeLine': 'Usuń linię {line} z ulubionych',
+  'favourites.showAll': 'Pokaż wszystkie',
+  'favourites.linePlaceholder': 'np. 115',
+  'favourites.lineNumber': 'Numer linii',
+  'favourites.addLine': 'Dodaj linię',
+  'favourites.places': 'Miejsca',
+  'favourites.noPlaces': 'Zapisz środek mapy jako miejsce (np. dom) albo przystanek przyciskiem gwiazdki na tablicy odjazdów.',
+  'favourites.stop': 'przystanek',
+  'favourites.removePlace': 'Usuń miejsce {name}',
+  'favourites.placePlaceholder': 'Nazwa, np. Dom',
+  'favourites.placeName': 'Nazwa miejsca',
+  'favourites.saveMapCenter': 'Zapisz środek mapy',
+  'favourites.notifications': 'Powiadomienia',
+  'favourites.notificationsUnsupported': 'Ta przeglądarka nie obsługuje powiadomień — alerty pojawią się tylko na mapie.',
+  'favourites.notificationsDenied': 'Powiadomienia są zablokowane w ustawieniach przeglądarki — alerty pojawią się tylko na mapie.',
+  'favourites.allowNotifications': 'Zezwól na powiadomienia',
+  'favourites.removeAlert': 'Usuń alert',
+  'favourites.alertKind': 'Rodzaj',
+  'favourites.alertApproach': 'Pojazd w pobliżu miejsca',
+  'favourites.alertDelay': 'Opóźnienie linii',
+  'favourites.alertLine': 'Linia',
+  'favourites.alertAgency': 'Przewoźnik',
+  'favourites.anyAgency': 'dowolny',
+  'favourites.alertHeadsign': 'Kierunek',
+  'favourites.alertHeadsignPlaceholder': 'dowolny, np. Jasień',
+  'favourites.alertPlace': 'Miejsce',
+  'favourites.savePlaceFirst': 'Najpierw zapisz miejsce',
+  'favourites.alertRadius': 'Odległość (m)',
+  'favourites.alertMinutes': 'Ponad (min)',
+  'favourites.addAlert': 'Dodaj alert',
+  'favourites.describeDelay': 'Linia {line} opóźniona o ponad {minutes} min',
+  'favourites.describeApproach': 'Linia {line}{direction} w promieniu {radius} m od: {place}',
+  'favourites.removedPlace': '(usunięte miejsce)',
+
+  'alerts.approachBody': 'Pojazd #{code} jest {distance} m od: {place}.',
+  'alerts.delayTitle': 'Linia {line} opóźniona',
+  'alerts.delayBody': 'Pojazd #{code} → {headsign}: {delay}.',
+
+  'follow.region': 'Śledzony pojazd',
+  'follow.subtitle': 'Śledzenie · pojazd #{code}',
+  'follow.close': 'Zamknij i przestań śledzić',
+  'follow.dataFrom': 'Dane z',
+  'follow.stop': 'Przestań śledzić',
+
+  'heatmap.delayGain': 'Przyrost opóźnienia',
+  'heatmap.slow': 'Średnia prędkość',
+  'heatmap.legend': '{title} · ostatnie {minutes} min',
+
+  'nearby.title': 'W pobliżu',
+  'nearby.radius': 'Promień',
+  'nearby.close': 'Zamknij pojazdy w pobliżu',
+  'nearby.locating': 'Ustalanie lokalizacji...',
+  'nearby.empty': 'Brak pojazdów w promieniu {radius} m (z uwzględnieniem filtrów).',
+  'nearby.stopped': 'stoi',
+  'nearby.approaching': '↘ zbliża się',
+  'nearby.leaving': '↗ oddala się',
+  'headways.title': 'Odstępy między pojazdami',
+  'headways.close': 'Zamknij odstępy między pojazdami',
+  'headways.summary': 'Zbitki: {bunched} · Luki: {gaps}',
+  'headways.groups': {
+    one: '{count} kierunek linii',
+    few: '{count} kierunki linii',
+    many: '{count} kierunków linii',
+    other: '{count} kierunku linii',
+  },
+  'headways.help': 'Pojazdy tej samej linii i kierunku są porządkowane wzdłuż trasy. Zbitka to odstęp poniżej 1/4 równego odstępu, luka — ponad dwukrotnie większy.',
+  'headways.loadingShapes': 'Wczytywanie przebiegów tras — do tego czasu kolejność pojazdów jest szacowana z kierunku jazdy.',
+  'headways.showOnMap': 'Pokazuj zbitki i luki na mapie także po zamknięciu panelu',
+  'headways.empty': 'Brak zbitek i luk.',
+  'headways.bunched': 'Zbitka',
+  'headways.gap': 'Luka',
+  'headways.headway': '{minutes} min (równo: {expected} min)',
+  'headways.vehicles': '{follower} → {leader}',
+  'headways.straightLine': 'w linii prostej',
+
+  'replay.live': 'Na żywo',
+  'replay.playback': 'Odtwarzanie',
+  'replay.followHint': 'Utrzymuj pojazd na środku mapy',
+  'replay.follow': 'Śledź',
+  'replay.close': 'Zamknij historię pojazdu',
+  'replay.collecting': 'Zbieranie historii... Ślad pojawi się po kolejnych odświeżeniach.',
+  'replay.speed': 'Prędkość',
+  'replay.delay': 'Opóźnienie',
+  'replay.timeline': 'Oś czasu przejazdu',
+  'replay.play': 'Odtwórz',
+  'replay.pause': 'Pauza',
+  'replay.playbackRate': 'Prędkość odtwarzania',
+  'replay.backToLive': 'Na żywo',
+
+  'search.label': 'Szukaj',
+  'search.placeholder': 'nr boczny, linia, kierunek',
+  'search.empty': 'Brak pojazdów',
+
+  'recording.title': 'Nagrywanie i odtwarzanie',
+  'recording.start': 'Nagrywaj',
+  'recording.stop': 'Zatrzymaj nagrywanie',
+  'recording.snapshots': {
+    one: '{count} migawka',
+    few: '{count} migawki',
+    many: '{count} migawek',
+    other: '{count} migawki',
+  },
+  'recording.export': 'Eksport',
+  'recording.clear': 'Wyczyść',
+  'recording.import': 'Wczytaj nagranie',
+  'recording.importFailed': 'Nie udało się wczytać nagrania.',
+  'recording.playback': 'Odtwarzanie nagrania',
+  'recording.playbackOf': 'Nagranie · {time}',
+  'recording.timeline': 'Oś czasu nagrania',
+  'recording.position': '{index} z {count}',
+
+  'list.title': 'Lista pojazdów',
+  'list.close': 'Zamknij listę pojazdów',
+  'list.vehicles': {
+    one: '{count} pojazd',
+    few: '{count} pojazdy',
+    many: '{count} pojazdów',
+    other: '{count} pojazdu',
+  },
+  'list.groupByLine': 'Grupuj według linii',
+  'list.line': 'Linia',
+  'list.headsign': 'Kierunek',
+  'list.delay': 'Opóźnienie',
+  'list.speed': 'Prędkość',
+  'list.groupHeading': 'Linia {line} · {vehicles}',
+  'list.empty': 'Brak pojazdów spełniających filtry.',
+  'list.keyboardHint': 'Strzałki w górę i w dół przechodzą między pojazdami, Enter pokazuje pojazd na mapie.',
+  'list.announcement': 'Wybrany pojazd #{code}, {title}: {delay}.',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof pl;
+export type Messages = Record<MessageKey, Message>;
+
+export default pl;
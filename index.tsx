@@ -9,6 +9,13 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
+// Registered in production builds only; in development it would serve stale modules.
+if (process.env.SERVICE_WORKER && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => console.error('Service worker registration failed', error));
+  });
+}
+
 root.render(
   <React.StrictMode>
     <App />
@@ -0,0 +1,105 @@
+// Service worker: keeps the app shell and the map tiles of the Gdańsk area
+// available offline. Vehicle and route data are not cached here; the app
+// keeps its last snapshot in IndexedDB and marks it as stale.
+
+const SHELL_CACHE = 'shell-v1';
+const TILE_CACHE = 'tiles-v1';
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+// Third-party scripts and styles loaded by index.html
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'unpkg.com', 'aistudiocdn.com'];
+const TILE_HOST_PATTERN = /(^|\.)(tile\.openstreetmap\.org|basemaps\.cartocdn\.com)$/;
+const TILE_PATH_PATTERN = /\/(\d+)\/(\d+)\/(\d+)(?:@2x)?\.png$/;
+// Tiles outside this box (Tricity and surroundings) are not kept
+const AREA = { south: 54.25, west: 18.35, north: 54.50, east: 18.95 };
+const MAX_TILES = 3000;
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== SHELL_CACHE && key !== TILE_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+const tileToLon = (x, z) => (x / 2 ** z) * 360 - 180;
+const tileToLat = (y, z) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / 2 ** z))) * 180) / Math.PI;
+
+const isAreaTile = url => {
+  const match = TILE_PATH_PATTERN.exec(url.pathname);
+  if (!match) return false;
+  const [z, x, y] = match.slice(1).map(Number);
+  // y grows southwards: the tile spans from tileToLat(y + 1) up to tileToLat(y)
+  return tileToLon(x + 1, z) >= AREA.west && tileToLon(x, z) <= AREA.east &&
+    tileToLat(y, z) >= AREA.south && tileToLat(y + 1, z) <= AREA.north;
+};
+
+// Oldest entries go first; Cache.keys() keeps insertion order.
+const trimCache = async (name, maxEntries) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+    trimCache(cacheName, MAX_TILES);
+  }
+  return response;
+};
+
+// Answers from the cache right away and refreshes the entry in the background.
+const staleWhileRevalidate = async (event, cacheName) => {
+  const cached = await caches.match(event.request);
+  const refresh = fetch(event.request).then(async response => {
+    if (response.ok || response.type === 'opaque') {
+      const cache = await caches.open(cacheName);
+      await cache.put(event.request, response.clone());
+    }
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
+
+// Pages always try the network first, so a new build is picked up online.
+const networkFirstPage = async request => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith('/api/')) return;
+    event.respondWith(request.mode === 'navigate' ? networkFirstPage(request) : staleWhileRevalidate(event, SHELL_CACHE));
+  } else if (TILE_HOST_PATTERN.test(url.hostname)) {
+    if (isAreaTile(url)) event.respondWith(cacheFirst(request, TILE_CACHE));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event, SHELL_CACHE));
+  }
+});
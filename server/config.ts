@@ -0,0 +1,154 @@
+// Server configuration. Every value can be overridden with an environment
+// variable so the same build can run against the real ZTM Gdańsk endpoints
+// or against the local mock upstream (see mockUpstream.ts).
+
+const CKAN_DATASET = 'https://ckan.multimediagdansk.pl/dataset/c24aa637-3619-4dc2-a171-a23eec8f2172/resource';
+
+export const PORT = Number(process.env.PORT) || 8787;
+export const MOCK_UPSTREAM_PORT = Number(process.env.MOCK_UPSTREAM_PORT) || 8788;
+
+// When set, all upstream URLs are resolved against this base instead of the
+// public open-data portal, e.g. UPSTREAM_BASE_URL=http://localhost:8788
+const UPSTREAM_BASE_URL = process.env.UPSTREAM_BASE_URL;
+
+export interface UpstreamConfig {
+  // Path exposed by this server, e.g. /api/vehicles
+  path: string;
+  // Absolute upstream URL
+  url: string;
+  // How long (ms) a snapshot is served from memory before refetching
+  ttl: number;
+  // Value of the Cache-Control max-age directive sent to the browser (s)
+  maxAge: number;
+  // Content-Type sent to the browser; defaults to the one reported upstream
+  contentType?: string;
+  // Query parameters forwarded to the upstream, each checked against a pattern
+  params?: Record<string, RegExp>;
+  // Checks that an upstream body is usable before it replaces the cached snapshot
+  validate?: (body: Buffer) => void;
+}
+
+const resolveUpstream = (envName: string, defaultUrl: string, mockPath: string): string => {
+  const override = process.env[envName];
+  if (override) return override;
+  if (UPSTREAM_BASE_URL) return new URL(mockPath, UPSTREAM_BASE_URL).toString();
+  return defaultUrl;
+};
+
+// Feeds of the other cities have no public default; they are only served when
+// configured (or when the mock upstream stands in for everything).
+const resolveOptionalUpstream = (envName: string, mockPath: string): string | null => {
+  const override = process.env[envName];
+  if (override) return override;
+  if (UPSTREAM_BASE_URL) return new URL(mockPath, UPSTREAM_BASE_URL).toString();
+  return null;
+};
+
+const JSON_CONTENT_TYPE = 'application/json; charset=utf-8';
+
+const validateJson = (body: Buffer) => {
+  JSON.parse(body.toString('utf8'));
+};
+
+const validateZip = (body: Buffer) => {
+  // Every zip archive starts with the local file header signature "PK\x03\x04".
+  if (body.length < 4 || body.readUInt32LE(0) !== 0x04034b50) {
+    throw new Error('GTFS payload is not a zip archive');
+  }
+};
+
+// A GTFS-Realtime VehiclePositions feed and its static GTFS, exposed under
+// `${basePath}/vehicles` and `${basePath}/gtfs` (see services/dataSources.ts).
+const gtfsRealtimeUpstreams = (
+  basePath: string,
+  env: { vehicles: string; gtfs: string },
+  mockPaths: { vehicles: string; gtfs: string },
+): UpstreamConfig[] => {
+  const vehiclesUrl = resolveOptionalUpstream(env.vehicles, mockPaths.vehicles);
+  const gtfsUrl = resolveOptionalUpstream(env.gtfs, mockPaths.gtfs);
+  if (!vehiclesUrl || !gtfsUrl) return [];
+  return [
+    {
+      path: `${basePath}/vehicles`,
+      url: vehiclesUrl,
+      ttl: 4_000,
+      maxAge: 5,
+      contentType: 'application/x-protobuf',
+      validate: body => {
+        if (body.length === 0) throw new Error('Empty GTFS-Realtime payload');
+      },
+    },
+    {
+      path: `${basePath}/gtfs`,
+      url: gtfsUrl,
+      ttl: 6 * 60 * 60_000,
+      maxAge: 60 * 60,
+      contentType: 'application/zip',
+      validate: validateZip,
+    },
+  ];
+};
+
+export const UPSTREAMS: UpstreamConfig[] = [
+  {
+    path: '/api/vehicles',
+    url: resolveUpstream('UPSTREAM_VEHICLES_URL', 'https://ckan2.multimediagdansk.pl/gpsPositions?v=2', '/gpsPositions?v=2'),
+    ttl: 4_000,
+    maxAge: 5,
+    contentType: JSON_CONTENT_TYPE,
+    validate: body => {
+      const data = JSON.parse(body.toString('utf8'));
+      if (!data || !Array.isArray(data.vehicles)) {
+        throw new Error('Missing "vehicles" array in gpsPositions payload');
+      }
+    },
+  },
+  {
+    path: '/api/routes',
+    url: resolveUpstream('UPSTREAM_ROUTES_URL', `${CKAN_DATASET}/22313c56-5acf-41c7-a5fd-dc5dc72b3851/download/routes.json`, '/routes.json'),
+    ttl: 60 * 60_000,
+    maxAge: 60 * 60,
+    contentType: JSON_CONTENT_TYPE,
+    validate: validateJson,
+  },
+  {
+    path: '/api/stops',
+    url: resolveUpstream('UPSTREAM_STOPS_URL', `${CKAN_DATASET}/4c4025f0-01bf-41f7-a39f-d156d201b82b/download/stops.json`, '/stops.json'),
+    ttl: 60 * 60_000,
+    maxAge: 60 * 60,
+    contentType: JSON_CONTENT_TYPE,
+    validate: validateJson,
+  },
+  {
+    path: '/api/departures',
+    url: resolveUpstream('UPSTREAM_DEPARTURES_URL', 'https://ckan2.multimediagdansk.pl/departures', '/departures'),
+    ttl: 10_000,
+    maxAge: 10,
+    contentType: JSON_CONTENT_TYPE,
+    params: { stopId: /^\d{1,6}$/ },
+    validate: validateJson,
+  },
+  {
+    path: '/api/gtfs',
+    url: resolveUpstream('UPSTREAM_GTFS_URL', `${CKAN_DATASET}/30e783e4-2bec-4a7d-bb22-ee3e3b26ca96/download/gtfsgoogle.zip`, '/gtfs.zip'),
+    ttl: 6 * 60 * 60_000,
+    maxAge: 60 * 60,
+    contentType: 'application/zip',
+    validate: validateZip,
+  },
+  ...gtfsRealtimeUpstreams(
+    '/api/gdynia',
+    { vehicles: 'UPSTREAM_GDYNIA_VEHICLES_URL', gtfs: 'UPSTREAM_GDYNIA_GTFS_URL' },
+    { vehicles: '/gdynia/vehiclePositions.pb', gtfs: '/gdynia/gtfs.zip' },
+  ),
+  ...gtfsRealtimeUpstreams(
+    '/api/gtfs-rt',
+    { vehicles: 'UPSTREAM_GTFSRT_VEHICLES_URL', gtfs: 'UPSTREAM_GTFSRT_GTFS_URL' },
+    // The mock serves its Gdynia feed here too
+    { vehicles: '/gdynia/vehiclePositions.pb', gtfs: '/gdynia/gtfs.zip' },
+  ),
+];
+
+// Directory with the built frontend (npm run build). Served as static files so
+// the app and its API share one origin in production.
+export const STATIC_DIR = process.env.STATIC_DIR || 'dist';
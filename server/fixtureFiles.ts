@@ -0,0 +1,19 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { zipSync } from 'fflate';
+
+// Access to the recorded upstream data in ./fixtures, shared by the mock
+// upstream and the tests.
+
+export const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+export const readFixture = (name: string): Buffer => fs.readFileSync(path.join(FIXTURES_DIR, name));
+
+// The GTFS fixtures are kept unpacked (fixtures/gtfs, fixtures/gdynia/gtfs) so
+// they stay reviewable; they are zipped on the fly like the real feeds.
+export const buildGtfsArchive = (fixtureDir: string): Buffer => {
+  const dir = path.join(FIXTURES_DIR, fixtureDir);
+  const files = Object.fromEntries(fs.readdirSync(dir).map(name => [name, new Uint8Array(fs.readFileSync(path.join(dir, name)))]));
+  return Buffer.from(zipSync(files));
+};
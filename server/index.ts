@@ -0,0 +1,130 @@
+import http from 'node:http';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { PORT, STATIC_DIR, UPSTREAMS } from './config';
+import { InvalidParamsError, UpstreamCache } from './upstream';
+
+// Small same-origin backend for the map. It fetches the open-data endpoints
+// server-side (no third-party CORS proxy), keeps the last good snapshot of each
+// one and serves the built frontend from STATIC_DIR.
+
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '*';
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.webmanifest': 'application/manifest+json',
+};
+
+const caches = new Map(UPSTREAMS.map(config => [config.path, { config, cache: new UpstreamCache(config) }]));
+
+const setCorsHeaders = (res: http.ServerResponse) => {
+  res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
+  res.setHeader('Access-Control-Expose-Headers', 'X-Cache, Age, Last-Modified');
+  res.setHeader('Vary', 'Origin');
+};
+
+const sendJsonError = (res: http.ServerResponse, status: number, message: string) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store',
+  });
+  res.end(JSON.stringify({ error: message }));
+};
+
+const handleApi = async (url: URL, req: http.IncomingMessage, res: http.ServerResponse) => {
+  const { pathname } = url;
+  const entry = caches.get(pathname);
+  if (!entry) {
+    sendJsonError(res, 404, `Unknown endpoint ${pathname}`);
+    return;
+  }
+
+  try {
+    const { snapshot, status } = await entry.cache.get(url.searchParams);
+    const ageSeconds = Math.floor((Date.now() - snapshot.fetchedAt) / 1000);
+    res.writeHead(200, {
+      'Content-Type': snapshot.contentType,
+      'Content-Length': snapshot.body.length,
+      // A stale snapshot must not be cached by the browser, so the next poll
+      // reaches the server again and picks up the upstream once it recovers.
+      'Cache-Control': status === 'STALE' ? 'no-cache' : `public, max-age=${entry.config.maxAge}`,
+      'Last-Modified': new Date(snapshot.fetchedAt).toUTCString(),
+      'Age': String(ageSeconds),
+      'X-Cache': status,
+    });
+    res.end(req.method === 'HEAD' ? undefined : snapshot.body);
+  } catch (error) {
+    if (error instanceof InvalidParamsError) {
+      sendJsonError(res, 400, error.message);
+      return;
+    }
+    console.error(`Upstream request for ${pathname} failed:`, error);
+    sendJsonError(res, 502, 'Upstream unavailable and no cached snapshot exists yet.');
+  }
+};
+
+const handleStatic = async (pathname: string, res: http.ServerResponse) => {
+  const root = path.resolve(STATIC_DIR);
+  let filePath: string;
+  try {
+    filePath = path.resolve(root, `.${decodeURIComponent(pathname)}`);
+  } catch {
+    res.writeHead(400).end();
+    return;
+  }
+  if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+    res.writeHead(403).end();
+    return;
+  }
+
+  try {
+    const stat = await fs.stat(filePath);
+    if (stat.isDirectory()) filePath = path.join(filePath, 'index.html');
+    const body = await fs.readFile(filePath);
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+    res.end(body);
+  } catch {
+    try {
+      // Unknown paths fall back to the app shell.
+      const body = await fs.readFile(path.join(root, 'index.html'));
+      res.writeHead(200, { 'Content-Type': MIME_TYPES['.html'] });
+      res.end(body);
+    } catch {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Not found. Run `npm run build` first.');
+    }
+  }
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  setCorsHeaders(res);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { 'Access-Control-Max-Age': '86400' }).end();
+    return;
+  }
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    sendJsonError(res, 405, `Method ${req.method} not allowed`);
+    return;
+  }
+
+  if (url.pathname.startsWith('/api/')) {
+    await handleApi(url, req, res);
+  } else {
+    await handleStatic(url.pathname, res);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Transport API server listening on http://localhost:${PORT}`);
+  for (const { path: apiPath, url } of UPSTREAMS) {
+    console.log(`  ${apiPath} -> ${url}`);
+  }
+});
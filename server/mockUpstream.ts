@@ -0,0 +1,144 @@
+import http from 'node:http';
+import { MOCK_UPSTREAM_PORT } from './config';
+import { buildGtfsArchive, readFixture } from './fixtureFiles';
+import { deadReckon } from '../utils/motion';
+import { GtfsRealtimeFeed, encodeVehiclePositions } from '../services/gtfsRealtime';
+import { ApiResponse, Route, RoutesApiResponse } from '../types';
+
+// Offline stand-in for the ZTM Gdańsk open-data endpoints and a ZKM Gdynia
+// GTFS-Realtime feed. Serves the fixtures
+// in ./fixtures and moves the vehicles along their bearing on every request,
+// so the map shows live-looking data without network access.
+//
+//   npm run mock-upstream
+//   UPSTREAM_BASE_URL=http://localhost:8788 npm run server
+//
+// MOCK_FAILURE_RATE (0..1) makes a share of requests fail with HTTP 503 to
+// exercise the server's stale-snapshot fallback.
+
+const FAILURE_RATE = Number(process.env.MOCK_FAILURE_RATE) || 0;
+
+const gpsFixture: ApiResponse = JSON.parse(readFixture('gpsPositions.json').toString('utf8'));
+const routesFixture: RoutesApiResponse = JSON.parse(readFixture('routes.json').toString('utf8'));
+const fixtureRoutes: Route[] = Object.values(routesFixture)[0].routes;
+const gdyniaFixture: GtfsRealtimeFeed = JSON.parse(readFixture('gdynia/vehiclePositions.json').toString('utf8'));
+const startedAt = Date.now();
+
+// Seconds driven since the start of the cycle and whether vehicles are on the
+// way back. Vehicles drive back and forth over a 3-minute cycle so they never
+// leave the city.
+const cyclePosition = () => {
+  const elapsedSeconds = ((Date.now() - startedAt) / 1000) % 360;
+  return { t: elapsedSeconds < 180 ? elapsedSeconds : 360 - elapsedSeconds, isReturning: elapsedSeconds >= 180 };
+};
+
+// Dead-reckons every fixture vehicle from its starting point.
+const buildGpsPositions = () => {
+  const { t, isReturning } = cyclePosition();
+  const now = new Date().toISOString();
+
+  return {
+    lastUpdate: now,
+    vehicles: gpsFixture.vehicles.map(v => {
+      const [lat, lon] = deadReckon(v.lat, v.lon, v.speed, v.bearing, t * 1000);
+      return {
+        ...v,
+        generated: now,
+        lat: Number(lat.toFixed(6)),
+        lon: Number(lon.toFixed(6)),
+        bearing: isReturning ? (v.bearing + 180) % 360 : v.bearing,
+      };
+    }),
+  };
+};
+
+// The Gdynia fixture moved the same way, encoded as a GTFS-Realtime
+// FeedMessage. Speeds in the feed are in m/s.
+const buildGdyniaVehiclePositions = (): Buffer => {
+  const { t, isReturning } = cyclePosition();
+  const now = Math.floor(Date.now() / 1000);
+
+  return Buffer.from(encodeVehiclePositions({
+    timestamp: now,
+    vehicles: gdyniaFixture.vehicles.map(v => {
+      const [latitude, longitude] = deadReckon(v.latitude, v.longitude, (v.speed ?? 0) * 3.6, v.bearing ?? 0, t * 1000);
+      return {
+        ...v,
+        latitude,
+        longitude,
+        bearing: isReturning ? ((v.bearing ?? 0) + 180) % 360 : v.bearing,
+        timestamp: now,
+      };
+    }),
+  }));
+};
+
+// Builds a plausible departure board for any stop: a few lines picked from the
+// routes fixture by stopId, every 4 minutes, with the nearest ones tracked live.
+const buildDepartures = (stopId: number) => {
+  const now = Date.now();
+  const lines = [0, 1, 2].map(i => fixtureRoutes[(stopId + i * 5) % fixtureRoutes.length]);
+  const firstSlot = Math.ceil(now / 240_000) * 240_000;
+
+  const departures = Array.from({ length: 10 }, (_, i) => {
+    const route = lines[i % lines.length];
+    const theoretical = firstSlot + i * 240_000;
+    const isRealtime = i < 6;
+    const delayInSeconds = isRealtime ? ((stopId * 37 + i * 53) % 420) - 90 : null;
+    const [from, to] = route.routeLongName.split(' - ');
+    return {
+      id: `T${route.routeId}R${stopId}-${i}`,
+      delayInSeconds,
+      estimatedTime: new Date(theoretical + (delayInSeconds ?? 0) * 1000).toISOString(),
+      headsign: i % 2 === 0 ? to : from,
+      routeId: route.routeId,
+      routeShortName: route.routeShortName,
+      scheduledTripStartTime: new Date(theoretical - 20 * 60_000).toISOString(),
+      tripId: i + 1,
+      status: isRealtime ? 'REALTIME' : 'SCHEDULED',
+      theoreticalTime: new Date(theoretical).toISOString(),
+      timestamp: new Date(now).toISOString(),
+      trip: 1000 + i,
+      vehicleCode: isRealtime ? 2000 + ((stopId + i) % 900) : null,
+      vehicleId: isRealtime ? 2000 + ((stopId + i) % 900) : null,
+      vehicleService: `${route.routeShortName}-0${(i % 9) + 1}`,
+    };
+  });
+
+  return { lastUpdate: new Date(now).toISOString(), departures };
+};
+
+const routes: Record<string, (url: URL) => { body: Buffer | string; contentType: string }> = {
+  '/gpsPositions': () => ({ body: JSON.stringify(buildGpsPositions()), contentType: 'application/json; charset=utf-8' }),
+  '/routes.json': () => ({ body: readFixture('routes.json'), contentType: 'application/json; charset=utf-8' }),
+  '/stops.json': () => ({ body: readFixture('stops.json'), contentType: 'application/json; charset=utf-8' }),
+  '/departures': url => ({
+    body: JSON.stringify(buildDepartures(Number(url.searchParams.get('stopId')) || 0)),
+    contentType: 'application/json; charset=utf-8',
+  }),
+  '/gtfs.zip': () => ({ body: buildGtfsArchive('gtfs'), contentType: 'application/zip' }),
+  '/gdynia/vehiclePositions.pb': () => ({ body: buildGdyniaVehiclePositions(), contentType: 'application/x-protobuf' }),
+  '/gdynia/gtfs.zip': () => ({ body: buildGtfsArchive('gdynia/gtfs'), contentType: 'application/zip' }),
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const handler = routes[url.pathname];
+
+  if (!handler) {
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Not found');
+    return;
+  }
+  if (Math.random() < FAILURE_RATE) {
+    res.writeHead(503, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Simulated upstream failure');
+    return;
+  }
+
+  const { body, contentType } = handler(url);
+  res.writeHead(200, { 'Content-Type': contentType });
+  res.end(body);
+});
+
+server.listen(MOCK_UPSTREAM_PORT, () => {
+  console.log(`Mock upstream listening on http://localhost:${MOCK_UPSTREAM_PORT}`);
+});
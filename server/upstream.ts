@@ -0,0 +1,99 @@
+import { UpstreamConfig } from './config';
+
+export interface Snapshot {
+  body: Buffer;
+  contentType: string;
+  fetchedAt: number;
+}
+
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE';
+
+export interface SnapshotResult {
+  snapshot: Snapshot;
+  status: CacheStatus;
+}
+
+export class InvalidParamsError extends Error {}
+
+const UPSTREAM_TIMEOUT = 10_000; // 10 seconds
+const MAX_SNAPSHOTS_PER_ENDPOINT = 500;
+
+// Keeps the last good response of a single upstream endpoint in memory, one
+// snapshot per combination of forwarded query parameters (e.g. per stopId).
+// Concurrent requests for an expired snapshot share one upstream fetch, and
+// when the upstream fails the previous snapshot is served as STALE.
+export class UpstreamCache {
+  private snapshots = new Map<string, Snapshot>();
+  private inFlight = new Map<string, Promise<Snapshot>>();
+
+  constructor(private readonly config: UpstreamConfig) {}
+
+  async get(query: URLSearchParams): Promise<SnapshotResult> {
+    const url = this.buildUrl(query);
+    const cached = this.snapshots.get(url);
+    if (cached && Date.now() - cached.fetchedAt < this.config.ttl) {
+      return { snapshot: cached, status: 'HIT' };
+    }
+
+    try {
+      const snapshot = await this.refresh(url);
+      return { snapshot, status: 'MISS' };
+    } catch (error) {
+      if (cached) {
+        console.warn(`Serving stale snapshot for ${this.config.path}:`, (error as Error).message);
+        return { snapshot: cached, status: 'STALE' };
+      }
+      throw error;
+    }
+  }
+
+  // Builds the upstream URL from the configured params only, so arbitrary
+  // client query strings cannot blow up the cache or reach the upstream.
+  private buildUrl(query: URLSearchParams): string {
+    const url = new URL(this.config.url);
+    for (const [name, pattern] of Object.entries(this.config.params ?? {})) {
+      const value = query.get(name);
+      if (value === null || !pattern.test(value)) {
+        throw new InvalidParamsError(`Query parameter "${name}" is missing or invalid`);
+      }
+      url.searchParams.set(name, value);
+    }
+    return url.toString();
+  }
+
+  private refresh(url: string): Promise<Snapshot> {
+    let request = this.inFlight.get(url);
+    if (!request) {
+      request = this.fetchUpstream(url).finally(() => {
+        this.inFlight.delete(url);
+      });
+      this.inFlight.set(url, request);
+    }
+    return request;
+  }
+
+  private async fetchUpstream(url: string): Promise<Snapshot> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(UPSTREAM_TIMEOUT) });
+    if (!response.ok) {
+      throw new Error(`Upstream ${url} responded with HTTP ${response.status}`);
+    }
+
+    const body = Buffer.from(await response.arrayBuffer());
+    this.config.validate?.(body);
+
+    const snapshot: Snapshot = {
+      body,
+      contentType: this.config.contentType || response.headers.get('content-type') || 'application/octet-stream',
+      fetchedAt: Date.now(),
+    };
+
+    // Re-inserting moves the key to the end, so the first key is always the
+    // least recently refreshed one.
+    this.snapshots.delete(url);
+    this.snapshots.set(url, snapshot);
+    if (this.snapshots.size > MAX_SNAPSHOTS_PER_ENDPOINT) {
+      this.snapshots.delete(this.snapshots.keys().next().value as string);
+    }
+    return snapshot;
+  }
+}
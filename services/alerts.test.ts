@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlertRule, Vehicle } from '../types';
+import { AlertEvaluator } from './alerts';
+
+const t = (key: string) => key;
+
+const vehicle = (vehicleId: number, agencyName: string): Vehicle => ({
+  vehicleId,
+  routeShortName: '8',
+  headsign: 'Jelitkowo',
+  vehicleCode: String(vehicleId),
+  vehicleType: 'TRAM',
+  agencyName,
+  speed: 0,
+  lat: 54.35,
+  lon: 18.65,
+  bearing: 0,
+  delay: 600,
+});
+
+const delayRule = (agencyName?: string): AlertRule => ({ id: 'r1', kind: 'DELAY', line: '8', agencyName, minDelayMinutes: 5 });
+const vehicles = [vehicle(1, 'Gdańskie Autobusy i Tramwaje'), vehicle(100_000_001, 'ZKM Gdynia')];
+
+describe('AlertEvaluator', () => {
+  it('only matches the line of the operator of the rule', () => {
+    const messages = new AlertEvaluator().evaluate([delayRule('ZKM Gdynia')], [], vehicles, t);
+    assert.deepEqual(messages.map(message => message.key), ['r1:100000001']);
+  });
+
+  it('matches the line of every operator when the rule names none', () => {
+    const messages = new AlertEvaluator().evaluate([delayRule()], [], vehicles, t);
+    assert.deepEqual(messages.map(message => message.key), ['r1:1', 'r1:100000001']);
+  });
+});
@@ -0,0 +1,100 @@
+import { AlertRule, FavouritePlace, Vehicle } from '../types';
+import { Translate } from '../i18n';
+import { formatDelay } from '../utils/delay';
+import { angleBetween, bearingTo, distanceMeters } from '../utils/motion';
+import { normalizeSearchText } from '../utils/vehicleSearch';
+
+// An alert stays active (and silent) until its condition is clearly over, so
+// GPS jitter around the radius or the delay limit does not repeat it.
+const APPROACH_RELEASE_FACTOR = 1.5;
+const DELAY_RELEASE_SECONDS = 60;
+// Within this distance the heading no longer matters: the vehicle is at the stop.
+const AT_PLACE_METERS = 100;
+// A vehicle counts as approaching when the place is within this angle of its heading.
+const MAX_APPROACH_ANGLE = 90;
+
+export interface AlertMessage {
+  // Stable per rule and vehicle, used as the notification tag
+  key: string;
+  title: string;
+  body: string;
+}
+
+const matchesLine = (vehicle: Vehicle, rule: AlertRule) =>
+  vehicle.routeShortName.toUpperCase() === rule.line.trim().toUpperCase() &&
+  (!rule.agencyName || vehicle.agencyName === rule.agencyName);
+
+// Checks alert rules against each vehicle update. Each rule fires once per
+// vehicle when its condition starts to hold, and again only after it stopped
+// holding in between.
+export class AlertEvaluator {
+  private active = new Set<string>();
+
+  evaluate(rules: AlertRule[], places: FavouritePlace[], vehicles: Vehicle[], t: Translate): AlertMessage[] {
+    const messages: AlertMessage[] = [];
+    const stillActive = new Set<string>();
+
+    for (const rule of rules) {
+      const place = rule.kind === 'APPROACH' ? places.find(p => p.id === rule.placeId) : undefined;
+      if (rule.kind === 'APPROACH' && !place) continue;
+
+      for (const vehicle of vehicles) {
+        if (!matchesLine(vehicle, rule)) continue;
+        const key = `${rule.id}:${vehicle.vehicleId}`;
+        const wasActive = this.active.has(key);
+
+        if (rule.kind === 'APPROACH') {
+          if (rule.headsign.trim() !== '' &&
+            !normalizeSearchText(vehicle.headsign).includes(normalizeSearchText(rule.headsign.trim()))) {
+            continue;
+          }
+          const distance = distanceMeters(vehicle.lat, vehicle.lon, place.lat, place.lon);
+          if (wasActive) {
+            if (distance <= rule.radiusMeters * APPROACH_RELEASE_FACTOR) stillActive.add(key);
+            continue;
+          }
+          const isApproaching = distance <= AT_PLACE_METERS ||
+            angleBetween(vehicle.bearing, bearingTo(vehicle.lat, vehicle.lon, place.lat, place.lon)) <= MAX_APPROACH_ANGLE;
+          if (distance <= rule.radiusMeters && isApproaching) {
+            stillActive.add(key);
+            messages.push({
+              key,
+              title: t('vehicle.lineTowards', { line: vehicle.routeShortName, headsign: vehicle.headsign }),
+              body: t('alerts.approachBody', { code: vehicle.vehicleCode, distance: Math.round(distance / 10) * 10, place: place.name }),
+            });
+          }
+        } else {
+          const limit = rule.minDelayMinutes * 60;
+          if (wasActive) {
+            if (vehicle.delay > limit - DELAY_RELEASE_SECONDS) stillActive.add(key);
+            continue;
+          }
+          if (vehicle.delay > limit) {
+            stillActive.add(key);
+            messages.push({
+              key,
+              title: t('alerts.delayTitle', { line: vehicle.routeShortName }),
+              body: t('alerts.delayBody', { code: vehicle.vehicleCode, headsign: vehicle.headsign, delay: formatDelay(vehicle.delay, t).text }),
+            });
+          }
+        }
+      }
+    }
+
+    this.active = stillActive;
+    return messages;
+  }
+}
+
+// Shows a system notification when permitted. Returns false when the message
+// could not be shown that way, so the caller can fall back to an in-app notice.
+export const showAlertNotification = (message: AlertMessage): boolean => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return false;
+  try {
+    new Notification(message.title, { body: message.body, tag: message.key });
+    return true;
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker.
+    return false;
+  }
+};
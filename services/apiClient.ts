@@ -0,0 +1,261 @@
+import { Departure, DeparturesSnapshot, RawVehicle, Route, Stop, ValidationIssue, VehiclesSnapshot } from '../types';
+
+// Data-access layer for the transport API. All requests go through our own
+// backend (see server/), served from the same origin; Vite proxies /api to it
+// in development. Payloads are validated here so every consumer gets data it
+// can render without further checks.
+export const VEHICLES_API_URL = '/api/vehicles';
+export const ROUTES_API_URL = '/api/routes';
+export const STOPS_API_URL = '/api/stops';
+export const DEPARTURES_API_URL = '/api/departures';
+
+export class ApiError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Helper function to fetch data with retries on server errors
+export const fetchWithRetry = async (url: string, retries = 2, delay = 500): Promise<Response> => {
+  for (let i = 0; i <= retries; i++) {
+    try {
+      const response = await fetch(url);
+      if (response.ok || response.status < 500) {
+        return response;
+      }
+      console.warn(`Attempt ${i + 1} for ${url} failed with server error: ${response.status}. Retrying...`);
+    } catch (error) {
+      console.warn(`Attempt ${i + 1} for ${url} failed with a network error. Retrying...`, error);
+    }
+
+    if (i < retries) {
+      await new Promise(resolve => setTimeout(resolve, delay * Math.pow(2, i)));
+    }
+  }
+  throw new ApiError(`Failed to fetch from ${url} after ${retries + 1} attempts.`);
+};
+
+const fetchJson = async (url: string): Promise<unknown> => {
+  const response = await fetchWithRetry(url);
+  if (!response.ok) throw new ApiError(`Błąd HTTP: ${response.status}`, response.status);
+  try {
+    return await response.json();
+  } catch {
+    throw new ApiError(`Nieprawidłowy JSON z ${url}`);
+  }
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type NumberCheck = { value: number; coerced: boolean } | { error: string };
+
+// Accepts finite numbers and numeric strings (reported as coerced).
+const readNumber = (record: Record<string, unknown>, field: string): NumberCheck => {
+  const raw = record[field];
+  if (typeof raw === 'number') {
+    return Number.isFinite(raw) ? { value: raw, coerced: false } : { error: `${field} is not a finite number` };
+  }
+  if (typeof raw === 'string' && raw.trim() !== '' && Number.isFinite(Number(raw))) {
+    return { value: Number(raw), coerced: true };
+  }
+  if (raw === undefined || raw === null) return { error: `missing ${field}` };
+  if (typeof raw === 'string') return { error: `${field} is not numeric (${JSON.stringify(raw)})` };
+  return { error: `${field} has type ${typeof raw}` };
+};
+
+const readString = (record: Record<string, unknown>, field: string): string | null => {
+  const raw = record[field];
+  if (typeof raw === 'string') return raw;
+  if (typeof raw === 'number' && Number.isFinite(raw)) return String(raw);
+  return null;
+};
+
+// Fields that may legitimately be absent (e.g. no delay for a vehicle that is
+// not on a scheduled trip) and the value used instead.
+const MISSING_DEFAULTS: Record<string, number> = { speed: 0, bearing: 0, delay: 0 };
+
+// Checks a single upstream vehicle record. Records without a usable identity or
+// position are dropped; numeric strings and absent optional fields are fixed up
+// and flagged as coerced.
+export const validateRawVehicle = (input: unknown, index: number): { vehicle: RawVehicle | null; issue: ValidationIssue | null } => {
+  if (!isRecord(input)) {
+    return { vehicle: null, issue: { index, action: 'dropped', reasons: ['record is not an object'] } };
+  }
+
+  const errors: string[] = [];
+  const coerced: string[] = [];
+  const numbers: Record<string, number> = {};
+
+  for (const field of ['vehicleId', 'lat', 'lon', 'speed', 'bearing', 'delay']) {
+    const result = readNumber(input, field);
+    const isMissing = input[field] === undefined || input[field] === null;
+    if (isMissing && field in MISSING_DEFAULTS) {
+      numbers[field] = MISSING_DEFAULTS[field];
+      coerced.push(`missing ${field} defaulted to ${MISSING_DEFAULTS[field]}`);
+    } else if ('error' in result) {
+      errors.push(result.error);
+    } else {
+      numbers[field] = result.value;
+      if (result.coerced) coerced.push(`${field} coerced from string`);
+    }
+  }
+
+  if ('lat' in numbers && (numbers.lat < -90 || numbers.lat > 90)) errors.push(`lat ${numbers.lat} out of range`);
+  if ('lon' in numbers && (numbers.lon < -180 || numbers.lon > 180)) errors.push(`lon ${numbers.lon} out of range`);
+
+  const routeShortName = readString(input, 'routeShortName');
+  if (!routeShortName) errors.push('missing routeShortName');
+
+  const vehicleId = numbers.vehicleId;
+  if (errors.length > 0) {
+    return { vehicle: null, issue: { index, vehicleId, action: 'dropped', reasons: errors } };
+  }
+
+  const vehicle: RawVehicle = {
+    vehicleId,
+    routeShortName: routeShortName as string,
+    headsign: readString(input, 'headsign') ?? '',
+    vehicleCode: readString(input, 'vehicleCode') ?? String(vehicleId),
+    speed: numbers.speed,
+    lat: numbers.lat,
+    lon: numbers.lon,
+    bearing: numbers.bearing,
+    delay: numbers.delay,
+  };
+  // Optional hints from data sources that resolve the line themselves
+  if (input.vehicleType === 'BUS' || input.vehicleType === 'TRAM') vehicle.vehicleType = input.vehicleType;
+  const agencyName = readString(input, 'agencyName');
+  if (agencyName) vehicle.agencyName = agencyName;
+
+  return {
+    vehicle,
+    issue: coerced.length > 0 ? { index, vehicleId, action: 'coerced', reasons: coerced } : null,
+  };
+};
+
+// Validates a whole gpsPositions payload. Throws ApiError only when the
+// envelope itself is unusable; individual bad records are reported in `issues`.
+export const parseVehiclesPayload = (data: unknown): VehiclesSnapshot => {
+  if (!isRecord(data) || !Array.isArray(data.vehicles)) {
+    throw new ApiError('Nieprawidłowy format danych o pojazdach.');
+  }
+
+  const vehicles: RawVehicle[] = [];
+  const issues: ValidationIssue[] = [];
+  data.vehicles.forEach((record, index) => {
+    const { vehicle, issue } = validateRawVehicle(record, index);
+    if (vehicle) vehicles.push(vehicle);
+    if (issue) issues.push(issue);
+  });
+
+  return {
+    lastUpdate: typeof data.lastUpdate === 'string' ? data.lastUpdate : '',
+    vehicles,
+    issues,
+  };
+};
+
+// Validates routes.json. The payload is keyed by date; the first entry holds
+// the currently active routes.
+export const parseRoutesPayload = (data: unknown): Route[] => {
+  const day = isRecord(data) ? Object.values(data)[0] : undefined;
+  if (!isRecord(day) || !Array.isArray(day.routes)) {
+    throw new ApiError('Nieprawidłowy format danych o liniach.');
+  }
+
+  const routes: Route[] = [];
+  for (const raw of day.routes) {
+    if (!isRecord(raw)) continue;
+    const routeShortName = readString(raw, 'routeShortName');
+    if (!routeShortName) continue;
+    routes.push({
+      routeId: readString(raw, 'routeId') ?? routeShortName,
+      agencyName: readString(raw, 'agencyName') ?? '',
+      routeShortName,
+      routeLongName: readString(raw, 'routeLongName') ?? '',
+      activationDate: readString(raw, 'activationDate') ?? '',
+    });
+  }
+  return routes;
+};
+
+// Validates stops.json (keyed by date like routes.json). Depots, virtual and
+// non-passenger stops are left out since riders cannot board there.
+export const parseStopsPayload = (data: unknown): Stop[] => {
+  const day = isRecord(data) ? Object.values(data)[0] : undefined;
+  if (!isRecord(day) || !Array.isArray(day.stops)) {
+    throw new ApiError('Nieprawidłowy format danych o przystankach.');
+  }
+
+  const stops: Stop[] = [];
+  for (const raw of day.stops) {
+    if (!isRecord(raw)) continue;
+    if (raw.nonpassenger === 1 || raw.depot === 1 || raw.virtual === 1) continue;
+
+    const stopId = readNumber(raw, 'stopId');
+    const lat = readNumber(raw, 'stopLat');
+    const lon = readNumber(raw, 'stopLon');
+    if ('error' in stopId || 'error' in lat || 'error' in lon) continue;
+
+    stops.push({
+      stopId: stopId.value,
+      stopCode: readString(raw, 'stopCode') ?? '',
+      stopName: readString(raw, 'stopName') ?? readString(raw, 'stopDesc') ?? String(stopId.value),
+      lat: lat.value,
+      lon: lon.value,
+    });
+  }
+  return stops;
+};
+
+// Validates a departures payload for a single stop. Entries without a time are
+// skipped; a missing delay (common for SCHEDULED entries) counts as on time.
+export const parseDeparturesPayload = (data: unknown): DeparturesSnapshot => {
+  if (!isRecord(data) || !Array.isArray(data.departures)) {
+    throw new ApiError('Nieprawidłowy format danych o odjazdach.');
+  }
+
+  const departures: Departure[] = [];
+  for (const raw of data.departures) {
+    if (!isRecord(raw)) continue;
+    const theoreticalTime = readString(raw, 'theoreticalTime');
+    const estimatedTime = readString(raw, 'estimatedTime') ?? theoreticalTime;
+    if (!theoreticalTime || !estimatedTime) continue;
+
+    const delay = readNumber(raw, 'delayInSeconds');
+    departures.push({
+      id: readString(raw, 'id') ?? `${raw.tripId}-${theoreticalTime}`,
+      routeShortName: readString(raw, 'routeShortName') ?? readString(raw, 'routeId') ?? '?',
+      headsign: readString(raw, 'headsign') ?? '',
+      status: raw.status === 'REALTIME' ? 'REALTIME' : 'SCHEDULED',
+      theoreticalTime,
+      estimatedTime,
+      delayInSeconds: 'error' in delay ? 0 : delay.value,
+      vehicleCode: readString(raw, 'vehicleCode'),
+    });
+  }
+
+  departures.sort((a, b) => Date.parse(a.estimatedTime) - Date.parse(b.estimatedTime));
+  return {
+    lastUpdate: typeof data.lastUpdate === 'string' ? data.lastUpdate : '',
+    departures,
+  };
+};
+
+export const fetchVehicleSnapshot = async (): Promise<VehiclesSnapshot> => {
+  const snapshot = parseVehiclesPayload(await fetchJson(VEHICLES_API_URL));
+  const dropped = snapshot.issues.filter(issue => issue.action === 'dropped');
+  if (dropped.length > 0) {
+    console.warn(`Dropped ${dropped.length} malformed vehicle record(s):`, dropped);
+  }
+  return snapshot;
+};
+
+export const fetchRoutes = async (): Promise<Route[]> => parseRoutesPayload(await fetchJson(ROUTES_API_URL));
+
+export const fetchStops = async (): Promise<Stop[]> => parseStopsPayload(await fetchJson(STOPS_API_URL));
+
+export const fetchDepartures = async (stopId: number): Promise<DeparturesSnapshot> =>
+  parseDeparturesPayload(await fetchJson(`${DEPARTURES_API_URL}?stopId=${encodeURIComponent(stopId)}`));
@@ -0,0 +1,80 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildGtfsArchive, readFixture } from '../server/fixtureFiles';
+import { GtfsRealtimeFeed, encodeVehiclePositions } from './gtfsRealtime';
+import { findRoute } from './gtfs';
+import { fetchRouteCatalogs, fetchVehiclesFromSources, getDataSources } from './dataSources';
+
+// The upstream responses the backend would pass through, from the fixtures.
+// The generic GTFS-Realtime source is not configured and answers 404.
+const gdyniaFeed: GtfsRealtimeFeed = JSON.parse(readFixture('gdynia/vehiclePositions.json').toString('utf8'));
+const responses: Record<string, () => Uint8Array | string> = {
+  '/api/vehicles': () => readFixture('gpsPositions.json').toString('utf8'),
+  '/api/gtfs': () => buildGtfsArchive('gtfs'),
+  '/api/gdynia/vehicles': () => encodeVehiclePositions(gdyniaFeed),
+  '/api/gdynia/gtfs': () => buildGtfsArchive('gdynia/gtfs'),
+};
+
+describe('data sources', () => {
+  before(() => {
+    mock.method(globalThis, 'fetch', async (url: string) => {
+      const body = responses[url];
+      return body ? new Response(body()) : new Response('Not found', { status: 404 });
+    });
+    // Failed sources are logged
+    mock.method(console, 'error', () => {});
+  });
+
+  after(() => mock.restoreAll());
+
+  describe('fetchVehiclesFromSources', () => {
+    it('merges the vehicles of all sources with their ids shifted', async () => {
+      const snapshot = await fetchVehiclesFromSources(getDataSources(['ZTM_GDANSK', 'ZKM_GDYNIA']));
+      const gdynia = snapshot.vehicles.filter(v => v.agencyName === 'ZKM Gdynia');
+
+      assert.equal(snapshot.vehicles.length, 14 + gdyniaFeed.vehicles.length);
+      assert.equal(gdynia.length, gdyniaFeed.vehicles.length);
+      assert.ok(gdynia.every(v => v.vehicleId > 100_000_000 && v.sourceId === 'ZKM_GDYNIA'));
+      const gdansk = snapshot.vehicles.filter(v => v.agencyName === undefined);
+      assert.ok(gdansk.every(v => v.vehicleId < 100_000_000 && v.sourceId === 'ZTM_GDANSK'));
+      assert.deepEqual(snapshot.failedSources, []);
+    });
+
+    it('reports the newest update and changes its key with any source', async () => {
+      const snapshot = await fetchVehiclesFromSources(getDataSources(['ZTM_GDANSK', 'ZKM_GDYNIA']));
+      assert.equal(snapshot.lastUpdate, '2024-05-10T12:00:05.000Z');
+      assert.equal(snapshot.updateKey, `2024-05-10T12:00:05.000Z|${new Date(1715342405_000).toISOString()}`);
+      assert.deepEqual(snapshot.sourceUpdates, {
+        ZTM_GDANSK: '2024-05-10T12:00:05.000Z',
+        ZKM_GDYNIA: new Date(1715342405_000).toISOString(),
+      });
+    });
+
+    it('reports a failed source and keeps the vehicles of the others', async () => {
+      const snapshot = await fetchVehiclesFromSources(getDataSources(['ZKM_GDYNIA', 'GTFS_RT']));
+      assert.deepEqual(snapshot.failedSources, ['GTFS_RT']);
+      assert.equal(snapshot.vehicles.length, gdyniaFeed.vehicles.length);
+    });
+
+    it('fails when every source fails', async () => {
+      await assert.rejects(fetchVehiclesFromSources(getDataSources(['GTFS_RT'])), { name: 'ApiError', status: 404 });
+    });
+  });
+
+  describe('fetchRouteCatalogs', () => {
+    it('keeps the line of every operator, the earlier source first', async () => {
+      const catalog = await fetchRouteCatalogs(getDataSources(['ZTM_GDANSK', 'ZKM_GDYNIA', 'GTFS_RT']));
+      assert.deepEqual(catalog.get('8')?.map(route => route.agencyName), ['Gdańskie Autobusy i Tramwaje', 'ZKM Gdynia']);
+      assert.equal(catalog.get('21')?.[0].agencyName, 'ZKM Gdynia');
+      assert.deepEqual(catalog.get('8')?.map(route => route.sourceId), ['ZTM_GDANSK', 'ZKM_GDYNIA']);
+    });
+
+    it('does not resolve a vehicle against the catalogue of another source', async () => {
+      // As if the Gdańsk GTFS had failed to download
+      const catalog = await fetchRouteCatalogs(getDataSources(['ZKM_GDYNIA']));
+      assert.equal(findRoute(catalog, '8', undefined, 'ZTM_GDANSK'), undefined);
+      assert.equal(findRoute(catalog, '8', undefined, 'ZKM_GDYNIA')?.agencyName, 'ZKM Gdynia');
+      assert.equal(findRoute(catalog, '8')?.agencyName, 'ZKM Gdynia');
+    });
+  });
+});
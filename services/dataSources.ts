@@ -0,0 +1,172 @@
+import { DataSourceId, RouteCatalog, ValidationIssue, VehiclesSnapshot, RawVehicle } from '../types';
+import { GDANSK_CENTER } from '../constants';
+import { ApiError, fetchVehicleSnapshot } from './apiClient';
+import { addToCatalog, fetchRouteCatalog, GTFS_API_URL } from './gtfs';
+import { GtfsStaticIndex, fetchStaticIndex, fetchVehiclePositions, toVehiclesSnapshot } from './gtfsRealtime';
+
+// A live vehicle feed the map can show. Several sources can be enabled at
+// once; their vehicles are merged into one snapshot, with vehicle ids shifted
+// by `vehicleIdOffset` so they cannot collide.
+export interface TransitDataSource {
+  id: DataSourceId;
+  label: string;
+  // Where the map opens when this is the first enabled source
+  center: [number, number] | null;
+  vehicleIdOffset: number;
+  // Since line numbers repeat between operators, adapters that know the line
+  // of a vehicle set its agencyName, which picks the line in the source's
+  // own part of the merged catalogue, and its vehicleType.
+  fetchRouteCatalog(): Promise<RouteCatalog>;
+  fetchVehicles(): Promise<VehiclesSnapshot>;
+}
+
+// The ZTM Gdańsk gpsPositions feed with the ZTM GTFS as catalogue. Stops,
+// departures and route shapes are only available for this source.
+const ztmGdansk: TransitDataSource = {
+  id: 'ZTM_GDANSK',
+  label: 'ZTM Gdańsk',
+  center: GDANSK_CENTER,
+  vehicleIdOffset: 0,
+  fetchRouteCatalog: () => fetchRouteCatalog(GTFS_API_URL),
+  fetchVehicles: fetchVehicleSnapshot,
+};
+
+interface GtfsRealtimeSourceConfig {
+  id: DataSourceId;
+  label: string;
+  center: [number, number] | null;
+  vehicleIdOffset: number;
+  vehiclesUrl: string;
+  gtfsUrl: string;
+  // Used when the GTFS does not name the agency of a route
+  agencyName: string;
+}
+
+// A GTFS-Realtime VehiclePositions feed with its static GTFS, which maps the
+// route and trip ids of the feed to lines and headsigns.
+export const createGtfsRealtimeSource = (config: GtfsRealtimeSourceConfig): TransitDataSource => {
+  let indexPromise: Promise<GtfsStaticIndex> | null = null;
+  const loadIndex = () => {
+    if (!indexPromise) {
+      indexPromise = fetchStaticIndex(config.gtfsUrl);
+      indexPromise.catch(() => {
+        indexPromise = null;
+      });
+    }
+    return indexPromise;
+  };
+  const numericIds = new Map<string, number>();
+
+  return {
+    id: config.id,
+    label: config.label,
+    center: config.center,
+    vehicleIdOffset: config.vehicleIdOffset,
+    fetchRouteCatalog: async () => {
+      const catalog: RouteCatalog = new Map();
+      for (const route of (await loadIndex()).routes.values()) {
+        // The same fallback the vehicles of this source get
+        addToCatalog(catalog, { ...route, agencyName: route.agencyName || config.agencyName });
+      }
+      return catalog;
+    },
+    fetchVehicles: async () => {
+      const [feed, index] = await Promise.all([fetchVehiclePositions(config.vehiclesUrl), loadIndex()]);
+      return toVehiclesSnapshot(feed, index, { agencyName: config.agencyName, numericIds });
+    },
+  };
+};
+
+// Adding a city: write an adapter (or configure a GTFS-Realtime one), add its
+// id to DataSourceId, list it here and add the upstream URLs in server/config.ts.
+export const DATA_SOURCES: TransitDataSource[] = [
+  ztmGdansk,
+  createGtfsRealtimeSource({
+    id: 'ZKM_GDYNIA',
+    label: 'ZKM Gdynia',
+    center: [54.518889, 18.530556],
+    vehicleIdOffset: 100_000_000,
+    vehiclesUrl: '/api/gdynia/vehicles',
+    gtfsUrl: '/api/gdynia/gtfs',
+    agencyName: 'ZKM Gdynia',
+  }),
+  createGtfsRealtimeSource({
+    id: 'GTFS_RT',
+    label: 'GTFS-Realtime',
+    center: null,
+    vehicleIdOffset: 200_000_000,
+    vehiclesUrl: '/api/gtfs-rt/vehicles',
+    gtfsUrl: '/api/gtfs-rt/gtfs',
+    agencyName: '',
+  }),
+];
+
+export const DEFAULT_DATA_SOURCES: DataSourceId[] = ['ZTM_GDANSK'];
+
+export const isDataSourceId = (value: unknown): value is DataSourceId =>
+  DATA_SOURCES.some(source => source.id === value);
+
+export const getDataSources = (ids: DataSourceId[]): TransitDataSource[] =>
+  DATA_SOURCES.filter(source => ids.includes(source.id));
+
+// Merges the catalogues of all sources; a line run by several operators lists
+// the earlier source first. Throws only when no catalogue could be loaded.
+export const fetchRouteCatalogs = async (sources: TransitDataSource[]): Promise<RouteCatalog> => {
+  const results = await Promise.allSettled(sources.map(source => source.fetchRouteCatalog()));
+  const merged: RouteCatalog = new Map();
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.error(`Błąd pobierania linii źródła ${sources[i].label}:`, result.reason);
+      return;
+    }
+    for (const routes of result.value.values()) {
+      routes.forEach(route => addToCatalog(merged, { ...route, sourceId: sources[i].id }));
+    }
+  });
+  if (merged.size === 0) throw new ApiError('Żadne źródło danych nie udostępniło listy linii.');
+  return merged;
+};
+
+export interface MergedVehiclesSnapshot extends VehiclesSnapshot {
+  // Changes whenever any source published a new snapshot; lastUpdate is only
+  // the newest of them
+  updateKey: string;
+  // lastUpdate of every source that answered
+  sourceUpdates: Partial<Record<DataSourceId, string>>;
+  failedSources: DataSourceId[];
+}
+
+// Polls all sources in parallel. A failing source is reported in
+// failedSources; only when every source fails the poll itself fails.
+export const fetchVehiclesFromSources = async (sources: TransitDataSource[]): Promise<MergedVehiclesSnapshot> => {
+  const results = await Promise.allSettled(sources.map(source => source.fetchVehicles()));
+  const vehicles: RawVehicle[] = [];
+  const issues: ValidationIssue[] = [];
+  const updates: string[] = [];
+  const sourceUpdates: Partial<Record<DataSourceId, string>> = {};
+  const failedSources: DataSourceId[] = [];
+
+  results.forEach((result, i) => {
+    const source = sources[i];
+    if (result.status === 'rejected') {
+      console.error(`Błąd pobierania pojazdów źródła ${source.label}:`, result.reason);
+      failedSources.push(source.id);
+      return;
+    }
+    const offset = source.vehicleIdOffset;
+    updates.push(result.value.lastUpdate);
+    sourceUpdates[source.id] = result.value.lastUpdate;
+    vehicles.push(...result.value.vehicles.map(v => ({ ...v, vehicleId: v.vehicleId + offset, sourceId: source.id })));
+    issues.push(...result.value.issues.map(issue => (
+      offset === 0 || issue.vehicleId === undefined ? issue : { ...issue, vehicleId: issue.vehicleId + offset }
+    )));
+  });
+
+  if (failedSources.length === sources.length) {
+    const firstError = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    throw firstError?.reason ?? new ApiError('Brak włączonych źródeł danych.');
+  }
+
+  const lastUpdate = updates.reduce((latest, update) => (Date.parse(update) > (Date.parse(latest) || 0) ? update : latest), '');
+  return { lastUpdate, vehicles, issues, updateKey: updates.join('|'), sourceUpdates, failedSources };
+};
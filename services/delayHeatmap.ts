@@ -0,0 +1,108 @@
+import { GDANSK_CENTER } from '../constants';
+import { HeatCell, HeatmapMode, HeatmapSample, Vehicle } from '../types';
+import { METERS_PER_DEGREE_LAT } from '../utils/motion';
+
+export const DEFAULT_HEATMAP_WINDOW_MINUTES = 15;
+const CELL_SIZE_METERS = 150;
+// Cells with fewer samples are too noisy to show
+const MIN_CELL_SAMPLES = 3;
+// A delay change is only attributed to a place when both samples are this
+// close in time; longer gaps (vehicle left the feed) say nothing about the spot.
+const MAX_GAIN_INTERVAL_MS = 60_000;
+
+// The grid is fixed to the city so cells do not shift as samples come and go.
+const CELL_LAT = CELL_SIZE_METERS / METERS_PER_DEGREE_LAT;
+const CELL_LON = CELL_SIZE_METERS / (METERS_PER_DEGREE_LAT * Math.cos((GDANSK_CENTER[0] * Math.PI) / 180));
+
+// Collects position samples with speed and delay gain over a rolling window.
+// Samples keep the line and vehicle type, so the map filters can be applied
+// when the grid is aggregated.
+export class HeatmapCollector {
+  private samples: HeatmapSample[] = [];
+  private lastByVehicle = new Map<number, { time: number; delay: number }>();
+  private lastSnapshotTime = 0;
+  private windowMs: number;
+
+  constructor(windowMinutes = DEFAULT_HEATMAP_WINDOW_MINUTES) {
+    this.windowMs = windowMinutes * 60_000;
+  }
+
+  // Returns false when the snapshot was already recorded (its time has not advanced).
+  record(snapshotTime: number, vehicles: Vehicle[]): boolean {
+    if (snapshotTime <= this.lastSnapshotTime) return false;
+    this.lastSnapshotTime = snapshotTime;
+
+    for (const v of vehicles) {
+      const previous = this.lastByVehicle.get(v.vehicleId);
+      const interval = previous ? snapshotTime - previous.time : Infinity;
+      this.lastByVehicle.set(v.vehicleId, { time: snapshotTime, delay: v.delay });
+
+      this.samples.push({
+        time: snapshotTime,
+        lat: v.lat,
+        lon: v.lon,
+        speed: v.speed,
+        delayGain: previous && interval <= MAX_GAIN_INTERVAL_MS ? ((v.delay - previous.delay) / interval) * 60_000 : null,
+        vehicleType: v.vehicleType,
+        routeShortName: v.routeShortName,
+      });
+    }
+
+    // Samples are appended in time order, so expired ones are at the front.
+    const cutoff = snapshotTime - this.windowMs;
+    const firstKept = this.samples.findIndex(sample => sample.time >= cutoff);
+    this.samples.splice(0, firstKept === -1 ? this.samples.length : firstKept);
+    for (const [vehicleId, last] of this.lastByVehicle) {
+      if (last.time < cutoff) this.lastByVehicle.delete(vehicleId);
+    }
+    return true;
+  }
+
+  reset() {
+    this.samples = [];
+    this.lastByVehicle.clear();
+    this.lastSnapshotTime = 0;
+  }
+
+  getSamples(): HeatmapSample[] {
+    return this.samples;
+  }
+}
+
+// Bins samples into the fixed grid. DELAY_GAIN averages the delay gain,
+// SLOW averages the speed; `include` applies the map filters.
+export const aggregateHeatmap = (
+  samples: HeatmapSample[],
+  mode: Exclude<HeatmapMode, 'OFF'>,
+  include: (sample: HeatmapSample) => boolean,
+): HeatCell[] => {
+  const cells = new Map<string, { row: number; col: number; samples: number; total: number }>();
+
+  for (const sample of samples) {
+    if (!include(sample)) continue;
+    const value = mode === 'DELAY_GAIN' ? sample.delayGain : sample.speed;
+    if (value === null) continue;
+
+    const row = Math.floor(sample.lat / CELL_LAT);
+    const col = Math.floor(sample.lon / CELL_LON);
+    const key = `${row}:${col}`;
+    const cell = cells.get(key) ?? { row, col, samples: 0, total: 0 };
+    cell.samples++;
+    cell.total += value;
+    cells.set(key, cell);
+  }
+
+  const result: HeatCell[] = [];
+  for (const cell of cells.values()) {
+    if (cell.samples < MIN_CELL_SAMPLES) continue;
+    result.push({
+      bounds: [
+        [cell.row * CELL_LAT, cell.col * CELL_LON],
+        [(cell.row + 1) * CELL_LAT, (cell.col + 1) * CELL_LON],
+      ],
+      samples: cell.samples,
+      value: cell.total / cell.samples,
+    });
+  }
+  return result;
+};
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Vehicle } from '../types';
+import { DelayStatsCollector, delayStatsToCsv } from './delayStats';
+
+const vehicle = (vehicleId: number, agencyName: string, delay: number): Vehicle => ({
+  vehicleId,
+  routeShortName: '8',
+  headsign: '',
+  vehicleCode: String(vehicleId),
+  vehicleType: 'TRAM',
+  agencyName,
+  speed: 0,
+  lat: 54.35,
+  lon: 18.65,
+  bearing: 0,
+  delay,
+});
+
+describe('DelayStatsCollector', () => {
+  it('keeps the same line number of two operators apart', () => {
+    const collector = new DelayStatsCollector();
+    collector.record(1000, [vehicle(1, 'Gdańskie Autobusy i Tramwaje', 240), vehicle(2, 'ZKM Gdynia', 0)]);
+    const { byLine } = collector.getSnapshot();
+    assert.deepEqual(byLine.map(line => [line.routeShortName, line.agencyName, line.maxDelay]), [
+      ['8', 'Gdańskie Autobusy i Tramwaje', 240],
+      ['8', 'ZKM Gdynia', 0],
+    ]);
+  });
+
+  it('skips a snapshot whose time has not advanced', () => {
+    const collector = new DelayStatsCollector();
+    assert.equal(collector.record(1000, [vehicle(1, 'ZKM Gdynia', 0)]), true);
+    assert.equal(collector.record(1000, [vehicle(1, 'ZKM Gdynia', 60)]), false);
+    assert.equal(collector.getSnapshot().polls, 1);
+  });
+});
+
+describe('delayStatsToCsv', () => {
+  it('writes one row per line and operator, the most delayed first', () => {
+    const collector = new DelayStatsCollector();
+    collector.record(1000, [vehicle(1, 'ZKM Gdynia', 0), vehicle(2, 'Warbus, Sp. z o.o.', 300)]);
+    assert.equal(delayStatsToCsv(collector.getSnapshot()), [
+      'line,operator,vehicle_type,samples,mean_delay_s,max_delay_s,punctuality_pct',
+      '8,"Warbus, Sp. z o.o.",TRAM,1,300.0,300,0.0',
+      '8,ZKM Gdynia,TRAM,1,0.0,0,100.0',
+      '',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,124 @@
+import { DELAY_THRESHOLD_SECONDS } from '../constants';
+import { DelayAggregate, LineDelayStats, PunctualityPoint, Vehicle, VehicleType } from '../types';
+import { csvField } from '../utils/csv';
+
+// Histogram bins in minutes. The first and last bins are open-ended.
+export const HISTOGRAM_MIN_MINUTES = -5;
+export const HISTOGRAM_MAX_MINUTES = 15;
+// Two hours of polls at the default refresh interval
+const MAX_TIME_SERIES_POINTS = 1440;
+
+const emptyAggregate = (): DelayAggregate => ({ samples: 0, totalDelay: 0, delayedSamples: 0, maxDelay: null });
+
+const addSample = (aggregate: DelayAggregate, delay: number) => {
+  aggregate.samples++;
+  aggregate.totalDelay += delay;
+  if (delay > DELAY_THRESHOLD_SECONDS) aggregate.delayedSamples++;
+  if (aggregate.maxDelay === null || delay > aggregate.maxDelay) aggregate.maxDelay = delay;
+};
+
+export const meanDelay = (aggregate: DelayAggregate) => (aggregate.samples > 0 ? aggregate.totalDelay / aggregate.samples : 0);
+export const punctuality = (aggregate: DelayAggregate) =>
+  aggregate.samples > 0 ? 1 - aggregate.delayedSamples / aggregate.samples : 1;
+
+export interface DelayStatsSnapshot {
+  startedAt: number;
+  polls: number;
+  total: DelayAggregate;
+  byType: Record<VehicleType, DelayAggregate>;
+  byLine: LineDelayStats[];
+  // Sample counts per minute of delay, from HISTOGRAM_MIN_MINUTES to HISTOGRAM_MAX_MINUTES
+  histogram: number[];
+  timeSeries: PunctualityPoint[];
+}
+
+// Accumulates delay samples from every poll since the page was opened (or the
+// last reset). Keeps running aggregates only, so memory stays flat however
+// long the dashboard runs; the time series is capped at two hours.
+export class DelayStatsCollector {
+  private startedAt = Date.now();
+  private lastSnapshotTime = 0;
+  private polls = 0;
+  private total = emptyAggregate();
+  private byType: Record<VehicleType, DelayAggregate> = { BUS: emptyAggregate(), TRAM: emptyAggregate() };
+  // Keyed by operator and line, as line numbers repeat between operators
+  private byLine = new Map<string, LineDelayStats>();
+  private histogram = new Array(HISTOGRAM_MAX_MINUTES - HISTOGRAM_MIN_MINUTES + 1).fill(0);
+  private timeSeries: PunctualityPoint[] = [];
+
+  // Returns false when the snapshot was already recorded (its time has not advanced).
+  record(snapshotTime: number, vehicles: Vehicle[]): boolean {
+    if (snapshotTime <= this.lastSnapshotTime || vehicles.length === 0) return false;
+    this.lastSnapshotTime = snapshotTime;
+    this.polls++;
+
+    const poll = emptyAggregate();
+    for (const v of vehicles) {
+      addSample(poll, v.delay);
+      addSample(this.total, v.delay);
+      addSample(this.byType[v.vehicleType], v.delay);
+
+      const lineKey = `${v.agencyName}|${v.routeShortName}`;
+      let line = this.byLine.get(lineKey);
+      if (!line) {
+        line = { routeShortName: v.routeShortName, agencyName: v.agencyName, vehicleType: v.vehicleType, ...emptyAggregate() };
+        this.byLine.set(lineKey, line);
+      }
+      addSample(line, v.delay);
+
+      const minutes = Math.round(v.delay / 60);
+      const bin = Math.min(Math.max(minutes, HISTOGRAM_MIN_MINUTES), HISTOGRAM_MAX_MINUTES) - HISTOGRAM_MIN_MINUTES;
+      this.histogram[bin]++;
+    }
+
+    this.timeSeries.push({
+      time: snapshotTime,
+      vehicles: poll.samples,
+      meanDelay: meanDelay(poll),
+      punctuality: punctuality(poll),
+    });
+    if (this.timeSeries.length > MAX_TIME_SERIES_POINTS) this.timeSeries.shift();
+    return true;
+  }
+
+  reset() {
+    this.startedAt = Date.now();
+    this.lastSnapshotTime = 0;
+    this.polls = 0;
+    this.total = emptyAggregate();
+    this.byType = { BUS: emptyAggregate(), TRAM: emptyAggregate() };
+    this.byLine.clear();
+    this.histogram.fill(0);
+    this.timeSeries = [];
+  }
+
+  // Returns copies, so the result can be handed to React and exported as is.
+  getSnapshot(): DelayStatsSnapshot {
+    return {
+      startedAt: this.startedAt,
+      polls: this.polls,
+      total: { ...this.total },
+      byType: { BUS: { ...this.byType.BUS }, TRAM: { ...this.byType.TRAM } },
+      byLine: [...this.byLine.values()].map(line => ({ ...line })),
+      histogram: [...this.histogram],
+      timeSeries: [...this.timeSeries],
+    };
+  }
+}
+
+// Per-line statistics as CSV, one row per line and operator.
+export const delayStatsToCsv = (stats: DelayStatsSnapshot): string => {
+  const header = 'line,operator,vehicle_type,samples,mean_delay_s,max_delay_s,punctuality_pct';
+  const rows = [...stats.byLine]
+    .sort((a, b) => meanDelay(b) - meanDelay(a))
+    .map(line => [
+      csvField(line.routeShortName),
+      csvField(line.agencyName),
+      line.vehicleType,
+      line.samples,
+      meanDelay(line).toFixed(1),
+      line.maxDelay ?? '',
+      (punctuality(line) * 100).toFixed(1),
+    ].join(','));
+  return [header, ...rows].join('\n') + '\n';
+};
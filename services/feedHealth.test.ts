@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DataSourceId, Vehicle } from '../types';
+import { FrozenPositionTracker } from './feedHealth';
+
+const vehicle = (vehicleId: number, sourceId: DataSourceId): Vehicle => ({
+  vehicleId,
+  routeShortName: '8',
+  headsign: '',
+  vehicleCode: String(vehicleId),
+  vehicleType: 'TRAM',
+  agencyName: '',
+  speed: 0,
+  lat: 54.35,
+  lon: 18.65,
+  bearing: 0,
+  delay: 0,
+  sourceId,
+});
+
+const vehicles = [vehicle(1, 'ZTM_GDANSK'), vehicle(100_000_001, 'ZKM_GDYNIA')];
+
+describe('FrozenPositionTracker', () => {
+  it('flags a vehicle after twelve new snapshots at the same position', () => {
+    const tracker = new FrozenPositionTracker();
+    let stale = new Set<number>();
+    for (let poll = 0; poll <= 12; poll++) stale = tracker.update([vehicles[0]]);
+    assert.deepEqual([...stale], [1]);
+  });
+
+  it('only counts the snapshots of the vehicle\'s own source', () => {
+    const tracker = new FrozenPositionTracker();
+    let stale = new Set<number>();
+    // Gdynia publishes on every poll, Gdańsk stays on its first snapshot
+    for (let poll = 0; poll <= 12; poll++) {
+      stale = tracker.update(vehicles, { ZTM_GDANSK: 'a', ZKM_GDYNIA: String(poll) });
+    }
+    assert.deepEqual([...stale], [100_000_001]);
+  });
+});
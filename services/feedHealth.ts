@@ -0,0 +1,62 @@
+import { ConnectionStatus, DataSourceId, Vehicle } from '../types';
+
+// A vehicle whose reported position stays exactly the same for this many
+// changed snapshots (one minute at the default refresh interval) most likely
+// has a frozen GPS unit; a parked vehicle still jitters by a few metres.
+const STALE_VEHICLE_POLLS = 12;
+// Data older than this no longer counts as live
+const STALE_DATA_AGE_MS = 60_000;
+// Consecutive failed polls after which the feed is treated as offline
+const OFFLINE_FAILURES = 3;
+
+// Counts how many snapshots in a row each vehicle reported the same position.
+export class FrozenPositionTracker {
+  private positions = new Map<number, { lat: number; lon: number; unchangedPolls: number }>();
+  private sourceUpdates: Partial<Record<DataSourceId, string>> = {};
+
+  // Returns the ids of vehicles considered stale after this snapshot. With
+  // several data sources merged, `sourceUpdates` (the lastUpdate of each)
+  // limits the count to vehicles whose own source published a new snapshot,
+  // so a faster source does not age the vehicles of a slower one. Without it
+  // (e.g. in playback) every snapshot counts.
+  update(vehicles: Vehicle[], sourceUpdates?: Partial<Record<DataSourceId, string>>): Set<number> {
+    const isNewSnapshot = (sourceId: DataSourceId | undefined) => {
+      const update = sourceId && sourceUpdates?.[sourceId];
+      // Sources without a time cannot tell, so every snapshot counts
+      return !update || update !== this.sourceUpdates[sourceId];
+    };
+    const next = new Map<number, { lat: number; lon: number; unchangedPolls: number }>();
+    const stale = new Set<number>();
+    for (const v of vehicles) {
+      const previous = this.positions.get(v.vehicleId);
+      const isRepeated = previous && previous.lat === v.lat && previous.lon === v.lon;
+      const unchangedPolls = !isRepeated ? 0 : isNewSnapshot(v.sourceId) ? previous.unchangedPolls + 1 : previous.unchangedPolls;
+      next.set(v.vehicleId, { lat: v.lat, lon: v.lon, unchangedPolls });
+      if (unchangedPolls >= STALE_VEHICLE_POLLS) stale.add(v.vehicleId);
+    }
+    this.positions = next;
+    this.sourceUpdates = sourceUpdates ?? {};
+    return stale;
+  }
+
+  reset() {
+    this.positions.clear();
+    this.sourceUpdates = {};
+  }
+}
+
+interface FeedState {
+  isOnline: boolean;
+  failureCount: number;
+  // null before any data arrived
+  dataAgeMs: number | null;
+  // The data shown comes from the offline snapshot rather than the live feed
+  isCachedData: boolean;
+}
+
+export const getConnectionStatus = ({ isOnline, failureCount, dataAgeMs, isCachedData }: FeedState): ConnectionStatus => {
+  if (!isOnline || failureCount >= OFFLINE_FAILURES) return 'OFFLINE';
+  if (failureCount > 0) return 'DEGRADED';
+  if (isCachedData || (dataAgeMs !== null && dataAgeMs > STALE_DATA_AGE_MS)) return 'STALE';
+  return 'LIVE';
+};
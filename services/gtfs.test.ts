@@ -0,0 +1,147 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { RawVehicle, VehicleType } from '../types';
+import { buildGtfsArchive } from '../server/fixtureFiles';
+import { addToCatalog, buildRouteCatalog, classifyRouteType, findRoute, loadGtfsFiles, parseRoutes, resolveVehicleType } from './gtfs';
+
+const GDANSK_GTFS_URL = '/test/gdansk/gtfs';
+const GDYNIA_GTFS_URL = '/test/gdynia/gtfs';
+
+const vehicle = (overrides: Partial<RawVehicle>): RawVehicle => ({
+  vehicleId: 1,
+  routeShortName: '8',
+  headsign: '',
+  vehicleCode: '1',
+  speed: 0,
+  lat: 54.35,
+  lon: 18.65,
+  bearing: 0,
+  delay: 0,
+  ...overrides,
+});
+
+describe('classifyRouteType', () => {
+  it('maps trams and buses, including extended route types', () => {
+    assert.equal(classifyRouteType(0), 'TRAM');
+    assert.equal(classifyRouteType(900), 'TRAM');
+    assert.equal(classifyRouteType(3), 'BUS');
+    assert.equal(classifyRouteType(700), 'BUS');
+  });
+
+  it('draws trolleybuses as buses', () => {
+    assert.equal(classifyRouteType(11), 'BUS');
+    assert.equal(classifyRouteType(800), 'BUS');
+  });
+
+  it('returns null for modes the map does not draw', () => {
+    assert.equal(classifyRouteType(4), null);
+    assert.equal(classifyRouteType(2), null);
+    assert.equal(classifyRouteType(1200), null);
+  });
+});
+
+describe('GTFS fixture archives', () => {
+  let gdansk: Record<string, string>;
+  let gdynia: Record<string, string>;
+
+  before(async () => {
+    const archives: Record<string, Buffer> = {
+      [GDANSK_GTFS_URL]: buildGtfsArchive('gtfs'),
+      [GDYNIA_GTFS_URL]: buildGtfsArchive('gdynia/gtfs'),
+    };
+    mock.method(globalThis, 'fetch', async (url: string) => new Response(archives[url]));
+    gdansk = await loadGtfsFiles(['routes.txt', 'agency.txt'], GDANSK_GTFS_URL);
+    gdynia = await loadGtfsFiles(['routes.txt', 'agency.txt'], GDYNIA_GTFS_URL);
+  });
+
+  after(() => mock.restoreAll());
+
+  describe('parseRoutes', () => {
+    it('classifies a two-digit bus line and looks up its agency', () => {
+      const route = parseRoutes(gdansk['routes.txt'], gdansk['agency.txt']).get('31');
+      assert.deepEqual(route, {
+        routeShortName: '31',
+        routeLongName: 'Chwarzno - Dworzec Główny',
+        vehicleType: 'BUS',
+        routeType: 3,
+        agencyName: 'Warbus Sp. z o.o.',
+        routeColor: null,
+      });
+    });
+
+    it('classifies a tram with its official color', () => {
+      const route = parseRoutes(gdansk['routes.txt'], gdansk['agency.txt']).get('8');
+      assert.equal(route?.vehicleType, 'TRAM');
+      assert.equal(route?.agencyName, 'Gdańskie Autobusy i Tramwaje');
+      assert.equal(route?.routeColor, '#D81B60');
+    });
+
+    it('skips routes of an unknown route_type', () => {
+      const routes = parseRoutes(gdansk['routes.txt'], gdansk['agency.txt']);
+      assert.equal(routes.has('F5'), false);
+      assert.equal(routes.get('401')?.routeShortName, 'N1');
+    });
+
+    it('keys routes by route_id', () => {
+      const routes = parseRoutes(gdynia['routes.txt'], gdynia['agency.txt']);
+      assert.equal(routes.get('R21')?.routeShortName, '21');
+      assert.equal(routes.get('R21')?.agencyName, 'ZKM Gdynia');
+    });
+  });
+
+  describe('buildRouteCatalog', () => {
+    it('keys the drawable lines by route_short_name', () => {
+      const catalog = buildRouteCatalog(gdansk['routes.txt'], gdansk['agency.txt']);
+      assert.deepEqual([...catalog.keys()].sort(), ['115', '12', '122', '158', '199', '2', '210', '3', '31', '8', '9', 'N1']);
+      assert.equal(catalog.get('158')?.[0].agencyName, 'Warbus Sp. z o.o.');
+      assert.equal(catalog.get('2')?.[0].vehicleType, 'TRAM');
+    });
+
+    it('keeps one entry per operator of a repeated line number', () => {
+      const catalog = buildRouteCatalog(gdansk['routes.txt'], gdansk['agency.txt']);
+      for (const routes of buildRouteCatalog(gdynia['routes.txt'], gdynia['agency.txt']).values()) {
+        routes.forEach(route => addToCatalog(catalog, route));
+      }
+      assert.deepEqual(catalog.get('8')?.map(route => [route.agencyName, route.vehicleType]), [
+        ['Gdańskie Autobusy i Tramwaje', 'TRAM'],
+        ['ZKM Gdynia', 'BUS'],
+      ]);
+      assert.equal(findRoute(catalog, '8')?.agencyName, 'Gdańskie Autobusy i Tramwaje');
+      assert.equal(findRoute(catalog, '8', 'ZKM Gdynia')?.vehicleType, 'BUS');
+      assert.equal(findRoute(catalog, '31', 'ZKM Gdynia'), undefined);
+    });
+  });
+
+  describe('loadGtfsFiles', () => {
+    it('rejects when a file is missing from the archive', async () => {
+      await assert.rejects(loadGtfsFiles(['routes.txt', 'stops.txt'], GDANSK_GTFS_URL), { name: 'ApiError', message: /stops\.txt/ });
+    });
+  });
+
+  describe('resolveVehicleType', () => {
+    it('takes the type of the line from the catalogue', () => {
+      const catalog = buildRouteCatalog(gdansk['routes.txt'], gdansk['agency.txt']);
+      const knownTypes = new Map<number, VehicleType>();
+      assert.equal(resolveVehicleType(vehicle({ routeShortName: '8' }), catalog, knownTypes), 'TRAM');
+      assert.equal(resolveVehicleType(vehicle({ vehicleId: 2, routeShortName: '31' }), catalog, knownTypes), 'BUS');
+    });
+
+    it('prefers the type set by the data source', () => {
+      const catalog = buildRouteCatalog(gdansk['routes.txt'], gdansk['agency.txt']);
+      assert.equal(resolveVehicleType(vehicle({ routeShortName: '8', vehicleType: 'BUS' }), catalog, new Map()), 'BUS');
+    });
+
+    it('does not take the line of another operator', () => {
+      const catalog = buildRouteCatalog(gdansk['routes.txt'], gdansk['agency.txt']);
+      assert.equal(resolveVehicleType(vehicle({ routeShortName: '8', agencyName: 'ZKM Gdynia' }), catalog, new Map()), 'BUS');
+    });
+
+    it('falls back to the last known type of the vehicle, then to BUS', () => {
+      const catalog = buildRouteCatalog(gdansk['routes.txt'], gdansk['agency.txt']);
+      const knownTypes = new Map<number, VehicleType>();
+      resolveVehicleType(vehicle({ vehicleId: 7, routeShortName: '2' }), catalog, knownTypes);
+      assert.equal(resolveVehicleType(vehicle({ vehicleId: 7, routeShortName: 'T2' }), catalog, knownTypes), 'TRAM');
+      assert.equal(resolveVehicleType(vehicle({ vehicleId: 8, routeShortName: 'T2' }), catalog, knownTypes), 'BUS');
+    });
+  });
+});
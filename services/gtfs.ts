@@ -0,0 +1,223 @@
+import { unzip, Unzipped } from 'fflate';
+import { DataSourceId, RawVehicle, RouteCatalog, RouteClassification, RouteShape, VehicleType } from '../types';
+import { parseCsv } from '../utils/csv';
+import { ApiError, fetchWithRetry } from './apiClient';
+
+// Client-side access to GTFS feeds, by default the ZTM Gdańsk one. Every
+// archive is downloaded once per session through our backend and only the
+// files that are asked for get inflated.
+export const GTFS_API_URL = '/api/gtfs';
+
+const archivePromises = new Map<string, Promise<Uint8Array>>();
+
+const fetchArchive = (url: string): Promise<Uint8Array> => {
+  let archivePromise = archivePromises.get(url);
+  if (!archivePromise) {
+    archivePromise = (async () => {
+      const response = await fetchWithRetry(url);
+      if (!response.ok) throw new ApiError(`Błąd HTTP: ${response.status}`, response.status);
+      return new Uint8Array(await response.arrayBuffer());
+    })();
+    archivePromises.set(url, archivePromise);
+    // Allow a later call to retry after a failed download.
+    archivePromise.catch(() => {
+      archivePromises.delete(url);
+    });
+  }
+  return archivePromise;
+};
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// Returns the text of the requested GTFS files, e.g. ['routes.txt', 'agency.txt'].
+// Throws ApiError when a file is missing from the archive.
+export const loadGtfsFiles = async (names: string[], url = GTFS_API_URL): Promise<Record<string, string>> => {
+  const archive = await fetchArchive(url);
+  const unzipped = await new Promise<Unzipped>((resolve, reject) => {
+    unzip(archive, { filter: file => names.includes(baseName(file.name)) }, (error, data) => {
+      if (error) reject(new ApiError(`Nie można rozpakować archiwum GTFS: ${error.message}`));
+      else resolve(data);
+    });
+  });
+
+  const decoder = new TextDecoder('utf-8');
+  const files: Record<string, string> = {};
+  for (const [path, bytes] of Object.entries(unzipped)) {
+    files[baseName(path)] = decoder.decode(bytes);
+  }
+
+  const missing = names.filter(name => !(name in files));
+  if (missing.length > 0) {
+    throw new ApiError(`Brak plików w archiwum GTFS: ${missing.join(', ')}`);
+  }
+  return files;
+};
+
+// Maps a GTFS route_type (basic or extended) onto the vehicle types the map
+// knows about. Returns null for modes we do not draw, e.g. ferries or rail.
+export const classifyRouteType = (routeType: number): VehicleType | null => {
+  if (routeType === 0 || (routeType >= 900 && routeType < 1000)) return 'TRAM';
+  // Trolleybuses (11, 800) look and behave like buses on the map.
+  if (routeType === 3 || routeType === 11 || routeType === 800 || (routeType >= 700 && routeType < 800)) return 'BUS';
+  return null;
+};
+
+// Classifies every drawable route of routes.txt, keyed by route_id.
+export const parseRoutes = (routesTxt: string, agencyTxt: string): Map<string, RouteClassification> => {
+  const agencies = new Map(parseCsv(agencyTxt).map(agency => [agency.agency_id, agency.agency_name]));
+  const defaultAgency = agencies.size === 1 ? [...agencies.values()][0] : '';
+
+  const routes = new Map<string, RouteClassification>();
+  for (const route of parseCsv(routesTxt)) {
+    const routeShortName = route.route_short_name?.trim();
+    const routeType = Number(route.route_type);
+    const vehicleType = classifyRouteType(routeType);
+    if (!routeShortName || !vehicleType) continue;
+
+    routes.set(route.route_id, {
+      routeShortName,
+      routeLongName: route.route_long_name ?? '',
+      vehicleType,
+      routeType,
+      // agency_id is optional in routes.txt when the feed has a single agency
+      agencyName: agencies.get(route.agency_id) ?? defaultAgency,
+      routeColor: /^[0-9a-f]{6}$/i.test(route.route_color ?? '') ? `#${route.route_color.toUpperCase()}` : null,
+    });
+  }
+  return routes;
+};
+
+// Adds a route to the catalogue unless its operator already has that line in
+// the same data source.
+export const addToCatalog = (catalog: RouteCatalog, route: RouteClassification) => {
+  const routes = catalog.get(route.routeShortName) ?? [];
+  if (routes.some(known => known.agencyName === route.agencyName && known.sourceId === route.sourceId)) return;
+  catalog.set(route.routeShortName, [...routes, route]);
+};
+
+// Builds the line catalogue from routes.txt and agency.txt, keyed by
+// route_short_name (the same key the gpsPositions feed uses).
+export const buildRouteCatalog = (routesTxt: string, agencyTxt: string): RouteCatalog => {
+  const catalog: RouteCatalog = new Map();
+  for (const route of parseRoutes(routesTxt, agencyTxt).values()) addToCatalog(catalog, route);
+  return catalog;
+};
+
+// The line run by `agencyName`, looked up in the catalogue of the vehicle's
+// own data source only, so a vehicle never takes the line of another source
+// whose catalogue happened to load. Vehicles that do not name their operator
+// (the gpsPositions feed) get the first line of their source; without a
+// source (e.g. an imported recording) the first line of any source.
+export const findRoute = (
+  catalog: RouteCatalog,
+  routeShortName: string,
+  agencyName?: string,
+  sourceId?: DataSourceId,
+): RouteClassification | undefined => {
+  const routes = catalog.get(routeShortName)?.filter(route => !sourceId || !route.sourceId || route.sourceId === sourceId);
+  return agencyName ? routes?.find(route => route.agencyName === agencyName) : routes?.[0];
+};
+
+export const fetchRouteCatalog = async (url = GTFS_API_URL): Promise<RouteCatalog> => {
+  const files = await loadGtfsFiles(['routes.txt', 'agency.txt'], url);
+  const catalog = buildRouteCatalog(files['routes.txt'], files['agency.txt']);
+  if (catalog.size === 0) throw new ApiError('Plik routes.txt nie zawiera żadnych linii.');
+  return catalog;
+};
+
+// Resolves the vehicle type for a live vehicle: the type its data source
+// already knows, else the one of its line in the catalogue. Lines missing from
+// the GTFS catalogue (e.g. a replacement service added after the feed was
+// published) fall back to the type the same physical vehicle had on a known
+// line, and only then to BUS. `knownTypes` is updated in place.
+export const resolveVehicleType = (
+  vehicle: RawVehicle,
+  catalog: RouteCatalog,
+  knownTypes: Map<number, VehicleType>,
+): VehicleType => {
+  const vehicleType = vehicle.vehicleType ?? findRoute(catalog, vehicle.routeShortName, vehicle.agencyName, vehicle.sourceId)?.vehicleType;
+  if (vehicleType) {
+    knownTypes.set(vehicle.vehicleId, vehicleType);
+    return vehicleType;
+  }
+  return knownTypes.get(vehicle.vehicleId) ?? 'BUS';
+};
+
+interface ShapeVariant {
+  agencyName: string;
+  directionId: number;
+  headsign: string;
+  // shapeId -> trip count
+  counts: Map<string, number>;
+}
+
+// Builds the route geometries of the drawable lines from routes.txt,
+// agency.txt, trips.txt and shapes.txt. Every line gets one shape per
+// operator, direction and headsign: the shape used by most trips of that
+// variant, so short turns and depot runs do not add clutter.
+export const buildRouteShapes = (routesTxt: string, agencyTxt: string, tripsTxt: string, shapesTxt: string): Map<string, RouteShape[]> => {
+  const routes = parseRoutes(routesTxt, agencyTxt);
+
+  // routeShortName -> "agency|directionId|headsign" -> variant
+  const usage = new Map<string, Map<string, ShapeVariant>>();
+  for (const trip of parseCsv(tripsTxt)) {
+    const route = routes.get(trip.route_id);
+    if (!route || !trip.shape_id) continue;
+    const directionId = Number(trip.direction_id) || 0;
+    const headsign = trip.trip_headsign ?? '';
+    const variantKey = `${route.agencyName}|${directionId}|${headsign}`;
+
+    const variants = usage.get(route.routeShortName) ?? new Map<string, ShapeVariant>();
+    const variant = variants.get(variantKey) ?? { agencyName: route.agencyName, directionId, headsign, counts: new Map<string, number>() };
+    variant.counts.set(trip.shape_id, (variant.counts.get(trip.shape_id) ?? 0) + 1);
+    variants.set(variantKey, variant);
+    usage.set(route.routeShortName, variants);
+  }
+
+  const points = new Map<string, { sequence: number; lat: number; lon: number }[]>();
+  for (const point of parseCsv(shapesTxt)) {
+    const lat = Number(point.shape_pt_lat);
+    const lon = Number(point.shape_pt_lon);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+    const list = points.get(point.shape_id) ?? [];
+    list.push({ sequence: Number(point.shape_pt_sequence), lat, lon });
+    points.set(point.shape_id, list);
+  }
+
+  const shapes = new Map<string, RouteShape[]>();
+  for (const [routeShortName, variants] of usage) {
+    const lineShapes: RouteShape[] = [];
+    for (const { agencyName, directionId, headsign, counts } of variants.values()) {
+      const [shapeId] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+      const shapePoints = points.get(shapeId);
+      if (!shapePoints || shapePoints.length < 2) continue;
+
+      lineShapes.push({
+        shapeId,
+        routeShortName,
+        agencyName,
+        headsign,
+        directionId,
+        points: [...shapePoints].sort((a, b) => a.sequence - b.sequence).map(p => [p.lat, p.lon]),
+      });
+    }
+    if (lineShapes.length > 0) shapes.set(routeShortName, lineShapes);
+  }
+  return shapes;
+};
+
+let routeShapesPromise: Promise<Map<string, RouteShape[]>> | null = null;
+
+// shapes.txt is the largest file in the feed, so it is parsed at most once per
+// session and only when a line is actually selected.
+export const fetchRouteShapes = (): Promise<Map<string, RouteShape[]>> => {
+  if (!routeShapesPromise) {
+    routeShapesPromise = loadGtfsFiles(['routes.txt', 'agency.txt', 'trips.txt', 'shapes.txt']).then(files =>
+      buildRouteShapes(files['routes.txt'], files['agency.txt'], files['trips.txt'], files['shapes.txt']),
+    );
+    routeShapesPromise.catch(() => {
+      routeShapesPromise = null;
+    });
+  }
+  return routeShapesPromise;
+};
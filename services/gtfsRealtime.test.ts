@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFixture } from '../server/fixtureFiles';
+import { GtfsRealtimeFeed, buildStaticIndex, decodeVehiclePositions, encodeVehiclePositions, toVehiclesSnapshot } from './gtfsRealtime';
+
+const feed: GtfsRealtimeFeed = JSON.parse(readFixture('gdynia/vehiclePositions.json').toString('utf8'));
+const index = buildStaticIndex(
+  readFixture('gdynia/gtfs/routes.txt').toString('utf8'),
+  readFixture('gdynia/gtfs/agency.txt').toString('utf8'),
+  readFixture('gdynia/gtfs/trips.txt').toString('utf8'),
+);
+const options = () => ({ agencyName: 'ZKM Gdynia', numericIds: new Map<string, number>() });
+
+describe('decodeVehiclePositions', () => {
+  it('reads back what encodeVehiclePositions wrote', () => {
+    const decoded = decodeVehiclePositions(encodeVehiclePositions(feed));
+    assert.equal(decoded.timestamp, feed.timestamp);
+    assert.equal(decoded.vehicles.length, feed.vehicles.length);
+    decoded.vehicles.forEach((vehicle, i) => {
+      const { latitude, longitude, bearing, speed, ...ids } = feed.vehicles[i];
+      const { latitude: decodedLatitude, longitude: decodedLongitude, bearing: decodedBearing, speed: decodedSpeed, ...decodedIds } = vehicle;
+      assert.deepEqual(decodedIds, ids);
+      // Positions, bearings and speeds are float32 on the wire
+      assert.ok(Math.abs(decodedLatitude - latitude) < 1e-5);
+      assert.ok(Math.abs(decodedLongitude - longitude) < 1e-5);
+      assert.ok(Math.abs((decodedBearing ?? 0) - (bearing ?? 0)) < 1e-3);
+      assert.ok(Math.abs((decodedSpeed ?? 0) - (speed ?? 0)) < 1e-5);
+    });
+  });
+
+  it('leaves out a missing header timestamp and optional fields', () => {
+    const decoded = decodeVehiclePositions(encodeVehiclePositions({
+      timestamp: null,
+      vehicles: [{ entityId: 'e1', latitude: 54.5, longitude: 18.5 }],
+    }));
+    assert.equal(decoded.timestamp, null);
+    assert.deepEqual(Object.keys(decoded.vehicles[0]).sort(), ['entityId', 'latitude', 'longitude']);
+  });
+});
+
+describe('toVehiclesSnapshot', () => {
+  it('resolves the line and headsign through the trip', () => {
+    const { vehicles, issues } = toVehiclesSnapshot(feed, index, options());
+    assert.deepEqual(issues, []);
+    const vehicle = vehicles.find(v => v.vehicleCode === '3042');
+    assert.deepEqual(vehicle, {
+      vehicleId: 3042,
+      routeShortName: '21',
+      headsign: 'Chylonia Dworzec PKP',
+      vehicleCode: '3042',
+      speed: 23,
+      lat: 54.52,
+      lon: 18.53,
+      bearing: 320,
+      delay: 0,
+      vehicleType: 'BUS',
+      agencyName: 'ZKM Gdynia',
+    });
+  });
+
+  it('resolves the line of a vehicle with only a route id', () => {
+    const vehicle = toVehiclesSnapshot(feed, index, options()).vehicles.find(v => v.vehicleCode === '2310');
+    assert.equal(vehicle?.routeShortName, '8');
+    assert.equal(vehicle?.headsign, '');
+  });
+
+  it('converts speeds from m/s to km/h', () => {
+    const speeds = toVehiclesSnapshot(feed, index, options()).vehicles.map(v => v.speed);
+    assert.deepEqual(speeds, [23, 25, 20, 0, 29, 32]);
+  });
+
+  it('gives non-numeric vehicle ids stable numbers', () => {
+    const sessionOptions = options();
+    const first = toVehiclesSnapshot(feed, index, sessionOptions).vehicles.find(v => v.vehicleCode === '2231');
+    const second = toVehiclesSnapshot(feed, index, sessionOptions).vehicles.find(v => v.vehicleCode === '2231');
+    assert.equal(first?.vehicleId, 10_000_000);
+    assert.equal(second?.vehicleId, first?.vehicleId);
+    assert.deepEqual([...sessionOptions.numericIds], [['bus-2231', 10_000_000]]);
+  });
+
+  it('takes lastUpdate from the header, else from the newest vehicle', () => {
+    assert.equal(toVehiclesSnapshot(feed, index, options()).lastUpdate, new Date(1715342405_000).toISOString());
+    assert.equal(
+      toVehiclesSnapshot({ ...feed, timestamp: null }, index, options()).lastUpdate,
+      new Date(1715342404_000).toISOString(),
+    );
+    assert.equal(toVehiclesSnapshot({ timestamp: null, vehicles: [] }, index, options()).lastUpdate, '');
+  });
+
+  it('falls back to the source agency and the route id for unknown routes', () => {
+    const { vehicles } = toVehiclesSnapshot({
+      timestamp: null,
+      vehicles: [{ entityId: '5', routeId: 'X9', latitude: 54.5, longitude: 18.5 }],
+    }, index, options());
+    assert.equal(vehicles[0].routeShortName, 'X9');
+    assert.equal(vehicles[0].agencyName, 'ZKM Gdynia');
+    assert.equal(vehicles[0].vehicleType, undefined);
+  });
+});
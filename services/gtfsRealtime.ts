@@ -0,0 +1,205 @@
+import { RawVehicle, RouteClassification, VehiclesSnapshot, ValidationIssue } from '../types';
+import { ProtobufWriter, WIRE_FIXED32, WIRE_LENGTH_DELIMITED, WIRE_VARINT, readMessage } from '../utils/protobuf';
+import { parseCsv } from '../utils/csv';
+import { ApiError, fetchWithRetry, validateRawVehicle } from './apiClient';
+import { loadGtfsFiles, parseRoutes } from './gtfs';
+
+// GTFS-Realtime VehiclePositions feeds (protobuf). Only the fields the map
+// uses are read; field numbers follow gtfs-realtime.proto.
+
+export interface GtfsRealtimeVehicle {
+  entityId: string;
+  // VehicleDescriptor.id and .label
+  vehicleId?: string;
+  label?: string;
+  tripId?: string;
+  routeId?: string;
+  latitude: number;
+  longitude: number;
+  bearing?: number;
+  // Metres per second, as in the feed
+  speed?: number;
+  // POSIX time in seconds
+  timestamp?: number;
+}
+
+export interface GtfsRealtimeFeed {
+  // Header timestamp, POSIX time in seconds
+  timestamp: number | null;
+  vehicles: GtfsRealtimeVehicle[];
+}
+
+const readTrip = (bytes: Uint8Array, vehicle: GtfsRealtimeVehicle) => readMessage(bytes, (field, wireType, reader) => {
+  if (wireType !== WIRE_LENGTH_DELIMITED) return false;
+  if (field === 1) vehicle.tripId = reader.readString();
+  else if (field === 5) vehicle.routeId = reader.readString();
+  else return false;
+  return true;
+});
+
+const readDescriptor = (bytes: Uint8Array, vehicle: GtfsRealtimeVehicle) => readMessage(bytes, (field, wireType, reader) => {
+  if (wireType !== WIRE_LENGTH_DELIMITED) return false;
+  if (field === 1) vehicle.vehicleId = reader.readString();
+  else if (field === 2) vehicle.label = reader.readString();
+  else return false;
+  return true;
+});
+
+const readPosition = (bytes: Uint8Array, vehicle: GtfsRealtimeVehicle) => readMessage(bytes, (field, wireType, reader) => {
+  if (wireType !== WIRE_FIXED32) return false;
+  if (field === 1) vehicle.latitude = reader.readFloat();
+  else if (field === 2) vehicle.longitude = reader.readFloat();
+  else if (field === 3) vehicle.bearing = reader.readFloat();
+  else if (field === 5) vehicle.speed = reader.readFloat();
+  else return false;
+  return true;
+});
+
+// Returns null for entities without a vehicle position (e.g. trip updates).
+const readEntity = (bytes: Uint8Array): GtfsRealtimeVehicle | null => {
+  const vehicle: GtfsRealtimeVehicle = { entityId: '', latitude: NaN, longitude: NaN };
+  let hasPosition = false;
+  readMessage(bytes, (field, wireType, reader) => {
+    if (field === 1 && wireType === WIRE_LENGTH_DELIMITED) {
+      vehicle.entityId = reader.readString();
+    } else if (field === 4 && wireType === WIRE_LENGTH_DELIMITED) {
+      readMessage(reader.readBytes(), (vpField, vpWireType, vpReader) => {
+        if (vpWireType === WIRE_LENGTH_DELIMITED && vpField === 1) readTrip(vpReader.readBytes(), vehicle);
+        else if (vpWireType === WIRE_LENGTH_DELIMITED && vpField === 8) readDescriptor(vpReader.readBytes(), vehicle);
+        else if (vpWireType === WIRE_LENGTH_DELIMITED && vpField === 2) {
+          readPosition(vpReader.readBytes(), vehicle);
+          hasPosition = true;
+        } else if (vpWireType === WIRE_VARINT && vpField === 5) vehicle.timestamp = vpReader.readVarint();
+        else return false;
+        return true;
+      });
+    } else {
+      return false;
+    }
+    return true;
+  });
+  return hasPosition ? vehicle : null;
+};
+
+// Decodes a FeedMessage. Throws when the bytes are not valid protobuf.
+export const decodeVehiclePositions = (bytes: Uint8Array): GtfsRealtimeFeed => {
+  const feed: GtfsRealtimeFeed = { timestamp: null, vehicles: [] };
+  readMessage(bytes, (field, wireType, reader) => {
+    if (wireType !== WIRE_LENGTH_DELIMITED) return false;
+    if (field === 1) {
+      readMessage(reader.readBytes(), (headerField, headerWireType, headerReader) => {
+        if (headerField !== 3 || headerWireType !== WIRE_VARINT) return false;
+        feed.timestamp = headerReader.readVarint();
+        return true;
+      });
+    } else if (field === 2) {
+      const vehicle = readEntity(reader.readBytes());
+      if (vehicle) feed.vehicles.push(vehicle);
+    } else {
+      return false;
+    }
+    return true;
+  });
+  return feed;
+};
+
+// The inverse of decodeVehiclePositions, for fixtures and the mock upstream.
+export const encodeVehiclePositions = (feed: GtfsRealtimeFeed): Uint8Array => {
+  const message = new ProtobufWriter();
+  const header = new ProtobufWriter().string(1, '2.0').varint(2, 0);
+  if (feed.timestamp !== null) header.varint(3, feed.timestamp);
+  message.message(1, header);
+
+  for (const v of feed.vehicles) {
+    const trip = new ProtobufWriter();
+    if (v.tripId !== undefined) trip.string(1, v.tripId);
+    if (v.routeId !== undefined) trip.string(5, v.routeId);
+    const descriptor = new ProtobufWriter();
+    if (v.vehicleId !== undefined) descriptor.string(1, v.vehicleId);
+    if (v.label !== undefined) descriptor.string(2, v.label);
+    const position = new ProtobufWriter().float(1, v.latitude).float(2, v.longitude);
+    if (v.bearing !== undefined) position.float(3, v.bearing);
+    if (v.speed !== undefined) position.float(5, v.speed);
+
+    const vehiclePosition = new ProtobufWriter().message(1, trip).message(2, position).message(8, descriptor);
+    if (v.timestamp !== undefined) vehiclePosition.varint(5, v.timestamp);
+    message.message(2, new ProtobufWriter().string(1, v.entityId).message(4, vehiclePosition));
+  }
+  return message.finish();
+};
+
+// Static data needed to turn route and trip ids into lines and headsigns
+export interface GtfsStaticIndex {
+  routes: Map<string, RouteClassification>;
+  trips: Map<string, { routeId: string; headsign: string }>;
+}
+
+export const buildStaticIndex = (routesTxt: string, agencyTxt: string, tripsTxt: string): GtfsStaticIndex => ({
+  routes: parseRoutes(routesTxt, agencyTxt),
+  trips: new Map(parseCsv(tripsTxt).map(trip => [trip.trip_id, { routeId: trip.route_id, headsign: trip.trip_headsign ?? '' }])),
+});
+
+// Converts decoded positions into validated vehicles. The feed has no delay,
+// so vehicles count as on time. Vehicle ids that are not numeric get stable
+// numbers for the session from `numericIds`.
+export const toVehiclesSnapshot = (
+  feed: GtfsRealtimeFeed,
+  index: GtfsStaticIndex,
+  options: { agencyName: string; numericIds: Map<string, number> },
+): VehiclesSnapshot => {
+  const vehicles: RawVehicle[] = [];
+  const issues: ValidationIssue[] = [];
+
+  feed.vehicles.forEach((v, i) => {
+    const key = v.vehicleId ?? v.entityId;
+    let id = /^\d{1,7}$/.test(key) ? Number(key) : options.numericIds.get(key);
+    if (id === undefined) {
+      // Above the range of numeric fleet numbers
+      id = 10_000_000 + options.numericIds.size;
+      options.numericIds.set(key, id);
+    }
+    const trip = v.tripId !== undefined ? index.trips.get(v.tripId) : undefined;
+    const routeId = v.routeId ?? trip?.routeId;
+    const route = routeId !== undefined ? index.routes.get(routeId) : undefined;
+
+    const { vehicle, issue } = validateRawVehicle({
+      vehicleId: id,
+      routeShortName: route?.routeShortName ?? routeId,
+      headsign: trip?.headsign ?? '',
+      vehicleCode: v.label || key,
+      speed: v.speed !== undefined ? Math.round(v.speed * 3.6) : undefined,
+      // Positions are float32 in the feed; keep the precision of gpsPositions
+      lat: Number(v.latitude.toFixed(6)),
+      lon: Number(v.longitude.toFixed(6)),
+      bearing: v.bearing,
+      delay: 0,
+      vehicleType: route?.vehicleType,
+      agencyName: route?.agencyName || options.agencyName,
+    }, i);
+    if (vehicle) vehicles.push(vehicle);
+    if (issue) issues.push(issue);
+  });
+
+  const times = feed.vehicles.map(v => v.timestamp ?? 0);
+  const timestamp = feed.timestamp ?? (times.length > 0 ? Math.max(...times) : 0);
+  return {
+    lastUpdate: timestamp > 0 ? new Date(timestamp * 1000).toISOString() : '',
+    vehicles,
+    issues,
+  };
+};
+
+export const fetchVehiclePositions = async (url: string): Promise<GtfsRealtimeFeed> => {
+  const response = await fetchWithRetry(url);
+  if (!response.ok) throw new ApiError(`Błąd HTTP: ${response.status}`, response.status);
+  try {
+    return decodeVehiclePositions(new Uint8Array(await response.arrayBuffer()));
+  } catch (error) {
+    throw new ApiError(`Nieprawidłowy komunikat GTFS-Realtime z ${url}: ${(error as Error).message}`);
+  }
+};
+
+export const fetchStaticIndex = async (gtfsUrl: string): Promise<GtfsStaticIndex> => {
+  const files = await loadGtfsFiles(['routes.txt', 'agency.txt', 'trips.txt'], gtfsUrl);
+  return buildStaticIndex(files['routes.txt'], files['agency.txt'], files['trips.txt']);
+};
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RouteShape, Vehicle } from '../types';
+import { analyzeHeadways } from './headways';
+
+const GAIT = 'Gdańskie Autobusy i Tramwaje';
+
+// A straight route about 10 km due north, with a point every ~1.1 km
+const shape: RouteShape = {
+  shapeId: 'shape-8-1',
+  routeShortName: '8',
+  agencyName: GAIT,
+  headsign: 'Jelitkowo',
+  directionId: 0,
+  points: Array.from({ length: 10 }, (_, i): [number, number] => [54.3 + i * 0.01, 18.6]),
+};
+const shapes = new Map([['8', [shape]]]);
+
+// A vehicle of line 8 heading north at the given latitude
+const vehicle = (vehicleId: number, lat: number, overrides: Partial<Vehicle> = {}): Vehicle => ({
+  vehicleId,
+  routeShortName: '8',
+  headsign: 'Jelitkowo',
+  vehicleCode: String(vehicleId),
+  vehicleType: 'TRAM',
+  agencyName: GAIT,
+  speed: 20,
+  lat,
+  lon: 18.6,
+  bearing: 0,
+  delay: 0,
+  ...overrides,
+});
+
+describe('analyzeHeadways', () => {
+  it('flags vehicles running close together as bunched', () => {
+    const { issues, analysedGroups } = analyzeHeadways([vehicle(1, 54.32), vehicle(2, 54.3215), vehicle(3, 54.36)], shapes);
+    assert.equal(analysedGroups, 1);
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0].kind, 'BUNCHED');
+    assert.equal(issues[0].follower.vehicleId, 1);
+    assert.equal(issues[0].leader.vehicleId, 2);
+    assert.equal(issues[0].isAlongShape, true);
+    assert.ok(Math.abs(issues[0].distanceMeters - 167) < 5);
+  });
+
+  it('flags a stretch over twice the even spacing as a gap', () => {
+    const { issues } = analyzeHeadways([vehicle(1, 54.305), vehicle(2, 54.32), vehicle(3, 54.385)], shapes);
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.follower.vehicleId, issue.leader.vehicleId]), [['GAP', 2, 3]]);
+    // Follows the shape from the follower to the leader
+    assert.deepEqual(issues[0].path[0], [54.32, 18.6]);
+    assert.ok(Math.abs(issues[0].path[issues[0].path.length - 1][0] - 54.385) < 1e-9);
+  });
+
+  it('leaves out vehicles laying over at a terminus', () => {
+    const { issues, analysedGroups } = analyzeHeadways(
+      [vehicle(1, 54.3001), vehicle(2, 54.3012), vehicle(3, 54.33), vehicle(4, 54.36)],
+      shapes,
+    );
+    assert.equal(analysedGroups, 1);
+    assert.deepEqual(issues, []);
+  });
+
+  it('does not pair vehicles of different operators on the same line number', () => {
+    const vehicles = [vehicle(1, 54.32), vehicle(2, 54.3209, { agencyName: 'ZKM Gdynia' })];
+    assert.deepEqual(analyzeHeadways(vehicles, shapes), { issues: [], analysedGroups: 0 });
+
+    const sameOperator = analyzeHeadways([vehicle(1, 54.32), vehicle(2, 54.3209)], shapes);
+    assert.deepEqual(sameOperator.issues.map(issue => [issue.kind, issue.agencyName]), [['BUNCHED', GAIT]]);
+  });
+});
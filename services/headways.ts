@@ -0,0 +1,240 @@
+import { RouteShape, Vehicle } from '../types';
+import { METERS_PER_DEGREE_LAT, distanceMeters } from '../utils/motion';
+import { normalizeSearchText } from '../utils/vehicleSearch';
+
+// A pair closer than this share of the expected headway is bunched, one
+// further apart than GAP_RATIO times the expected headway leaves a gap.
+const BUNCHED_RATIO = 0.25;
+const GAP_RATIO = 2;
+// Vehicles this close are bunched whatever the frequency of the line
+const BUNCHED_DISTANCE_METERS = 200;
+// Vehicles further than this from the shape of their line are off route
+const MAX_SHAPE_OFFSET_METERS = 150;
+// Vehicles laying over at a terminus would always look bunched
+const TERMINUS_METERS = 200;
+// Without a shape the order is only a guess; it needs a few vehicles to be useful
+const MIN_VEHICLES_WITHOUT_SHAPE = 3;
+// A stationary pair says nothing about how fast the line moves
+const MIN_MOVING_SPEED = 10; // km/h
+// Typical scheduled speed of city lines, used when no vehicle of the line moves
+const DEFAULT_SPEED = 18; // km/h
+
+// Seconds to minutes with one decimal, as headways are shown
+export const toMinutes = (seconds: number) => Math.round(seconds / 6) / 10;
+
+export type HeadwayIssueKind = 'BUNCHED' | 'GAP';
+
+export interface HeadwayIssue {
+  kind: HeadwayIssueKind;
+  agencyName: string;
+  routeShortName: string;
+  headsign: string;
+  // The vehicle in front and the one following it
+  leader: Vehicle;
+  follower: Vehicle;
+  distanceMeters: number;
+  // Time the follower needs to reach the leader's position
+  headwaySeconds: number;
+  // Headway if the vehicles of the line and headsign were evenly spaced
+  expectedHeadwaySeconds: number;
+  // Along the route shape, or a straight line when the line has no shape
+  isAlongShape: boolean;
+  // Positions from the follower to the leader, for drawing on the map
+  path: [number, number][];
+}
+
+export interface HeadwayAnalysis {
+  issues: HeadwayIssue[];
+  // Line and headsign groups with at least two vehicles
+  analysedGroups: number;
+}
+
+interface ShapeGeometry {
+  points: [number, number][];
+  // Distance in metres from the first point to each point
+  cumulative: number[];
+  length: number;
+}
+
+// Shapes do not change between polls, so their lengths are measured once.
+const geometries = new WeakMap<RouteShape, ShapeGeometry>();
+
+const getGeometry = (shape: RouteShape): ShapeGeometry => {
+  let geometry = geometries.get(shape);
+  if (!geometry) {
+    const cumulative = [0];
+    for (let i = 1; i < shape.points.length; i++) {
+      const [lat1, lon1] = shape.points[i - 1];
+      const [lat2, lon2] = shape.points[i];
+      cumulative.push(cumulative[i - 1] + distanceMeters(lat1, lon1, lat2, lon2));
+    }
+    geometry = { points: shape.points, cumulative, length: cumulative[cumulative.length - 1] };
+    geometries.set(shape, geometry);
+  }
+  return geometry;
+};
+
+// Distance along the shape of the point nearest to the position, and how far
+// the position is from it. Flat-earth maths around each segment.
+const projectOntoShape = (geometry: ShapeGeometry, lat: number, lon: number) => {
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180);
+  let best = { along: 0, offset: Infinity };
+  for (let i = 1; i < geometry.points.length; i++) {
+    const [lat1, lon1] = geometry.points[i - 1];
+    const [lat2, lon2] = geometry.points[i];
+    const segX = (lon2 - lon1) * metersPerDegreeLon;
+    const segY = (lat2 - lat1) * METERS_PER_DEGREE_LAT;
+    const x = (lon - lon1) * metersPerDegreeLon;
+    const y = (lat - lat1) * METERS_PER_DEGREE_LAT;
+    const segLength2 = segX * segX + segY * segY;
+    const share = segLength2 === 0 ? 0 : Math.min(1, Math.max(0, (x * segX + y * segY) / segLength2));
+    const offset = Math.hypot(x - share * segX, y - share * segY);
+    if (offset < best.offset) {
+      best = { along: geometry.cumulative[i - 1] + share * Math.sqrt(segLength2), offset };
+    }
+  }
+  return best;
+};
+
+const pointAt = (geometry: ShapeGeometry, along: number): [number, number] => {
+  const i = geometry.cumulative.findIndex(distance => distance >= along);
+  if (i <= 0) return geometry.points[Math.max(i, 0)];
+  const [lat1, lon1] = geometry.points[i - 1];
+  const [lat2, lon2] = geometry.points[i];
+  const segLength = geometry.cumulative[i] - geometry.cumulative[i - 1];
+  const share = segLength === 0 ? 0 : (along - geometry.cumulative[i - 1]) / segLength;
+  return [lat1 + (lat2 - lat1) * share, lon1 + (lon2 - lon1) * share];
+};
+
+// The stretch of the shape between two distances along it.
+const slice = (geometry: ShapeGeometry, from: number, to: number): [number, number][] => [
+  pointAt(geometry, from),
+  ...geometry.points.filter((_, i) => geometry.cumulative[i] > from && geometry.cumulative[i] < to),
+  pointAt(geometry, to),
+];
+
+interface OrderedVehicle {
+  vehicle: Vehicle;
+  // Metres travelled along the route (or the direction of travel)
+  progress: number;
+}
+
+// Orders vehicles along the shape of their line and headsign. Vehicles off
+// the shape or at either terminus are left out.
+const orderAlongShape = (vehicles: Vehicle[], geometry: ShapeGeometry): OrderedVehicle[] =>
+  vehicles
+    .map(vehicle => ({ vehicle, ...projectOntoShape(geometry, vehicle.lat, vehicle.lon) }))
+    .filter(({ along, offset }) =>
+      offset <= MAX_SHAPE_OFFSET_METERS && along >= TERMINUS_METERS && along <= geometry.length - TERMINUS_METERS)
+    .map(({ vehicle, along }) => ({ vehicle, progress: along }))
+    .sort((a, b) => a.progress - b.progress);
+
+// Without a shape, vehicles are ordered along the mean heading of the moving
+// ones, which holds for roughly straight lines only.
+const orderAlongHeading = (vehicles: Vehicle[]): OrderedVehicle[] => {
+  const moving = vehicles.filter(v => v.speed >= MIN_MOVING_SPEED);
+  if (moving.length === 0) return [];
+  const x = moving.reduce((sum, v) => sum + Math.sin((v.bearing * Math.PI) / 180), 0);
+  const y = moving.reduce((sum, v) => sum + Math.cos((v.bearing * Math.PI) / 180), 0);
+  const length = Math.hypot(x, y);
+  // Headings cancel out, e.g. a loop line
+  if (length < moving.length / 2) return [];
+
+  const [originLat, originLon] = [vehicles[0].lat, vehicles[0].lon];
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos((originLat * Math.PI) / 180);
+  return vehicles
+    .map(vehicle => ({
+      vehicle,
+      progress: ((vehicle.lon - originLon) * metersPerDegreeLon * x + (vehicle.lat - originLat) * METERS_PER_DEGREE_LAT * y) / length,
+    }))
+    .sort((a, b) => a.progress - b.progress);
+};
+
+const findShape = (shapes: Map<string, RouteShape[]> | null, { agencyName, routeShortName, headsign }: Vehicle) => {
+  const normalized = normalizeSearchText(headsign.trim());
+  return shapes?.get(routeShortName)?.find(shape =>
+    shape.agencyName === agencyName && normalizeSearchText(shape.headsign.trim()) === normalized);
+};
+
+const averageMovingSpeed = (vehicles: Vehicle[]) => {
+  const moving = vehicles.filter(v => v.speed >= MIN_MOVING_SPEED);
+  return moving.length > 0 ? moving.reduce((sum, v) => sum + v.speed, 0) / moving.length : DEFAULT_SPEED;
+};
+
+// Finds bunched pairs and gaps among the vehicles of every line and headsign.
+// Vehicles are ordered along the route shape when it is known; headways are
+// the distance between neighbours divided by their speed, or by the average
+// speed of the line while they stand at a stop.
+export const analyzeHeadways = (vehicles: Vehicle[], shapes: Map<string, RouteShape[]> | null): HeadwayAnalysis => {
+  const groups = new Map<string, Vehicle[]>();
+  for (const vehicle of vehicles) {
+    if (vehicle.headsign.trim() === '') continue;
+    // Line numbers repeat between operators
+    const key = `${vehicle.agencyName}|${vehicle.routeShortName}|${vehicle.headsign}`;
+    const group = groups.get(key);
+    if (group) group.push(vehicle);
+    else groups.set(key, [vehicle]);
+  }
+
+  const issues: HeadwayIssue[] = [];
+  let analysedGroups = 0;
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const { agencyName, routeShortName, headsign } = group[0];
+    const shape = findShape(shapes, group[0]);
+    const geometry = shape ? getGeometry(shape) : null;
+    if (!geometry && group.length < MIN_VEHICLES_WITHOUT_SHAPE) continue;
+
+    const ordered = geometry ? orderAlongShape(group, geometry) : orderAlongHeading(group);
+    if (ordered.length < 2) continue;
+    analysedGroups++;
+
+    const lineSpeed = averageMovingSpeed(group);
+    // Even spacing: the whole route shared by the vehicles placed on it (not
+    // those skipped at a terminus or off the route), or without a shape the
+    // mean distance between neighbours
+    const expectedDistance = geometry
+      ? geometry.length / ordered.length
+      : (ordered[ordered.length - 1].progress - ordered[0].progress) / (ordered.length - 1);
+    const expectedHeadwaySeconds = expectedDistance / (lineSpeed / 3.6);
+
+    for (let i = 1; i < ordered.length; i++) {
+      const follower = ordered[i - 1];
+      const leader = ordered[i];
+      const distance = leader.progress - follower.progress;
+      const pairSpeed = (follower.vehicle.speed + leader.vehicle.speed) / 2;
+      const headwaySeconds = distance / ((pairSpeed >= MIN_MOVING_SPEED ? pairSpeed : lineSpeed) / 3.6);
+
+      const kind: HeadwayIssueKind | null =
+        distance <= BUNCHED_DISTANCE_METERS || headwaySeconds <= expectedHeadwaySeconds * BUNCHED_RATIO
+          ? 'BUNCHED'
+          : headwaySeconds >= expectedHeadwaySeconds * GAP_RATIO
+          ? 'GAP'
+          : null;
+      if (!kind) continue;
+
+      issues.push({
+        kind,
+        agencyName,
+        routeShortName,
+        headsign,
+        leader: leader.vehicle,
+        follower: follower.vehicle,
+        distanceMeters: distance,
+        headwaySeconds,
+        expectedHeadwaySeconds,
+        isAlongShape: geometry !== null,
+        path: geometry
+          ? slice(geometry, follower.progress, leader.progress)
+          : [[follower.vehicle.lat, follower.vehicle.lon], [leader.vehicle.lat, leader.vehicle.lon]],
+      });
+    }
+  }
+
+  // Bunched pairs first, each kind from the most to the least irregular
+  const severity = (issue: HeadwayIssue) => issue.kind === 'BUNCHED'
+    ? issue.expectedHeadwaySeconds / Math.max(issue.headwaySeconds, 1)
+    : issue.headwaySeconds / issue.expectedHeadwaySeconds;
+  issues.sort((a, b) => (a.kind === b.kind ? severity(b) - severity(a) : a.kind === 'BUNCHED' ? -1 : 1));
+  return { issues, analysedGroups };
+};
@@ -0,0 +1,60 @@
+import { RouteCatalog, Vehicle } from '../types';
+
+// Last known data, kept in IndexedDB so the app can open offline (or before
+// the first response arrives) with the previous snapshot.
+
+const DB_NAME = 'gdanskTransportMap';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+
+export interface CachedVehicles {
+  lastUpdate: string;
+  vehicles: Vehicle[];
+}
+
+interface CachedEntries {
+  vehicles: CachedVehicles;
+  // Saved under routeCatalog before lines had one entry per operator
+  lineCatalog: RouteCatalog;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (private mode, blocked storage) is retried on the next call.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+export const loadCached = async <K extends keyof CachedEntries>(key: K): Promise<CachedEntries[K] | null> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => resolve(request.result ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveCached = async <K extends keyof CachedEntries>(key: K, value: CachedEntries[K]): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRecording } from './recording';
+
+const point = (vehicleId: number, coordinates: unknown) => ({
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates },
+  properties: { vehicleId, routeShortName: '8', headsign: 'Jelitkowo', vehicleCode: String(vehicleId), lastUpdate: '2024-05-01T12:00:00Z' },
+});
+
+describe('parseRecording', () => {
+  it('skips GeoJSON features without a usable position', () => {
+    const text = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        point(1, [18.65, 54.35]),
+        point(2, ['18.65', '54.35']),
+        point(3, [18.65]),
+        point(4, null),
+        { type: 'Feature', geometry: null, properties: {} },
+        null,
+      ],
+    });
+    const [snapshot, ...rest] = parseRecording(text);
+    assert.equal(rest.length, 0);
+    assert.deepEqual(snapshot.vehicles.map(v => [v.vehicleId, v.lat, v.lon]), [[1, 54.35, 18.65]]);
+  });
+
+  it('rejects a GeoJSON file without any valid feature', () => {
+    const text = JSON.stringify({ type: 'FeatureCollection', features: [point(4, null)] });
+    assert.throws(() => parseRecording(text), /No vehicle records/);
+  });
+});
@@ -0,0 +1,140 @@
+import { RawVehicle, RecordedSnapshot } from '../types';
+import { isRecord, parseVehiclesPayload, validateRawVehicle } from './apiClient';
+import { csvField, parseCsv } from '../utils/csv';
+
+// Keeps every changed snapshot of the vehicle feed for the current session.
+// Snapshots stay in memory only; export them before closing the tab.
+export class SessionRecorder {
+  private snapshots: RecordedSnapshot[] = [];
+
+  // Unchanged snapshots are skipped by the caller; with several feeds merged
+  // into one snapshot, its lastUpdate alone does not tell whether it changed.
+  record(lastUpdate: string, vehicles: RawVehicle[]) {
+    this.snapshots.push({ lastUpdate, vehicles });
+  }
+
+  get size() {
+    return this.snapshots.length;
+  }
+
+  getSnapshots(): RecordedSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  clear() {
+    this.snapshots = [];
+  }
+}
+
+// vehicleType and agencyName are only filled for feeds that provide them.
+const COLUMNS: (keyof RawVehicle)[] = ['vehicleId', 'vehicleCode', 'routeShortName', 'headsign', 'lat', 'lon', 'speed', 'bearing', 'delay', 'vehicleType', 'agencyName'];
+
+// One row per vehicle and snapshot.
+export const recordingToCsv = (snapshots: RecordedSnapshot[]): string => {
+  const header = ['lastUpdate', ...COLUMNS].join(',');
+  const rows = snapshots.flatMap(snapshot => snapshot.vehicles.map(vehicle =>
+    [snapshot.lastUpdate, ...COLUMNS.map(column => vehicle[column])].map(csvField).join(',')));
+  return [header, ...rows].join('\n') + '\n';
+};
+
+// A Point per vehicle and snapshot, plus a LineString per vehicle with the
+// time of every vertex in `times`.
+export const recordingToGeoJson = (snapshots: RecordedSnapshot[]): string => {
+  const points = snapshots.flatMap(snapshot => snapshot.vehicles.map(({ lat, lon, ...properties }) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [lon, lat] },
+    properties: { lastUpdate: snapshot.lastUpdate, ...properties },
+  })));
+
+  const tracks = new Map<number, { vehicle: RawVehicle; coordinates: number[][]; times: string[]; lines: Set<string> }>();
+  for (const snapshot of snapshots) {
+    for (const vehicle of snapshot.vehicles) {
+      const track = tracks.get(vehicle.vehicleId) ?? { vehicle, coordinates: [], times: [], lines: new Set<string>() };
+      track.coordinates.push([vehicle.lon, vehicle.lat]);
+      track.times.push(snapshot.lastUpdate);
+      track.lines.add(vehicle.routeShortName);
+      tracks.set(vehicle.vehicleId, track);
+    }
+  }
+  // A LineString needs at least two positions.
+  const lines = [...tracks.values()]
+    .filter(track => track.coordinates.length > 1)
+    .map(track => ({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: track.coordinates },
+      properties: {
+        vehicleId: track.vehicle.vehicleId,
+        vehicleCode: track.vehicle.vehicleCode,
+        routeShortNames: [...track.lines],
+        times: track.times,
+      },
+    }));
+
+  return JSON.stringify({ type: 'FeatureCollection', features: [...points, ...lines] });
+};
+
+// One gpsPositions-like object ({ lastUpdate, vehicles }) per line, so every
+// line can be read by the same parser as the live feed.
+export const recordingToNdjson = (snapshots: RecordedSnapshot[]): string =>
+  snapshots.map(snapshot => JSON.stringify(snapshot)).join('\n') + '\n';
+
+// Groups validated records into snapshots ordered by time.
+const groupSnapshots = (records: { lastUpdate: string; record: unknown }[]): RecordedSnapshot[] => {
+  const byUpdate = new Map<string, RawVehicle[]>();
+  records.forEach(({ lastUpdate, record }, index) => {
+    const { vehicle } = validateRawVehicle(record, index);
+    if (!vehicle) return;
+    const vehicles = byUpdate.get(lastUpdate) ?? [];
+    vehicles.push(vehicle);
+    byUpdate.set(lastUpdate, vehicles);
+  });
+  return [...byUpdate].map(([lastUpdate, vehicles]) => ({ lastUpdate, vehicles }));
+};
+
+// Only point features with a time and a [lon, lat] position are read; other
+// features (e.g. the track lines) and malformed ones are skipped.
+const parseGeoJson = (data: { features?: unknown }): RecordedSnapshot[] => {
+  if (!Array.isArray(data.features)) throw new Error('GeoJSON without features');
+  const records: { lastUpdate: string; record: unknown }[] = [];
+  for (const feature of data.features as unknown[]) {
+    if (!isRecord(feature) || !isRecord(feature.geometry) || !isRecord(feature.properties)) continue;
+    const { geometry, properties } = feature;
+    if (geometry.type !== 'Point' || typeof properties.lastUpdate !== 'string') continue;
+    const { coordinates } = geometry;
+    if (!Array.isArray(coordinates) || coordinates.length < 2 || !coordinates.slice(0, 2).every(c => typeof c === 'number')) continue;
+    records.push({ lastUpdate: properties.lastUpdate, record: { ...properties, lon: coordinates[0], lat: coordinates[1] } });
+  }
+  return groupSnapshots(records);
+};
+
+// Reads a recording exported in any of the formats above. Records are
+// validated like live data; invalid ones are skipped. Throws when the file is
+// not a recording at all.
+export const parseRecording = (text: string): RecordedSnapshot[] => {
+  let snapshots: RecordedSnapshot[];
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{')) {
+    let whole: unknown = null;
+    try {
+      whole = JSON.parse(trimmed);
+    } catch {
+      // Several JSON objects, i.e. NDJSON
+    }
+    if (whole && (whole as { type?: unknown }).type === 'FeatureCollection') {
+      snapshots = parseGeoJson(whole as { features?: unknown });
+    } else {
+      snapshots = trimmed.split(/\r?\n/)
+        .filter(line => line.trim() !== '')
+        .map(line => parseVehiclesPayload(JSON.parse(line)))
+        .map(({ lastUpdate, vehicles }) => ({ lastUpdate, vehicles }));
+    }
+  } else {
+    snapshots = groupSnapshots(parseCsv(trimmed).map(({ lastUpdate, ...record }) => ({ lastUpdate: lastUpdate ?? '', record })));
+  }
+
+  snapshots = snapshots.filter(snapshot => snapshot.vehicles.length > 0);
+  if (snapshots.length === 0) throw new Error('No vehicle records in the recording');
+  // Stable sort keeps the file order for snapshots without a timestamp.
+  return snapshots.sort((a, b) => (Date.parse(a.lastUpdate) || 0) - (Date.parse(b.lastUpdate) || 0));
+};
@@ -0,0 +1,92 @@
+import { HistorySample, Vehicle } from '../types';
+
+export const DEFAULT_HISTORY_WINDOW_MINUTES = 30;
+
+// Keeps recent positions of every vehicle in memory. Each poll appends one
+// sample per vehicle; samples older than the window are pruned on every
+// record, and vehicles without samples left are forgotten.
+export class VehicleHistoryStore {
+  private tracks = new Map<number, HistorySample[]>();
+  private lastSnapshotTime = 0;
+  private windowMs: number;
+
+  constructor(windowMinutes = DEFAULT_HISTORY_WINDOW_MINUTES) {
+    this.windowMs = windowMinutes * 60_000;
+  }
+
+  setWindow(minutes: number) {
+    this.windowMs = minutes * 60_000;
+    this.prune(this.lastSnapshotTime);
+  }
+
+  // Returns false when the snapshot was already recorded (its time has not advanced).
+  record(snapshotTime: number, vehicles: Vehicle[]): boolean {
+    if (snapshotTime <= this.lastSnapshotTime) return false;
+    this.lastSnapshotTime = snapshotTime;
+
+    for (const v of vehicles) {
+      const track = this.tracks.get(v.vehicleId) ?? [];
+      track.push({
+        time: snapshotTime,
+        lat: v.lat,
+        lon: v.lon,
+        speed: v.speed,
+        bearing: v.bearing,
+        delay: v.delay,
+        routeShortName: v.routeShortName,
+        headsign: v.headsign,
+      });
+      this.tracks.set(v.vehicleId, track);
+    }
+
+    this.prune(snapshotTime);
+    return true;
+  }
+
+  reset() {
+    this.tracks.clear();
+    this.lastSnapshotTime = 0;
+  }
+
+  // Returns a copy, so callers can memoize on the array identity.
+  getTrack(vehicleId: number): HistorySample[] {
+    return [...(this.tracks.get(vehicleId) ?? [])];
+  }
+
+  private prune(now: number) {
+    const cutoff = now - this.windowMs;
+    for (const [vehicleId, track] of this.tracks) {
+      const firstKept = track.findIndex(sample => sample.time >= cutoff);
+      if (firstKept === -1) {
+        this.tracks.delete(vehicleId);
+      } else if (firstKept > 0) {
+        track.splice(0, firstKept);
+      }
+    }
+  }
+}
+
+// Interpolates the state of a vehicle at `time` from its track. Position,
+// speed and delay are interpolated linearly; line and headsign come from the
+// earlier sample.
+export const sampleAt = (track: HistorySample[], time: number): HistorySample | null => {
+  if (track.length === 0) return null;
+  if (time <= track[0].time) return track[0];
+  const last = track[track.length - 1];
+  if (time >= last.time) return last;
+
+  const nextIndex = track.findIndex(sample => sample.time > time);
+  const before = track[nextIndex - 1];
+  const after = track[nextIndex];
+  const t = (time - before.time) / (after.time - before.time);
+  const lerp = (a: number, b: number) => a + (b - a) * t;
+
+  return {
+    ...before,
+    time,
+    lat: lerp(before.lat, after.lat),
+    lon: lerp(before.lon, after.lon),
+    speed: lerp(before.speed, after.speed),
+    delay: lerp(before.delay, after.delay),
+  };
+};
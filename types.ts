@@ -1,14 +1,49 @@
+export type VehicleType = "BUS" | "TRAM";
+
+export type IconShape = 'vehicle' | 'dot' | 'pin';
+
+// What the marker color of a vehicle shows (see utils/markerStyle.ts)
+export type MarkerColorRule = 'TYPE' | 'DELAY' | 'LINE' | 'SPEED' | 'AGENCY';
+export type MarkerLabel = 'LINE' | 'HEADSIGN' | 'FLEET_NUMBER' | 'DELAY';
+
+// Colors between stops are interpolated; values are in ascending order.
+export interface ColorStop {
+  value: number;
+  color: string;
+}
+
+// Everything that decides how vehicle markers look. Saved with the settings
+// and exported or imported as JSON.
+export interface MarkerTheme {
+  colorRule: MarkerColorRule;
+  busColor: string;
+  tramColor: string;
+  busIconShape: IconShape;
+  tramIconShape: IconShape;
+  // Delay in seconds
+  delayGradient: ColorStop[];
+  // Speed in km/h
+  speedGradient: ColorStop[];
+  // Operators without a color here get one from the line palette
+  agencyColors: Record<string, string>;
+  // Text shown under each marker, in this order
+  labels: MarkerLabel[];
+}
+
 export interface Vehicle {
   vehicleId: number;
   routeShortName: string;
   headsign: string;
   vehicleCode: string;
-  vehicleType: "BUS" | "TRAM";
+  vehicleType: VehicleType;
+  agencyName: string;
   speed: number;
   lat: number;
   lon: number;
   bearing: number;
   delay: number;
+  // As in RawVehicle
+  sourceId?: DataSourceId;
 }
 
 export interface RawVehicle {
@@ -21,6 +56,12 @@ export interface RawVehicle {
   lon: number;
   bearing: number;
   delay: number;
+  // Set by data sources that resolve the line themselves (see
+  // services/dataSources.ts); otherwise looked up in the route catalogue
+  vehicleType?: VehicleType;
+  agencyName?: string;
+  // Set when the snapshots of several data sources are merged
+  sourceId?: DataSourceId;
 }
 
 
@@ -37,8 +78,226 @@ export interface Route {
   activationDate: string;
 }
 
+// Line metadata derived from the GTFS feed (routes.txt + agency.txt)
+export interface RouteClassification {
+  routeShortName: string;
+  routeLongName: string;
+  vehicleType: VehicleType;
+  // GTFS route_type, kept for types that map onto BUS/TRAM only approximately
+  routeType: number;
+  agencyName: string;
+  // Official line color from route_color, e.g. '#D81B60'
+  routeColor: string | null;
+  // Data source whose catalogue lists the line, set when the catalogues of
+  // several sources are merged
+  sourceId?: DataSourceId;
+}
+
+// Lines keyed by routeShortName. Line numbers repeat between operators (e.g.
+// Gdańsk and Gdynia), so a line has one entry per operator and data source,
+// earlier data sources first; see findRoute in services/gtfs.ts.
+export type RouteCatalog = Map<string, RouteClassification[]>;
+
+// Geometry of one direction of a line, from GTFS shapes.txt
+export interface RouteShape {
+  shapeId: string;
+  routeShortName: string;
+  agencyName: string;
+  headsign: string;
+  directionId: number;
+  points: [number, number][];
+}
+
 export interface RoutesApiResponse {
   [date: string]: {
     routes: Route[];
   };
 }
+
+export interface ValidationIssue {
+  // Index of the record in the upstream payload
+  index: number;
+  vehicleId?: number;
+  // 'dropped' records were removed; 'coerced' ones were kept after fixing a field
+  action: 'dropped' | 'coerced';
+  reasons: string[];
+}
+
+export interface VehiclesSnapshot {
+  lastUpdate: string;
+  vehicles: RawVehicle[];
+  issues: ValidationIssue[];
+}
+
+// One poll of the vehicle feed as received, kept by the session recorder
+export interface RecordedSnapshot {
+  lastUpdate: string;
+  vehicles: RawVehicle[];
+}
+
+export interface Stop {
+  stopId: number;
+  stopCode: string;
+  stopName: string;
+  lat: number;
+  lon: number;
+}
+
+export interface Departure {
+  id: string;
+  routeShortName: string;
+  headsign: string;
+  // 'REALTIME' departures carry an estimate from a tracked vehicle,
+  // 'SCHEDULED' ones only the timetable time
+  status: 'REALTIME' | 'SCHEDULED';
+  theoreticalTime: string;
+  estimatedTime: string;
+  delayInSeconds: number;
+  vehicleCode: string | null;
+}
+
+export interface DeparturesSnapshot {
+  lastUpdate: string;
+  departures: Departure[];
+}
+
+// One recorded position of a vehicle, used for trails and trip replay
+export interface HistorySample {
+  // Feed time of the snapshot (ms since epoch), taken from lastUpdate
+  time: number;
+  lat: number;
+  lon: number;
+  speed: number;
+  bearing: number;
+  delay: number;
+  routeShortName: string;
+  headsign: string;
+}
+
+export interface DelayAggregate {
+  samples: number;
+  totalDelay: number;
+  // Samples above DELAY_THRESHOLD_SECONDS
+  delayedSamples: number;
+  // null until the first sample
+  maxDelay: number | null;
+}
+
+export interface LineDelayStats extends DelayAggregate {
+  routeShortName: string;
+  agencyName: string;
+  vehicleType: VehicleType;
+}
+
+// Network-wide state of a single poll
+export interface PunctualityPoint {
+  time: number;
+  vehicles: number;
+  meanDelay: number;
+  // Share of vehicles not delayed, 0..1
+  punctuality: number;
+}
+
+export type HeatmapMode = 'OFF' | 'DELAY_GAIN' | 'SLOW';
+
+export interface HeatmapSample {
+  time: number;
+  lat: number;
+  lon: number;
+  speed: number;
+  // Change of delay since the vehicle's previous sample, in seconds per minute
+  delayGain: number | null;
+  vehicleType: VehicleType;
+  routeShortName: string;
+}
+
+export interface HeatCell {
+  // South-west and north-east corners
+  bounds: [[number, number], [number, number]];
+  samples: number;
+  // Mean delay gain (s/min) or mean speed (km/h), depending on the mode
+  value: number;
+}
+
+// 'FAST' clusters vehicles at low zoom and draws them on a canvas when zoomed
+// in; 'AUTO' switches to it for large fleets.
+export type RenderMode = 'AUTO' | 'MARKERS' | 'FAST';
+
+export interface VehicleCluster {
+  key: string;
+  lat: number;
+  lon: number;
+  counts: Record<VehicleType, number>;
+  bounds: [[number, number], [number, number]];
+}
+
+// Live vehicle feeds, see services/dataSources.ts
+export type DataSourceId = 'ZTM_GDANSK' | 'ZKM_GDYNIA' | 'GTFS_RT';
+
+export type VehicleTypeFilter = 'ALL' | 'BUS' | 'TRAM';
+export type DelayFilter = 'ALL' | 'ON_TIME' | 'DELAYED';
+
+export interface Filters {
+  line: string;
+  type: VehicleTypeFilter;
+  delay: DelayFilter;
+  // Expression in the filter query language, see utils/filterQuery.ts
+  query: string;
+}
+
+// A named set of filters saved with the settings
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: Filters;
+}
+
+export interface MapView {
+  center: [number, number];
+  zoom: number;
+}
+
+// A saved location such as home or a favourite stop
+export interface FavouritePlace {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  // Set when the place was saved from a stop's departure board
+  stopId?: number;
+}
+
+// "Notify me when a vehicle of `line` (towards `headsign`) is within
+// `radiusMeters` of `placeId`"
+export interface ApproachAlertRule {
+  id: string;
+  kind: 'APPROACH';
+  line: string;
+  // Line numbers repeat between operators; without one the rule matches all
+  agencyName?: string;
+  headsign: string;
+  placeId: string;
+  radiusMeters: number;
+}
+
+// "Notify me when a vehicle of `line` is more than `minDelayMinutes` late"
+export interface DelayAlertRule {
+  id: string;
+  kind: 'DELAY';
+  line: string;
+  // As in ApproachAlertRule
+  agencyName?: string;
+  minDelayMinutes: number;
+}
+
+export type AlertRule = ApproachAlertRule | DelayAlertRule;
+
+export type ConnectionStatus = 'LIVE' | 'DEGRADED' | 'STALE' | 'OFFLINE';
+
+// UI languages with a complete dictionary in i18n/
+export type Language = 'pl' | 'en';
+
+// Translation with one variant per CLDR plural category of the language,
+// picked by the `count` parameter. Polish uses one/few/many, English one/other.
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
@@ -0,0 +1,72 @@
+// Quotes a field for CSV output when it contains a comma, quote or line break.
+export const csvField = (value: string | number | null | undefined) => {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Minimal RFC 4180 CSV parser for GTFS text files. Handles quoted fields with
+// embedded commas, quotes and line breaks, CRLF line endings and a UTF-8 BOM.
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const start = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Parses a CSV file with a header row into records keyed by column name.
+// Blank lines are skipped; missing trailing columns become empty strings.
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+  const columns = header.map(name => name.trim());
+
+  return rows
+    .filter(row => !(row.length === 1 && row[0] === ''))
+    .map(row => {
+      const record: Record<string, string> = {};
+      columns.forEach((column, i) => {
+        record[column] = row[i] ?? '';
+      });
+      return record;
+    });
+};
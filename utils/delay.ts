@@ -0,0 +1,32 @@
+import { Translate } from '../i18n';
+
+export interface DelayDisplay {
+  minutes: number;
+  text: string;
+  // Compact form for badges, e.g. "+3 min"
+  shortText: string;
+  // Tailwind text color class: red when late, green when ahead of schedule
+  colorClass: string;
+}
+
+// Formats a delay in seconds the way it is shown in vehicle popups and on
+// departure boards.
+export const formatDelay = (delaySeconds: number, t: Translate): DelayDisplay => {
+  const minutes = Math.round(delaySeconds / 60);
+  const text =
+    minutes > 0
+      ? t('delay.late', { count: minutes })
+      : minutes < 0
+      ? t('delay.early', { count: -minutes })
+      : t('delay.onTime');
+  const shortText =
+    minutes > 0
+      ? t('delay.shortLate', { count: minutes })
+      : minutes < 0
+      ? t('delay.shortEarly', { count: -minutes })
+      : t('delay.shortOnTime');
+  const colorClass =
+    minutes > 2 ? 'text-red-500' : minutes < -2 ? 'text-green-500' : 'text-gray-700 dark:text-gray-400';
+
+  return { minutes, text, shortText, colorClass };
+};
@@ -0,0 +1,18 @@
+// Long enough for the browser to start reading the file (as in FileSaver.js)
+const REVOKE_DELAY_MS = 40_000;
+
+// Saves generated content as a file through a temporary object URL.
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right after click() can cancel the download in Firefox and Safari
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+// File name friendly timestamp, e.g. 2024-05-10_12-00
+export const fileTimestamp = (date = new Date()) => date.toISOString().slice(0, 16).replace('T', '_').replace(':', '-');
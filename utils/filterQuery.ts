@@ -0,0 +1,148 @@
+import { Vehicle } from '../types';
+import { DELAY_THRESHOLD_SECONDS } from '../constants';
+import { normalizeSearchText } from './vehicleSearch';
+
+export type VehiclePredicate = (vehicle: Vehicle) => boolean;
+
+export interface FilterQuery {
+  matches: VehiclePredicate;
+  // Terms that could not be understood; they are left out of `matches`
+  invalidTerms: string[];
+}
+
+// Words that stand for a whole condition
+const FLAGS: Record<string, VehiclePredicate> = {
+  ahead: v => v.delay < 0,
+  late: v => v.delay > DELAY_THRESHOLD_SECONDS,
+  ontime: v => v.delay <= DELAY_THRESHOLD_SECONDS,
+  stopped: v => v.speed === 0,
+  moving: v => v.speed > 0,
+  bus: v => v.vehicleType === 'BUS',
+  tram: v => v.vehicleType === 'TRAM',
+};
+
+const NUMERIC_FIELDS: Record<string, (v: Vehicle) => number> = {
+  delay: v => v.delay,
+  speed: v => v.speed,
+};
+
+const TERM_PATTERN = /^(\w+)(>=|<=|!=|>|<|=|~|:)(.+)$/;
+// Whitespace separates terms, except inside double quotes.
+const TOKEN_PATTERN = /(?:[^\s"]+|"[^"]*")+/g;
+
+const unquote = (value: string) => value.replace(/"/g, '');
+
+// A line pattern is an exact line ("115"), a numeric range ("100-199") or a
+// wildcard: x is any digit, ? any character and * any run of characters, so
+// "1xx" is the 100 lines and "N*" the night lines.
+const compileLinePattern = (pattern: string): VehiclePredicate | null => {
+  const range = pattern.match(/^(\d+)-(\d+)$/);
+  if (range) {
+    const [from, to] = [Number(range[1]), Number(range[2])];
+    return v => /^\d+$/.test(v.routeShortName) && Number(v.routeShortName) >= from && Number(v.routeShortName) <= to;
+  }
+  if (!/^[\w*?]+$/.test(pattern)) return null;
+  const source = pattern.replace(/[xX]/g, '\\d').replace(/\?/g, '.').replace(/\*/g, '.*');
+  const regex = new RegExp(`^${source}$`, 'i');
+  return v => regex.test(v.routeShortName);
+};
+
+// Comma-separated alternatives, any of which may match
+const anyOf = (values: string[], compile: (value: string) => VehiclePredicate | null): VehiclePredicate | null => {
+  const predicates = values.map(value => compile(value.trim()));
+  if (predicates.length === 0 || predicates.some(p => p === null)) return null;
+  return v => predicates.some(p => p(v));
+};
+
+// Seconds by default; "5m" or "5min" are minutes.
+const parseNumber = (field: string, raw: string): number | null => {
+  const match = raw.match(/^(-?\d+(?:\.\d+)?)(s|m|min)?$/);
+  if (!match) return null;
+  const value = Number(match[1]);
+  if (match[2] === undefined || match[2] === 's') return value;
+  return field === 'delay' ? value * 60 : null;
+};
+
+const compare = (left: number, operator: string, right: number) => {
+  switch (operator) {
+    case '>': return left > right;
+    case '<': return left < right;
+    case '>=': return left >= right;
+    case '<=': return left <= right;
+    case '!=': return left !== right;
+    default: return left === right;
+  }
+};
+
+const parseTerm = (term: string): VehiclePredicate | null => {
+  const flag = FLAGS[term.toLowerCase()];
+  if (flag) return flag;
+
+  const match = term.match(TERM_PATTERN);
+  // A bare word is a line pattern, like in the line filter.
+  if (!match) return anyOf(term.split(','), compileLinePattern);
+
+  const [, rawField, operator, rawValue] = match;
+  const field = rawField.toLowerCase();
+  const value = unquote(rawValue);
+
+  if (field in NUMERIC_FIELDS) {
+    if (operator === '~') return null;
+    const number = parseNumber(field, value);
+    if (number === null) return null;
+    const read = NUMERIC_FIELDS[field];
+    return v => compare(read(v), operator, number);
+  }
+
+  const isNegated = operator === '!=';
+  let predicate: VehiclePredicate | null = null;
+  if (operator === ':' || operator === '=' || operator === '!=' || operator === '~') {
+    switch (field) {
+      case 'line':
+        predicate = anyOf(value.split(','), compileLinePattern);
+        break;
+      case 'headsign': {
+        // Contains by default, "=" compares the whole headsign
+        const isExact = operator === '=' || operator === '!=';
+        predicate = anyOf(value.split(','), part => {
+          const normalized = normalizeSearchText(part);
+          return v => isExact
+            ? normalizeSearchText(v.headsign) === normalized
+            : normalizeSearchText(v.headsign).includes(normalized);
+        });
+        break;
+      }
+      case 'type':
+        predicate = anyOf(value.split(','), part => {
+          const type = part.toLowerCase();
+          return type === 'bus' || type === 'tram' ? FLAGS[type] : null;
+        });
+        break;
+      case 'vehicle':
+        predicate = anyOf(value.split(','), part => v => v.vehicleCode === part);
+        break;
+    }
+  }
+  if (predicate === null) return null;
+  return isNegated ? v => !predicate(v) : predicate;
+};
+
+// Parses a filter expression such as `line:1xx headsign~"Oliwa" delay>5m`.
+// All terms must hold; a leading "-" negates a term and commas separate
+// alternatives within one, e.g. `line:N*,100-199 -stopped`.
+export const parseFilterQuery = (query: string): FilterQuery => {
+  const predicates: VehiclePredicate[] = [];
+  const invalidTerms: string[] = [];
+
+  for (const token of query.match(TOKEN_PATTERN) ?? []) {
+    const isNegated = token.startsWith('-') && token.length > 1;
+    const predicate = parseTerm(isNegated ? token.slice(1) : token);
+    if (predicate === null) invalidTerms.push(token);
+    else predicates.push(isNegated ? v => !predicate(v) : predicate);
+  }
+
+  return {
+    matches: v => predicates.every(p => p(v)),
+    invalidTerms,
+  };
+};
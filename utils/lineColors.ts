@@ -0,0 +1,39 @@
+import { RouteCatalog } from '../types';
+import { findRoute } from '../services/gtfs';
+
+// Distinct colors for lines without an official route_color. Picked to stay
+// readable on both the light OSM tiles and the dark CARTO tiles.
+const LINE_PALETTE = ['#E6194B', '#3CB44B', '#4363D8', '#F58231', '#911EB4', '#42D4F4', '#F032E6', '#9A6324', '#808000', '#000075'];
+
+// Key of a line of one operator in the maps returned by assignLineColors.
+export const lineColorKey = (agencyName: string, routeShortName: string) => `${agencyName}|${routeShortName}`;
+
+// Assigns a color to every operator's variant of the selected lines: the
+// official one from its GTFS feed when available, otherwise the next palette
+// color in selection order. Lines missing from the catalogue are keyed by an
+// empty operator, like the vehicles on them.
+export const assignLineColors = (lines: string[], catalog: RouteCatalog): Map<string, string> => {
+  const colors = new Map<string, string>();
+  let paletteIndex = 0;
+  for (const line of lines) {
+    const routes = catalog.get(line) ?? [{ agencyName: '', routeColor: null }];
+    for (const { agencyName, routeColor } of routes) {
+      // Two sources can list the same operator
+      if (colors.has(lineColorKey(agencyName, line))) continue;
+      colors.set(lineColorKey(agencyName, line), routeColor ?? LINE_PALETTE[paletteIndex++ % LINE_PALETTE.length]);
+    }
+  }
+  return colors;
+};
+
+// A palette color that stays the same for a key (a line or an operator)
+// across polls and sessions.
+export const paletteColor = (key: string) => {
+  let hash = 0;
+  for (const char of key) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return LINE_PALETTE[hash % LINE_PALETTE.length];
+};
+
+// The official color of a line of the operator, or a stable palette color.
+export const lineColor = (line: string, agencyName: string, catalog: RouteCatalog) =>
+  findRoute(catalog, line, agencyName)?.routeColor ?? paletteColor(line);
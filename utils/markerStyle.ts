@@ -0,0 +1,152 @@
+import { ColorStop, IconShape, MarkerColorRule, MarkerLabel, MarkerTheme, RouteCatalog, Vehicle } from '../types';
+import { MessageKey, Translate } from '../i18n';
+import { formatDelay } from './delay';
+import { lineColor, lineColorKey, paletteColor } from './lineColors';
+
+export const MARKER_COLOR_RULES: MarkerColorRule[] = ['TYPE', 'DELAY', 'LINE', 'SPEED', 'AGENCY'];
+export const MARKER_LABELS: MarkerLabel[] = ['LINE', 'HEADSIGN', 'FLEET_NUMBER', 'DELAY'];
+const ICON_SHAPES: IconShape[] = ['dot', 'vehicle', 'pin'];
+// Long headsigns would cover the neighbouring markers
+const MAX_LABEL_HEADSIGN_LENGTH = 18;
+
+export const DEFAULT_MARKER_THEME: MarkerTheme = {
+  colorRule: 'TYPE',
+  busColor: '#2563EB',
+  tramColor: '#DC2626',
+  busIconShape: 'dot',
+  tramIconShape: 'dot',
+  delayGradient: [
+    { value: -180, color: '#2563EB' },
+    { value: 0, color: '#16A34A' },
+    { value: 180, color: '#FACC15' },
+    { value: 600, color: '#DC2626' },
+  ],
+  speedGradient: [
+    { value: 0, color: '#6B7280' },
+    { value: 10, color: '#F97316' },
+    { value: 30, color: '#16A34A' },
+    { value: 50, color: '#2563EB' },
+  ],
+  agencyColors: {},
+  labels: [],
+};
+
+// Starting points offered in the settings; each replaces the whole theme.
+export const MARKER_THEME_PRESETS: { id: string; labelKey: MessageKey; theme: MarkerTheme }[] = [
+  { id: 'classic', labelKey: 'theme.presetClassic', theme: DEFAULT_MARKER_THEME },
+  { id: 'punctuality', labelKey: 'theme.presetPunctuality', theme: { ...DEFAULT_MARKER_THEME, colorRule: 'DELAY', labels: ['DELAY'] } },
+  { id: 'lines', labelKey: 'theme.presetLines', theme: { ...DEFAULT_MARKER_THEME, colorRule: 'LINE', labels: ['HEADSIGN'] } },
+  { id: 'speed', labelKey: 'theme.presetSpeed', theme: { ...DEFAULT_MARKER_THEME, colorRule: 'SPEED', busIconShape: 'vehicle', tramIconShape: 'vehicle' } },
+  { id: 'depot', labelKey: 'theme.presetDepot', theme: { ...DEFAULT_MARKER_THEME, colorRule: 'AGENCY', labels: ['FLEET_NUMBER'] } },
+];
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const parseGradient = (value: unknown, fallback: ColorStop[]): ColorStop[] => {
+  if (!Array.isArray(value)) return fallback;
+  const stops = value
+    .filter(stop => Number.isFinite(stop?.value) && isColor(stop?.color))
+    .map(stop => ({ value: Number(stop.value), color: stop.color as string }))
+    .sort((a, b) => a.value - b.value);
+  return stops.length >= 2 ? stops : fallback;
+};
+
+// Reads a theme from saved settings or an imported file. Fields that are
+// missing or invalid keep their defaults, so themes from older versions
+// still load. Throws when the value is not a theme at all.
+export const parseMarkerTheme = (value: unknown): MarkerTheme => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('Marker theme must be an object');
+  const data = value as Record<string, unknown>;
+  const pick = <T,>(field: keyof MarkerTheme, isValid: (v: unknown) => boolean): T =>
+    (isValid(data[field]) ? data[field] : DEFAULT_MARKER_THEME[field]) as T;
+
+  return {
+    colorRule: pick('colorRule', v => MARKER_COLOR_RULES.includes(v as MarkerColorRule)),
+    busColor: pick('busColor', isColor),
+    tramColor: pick('tramColor', isColor),
+    busIconShape: pick('busIconShape', v => ICON_SHAPES.includes(v as IconShape)),
+    tramIconShape: pick('tramIconShape', v => ICON_SHAPES.includes(v as IconShape)),
+    delayGradient: parseGradient(data.delayGradient, DEFAULT_MARKER_THEME.delayGradient),
+    speedGradient: parseGradient(data.speedGradient, DEFAULT_MARKER_THEME.speedGradient),
+    agencyColors: data.agencyColors && typeof data.agencyColors === 'object'
+      ? Object.fromEntries(Object.entries(data.agencyColors).filter(([, color]) => isColor(color)))
+      : {},
+    labels: Array.isArray(data.labels)
+      ? MARKER_LABELS.filter(label => (data.labels as unknown[]).includes(label))
+      : [],
+  };
+};
+
+// An imported file must at least name its color rule, so any JSON object is
+// not silently taken for the default theme.
+export const parseMarkerThemeJson = (text: string): MarkerTheme => {
+  const data = JSON.parse(text);
+  if (!MARKER_COLOR_RULES.includes(data?.colorRule)) throw new Error('Not a marker theme');
+  return parseMarkerTheme(data);
+};
+
+export const markerThemeToJson = (theme: MarkerTheme) => JSON.stringify(theme, null, 2);
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+// Linear interpolation between the neighbouring stops; values outside the
+// range take the color of the nearest end.
+export const interpolateColor = (stops: ColorStop[], value: number): string => {
+  if (value <= stops[0].value) return stops[0].color;
+  const upper = stops.findIndex(stop => stop.value >= value);
+  if (upper === -1) return stops[stops.length - 1].color;
+  const from = stops[upper - 1];
+  const to = stops[upper];
+  const share = (value - from.value) / (to.value - from.value);
+  const [r1, g1, b1] = hexToRgb(from.color);
+  const [r2, g2, b2] = hexToRgb(to.color);
+  const channel = (a: number, b: number) => Math.round(a + (b - a) * share).toString(16).padStart(2, '0');
+  return `#${channel(r1, r2)}${channel(g1, g2)}${channel(b1, b2)}`.toUpperCase();
+};
+
+// CSS background drawing the gradient from its first to its last stop.
+export const gradientCss = (stops: ColorStop[]) => {
+  const first = stops[0].value;
+  const range = stops[stops.length - 1].value - first || 1;
+  return `linear-gradient(to right, ${stops.map(stop => `${stop.color} ${((stop.value - first) / range) * 100}%`).join(', ')})`;
+};
+
+// Returns the marker color of a vehicle under the theme. Filtered lines keep
+// the color of their route shape under the TYPE and LINE rules; the gradient
+// rules always show their value.
+export const createMarkerColorResolver = (
+  theme: MarkerTheme,
+  selectedLineColors: Map<string, string>,
+  catalog: RouteCatalog,
+) => (vehicle: Vehicle): string => {
+  const selectedColor = selectedLineColors.get(lineColorKey(vehicle.agencyName, vehicle.routeShortName.toUpperCase()));
+  switch (theme.colorRule) {
+    case 'DELAY':
+      return interpolateColor(theme.delayGradient, vehicle.delay);
+    case 'SPEED':
+      return interpolateColor(theme.speedGradient, vehicle.speed);
+    case 'AGENCY':
+      return theme.agencyColors[vehicle.agencyName] ?? paletteColor(vehicle.agencyName);
+    case 'LINE':
+      return selectedColor ?? lineColor(vehicle.routeShortName, vehicle.agencyName, catalog);
+    case 'TYPE':
+    default:
+      return selectedColor ?? (vehicle.vehicleType === 'TRAM' ? theme.tramColor : theme.busColor);
+  }
+};
+
+// Text under a marker, or '' when the theme shows no labels.
+export const buildMarkerLabel = (vehicle: Vehicle, labels: MarkerLabel[], t: Translate): string =>
+  labels
+    .map(label => {
+      switch (label) {
+        case 'LINE': return vehicle.routeShortName;
+        case 'HEADSIGN': return vehicle.headsign.length > MAX_LABEL_HEADSIGN_LENGTH
+          ? `${vehicle.headsign.slice(0, MAX_LABEL_HEADSIGN_LENGTH - 1)}…`
+          : vehicle.headsign;
+        case 'FLEET_NUMBER': return vehicle.vehicleCode;
+        case 'DELAY': return formatDelay(vehicle.delay, t).shortText;
+      }
+    })
+    .filter(text => text !== '')
+    .join(' · ');
@@ -0,0 +1,40 @@
+export const METERS_PER_DEGREE_LAT = 111_320;
+
+// Projects a position forward along a bearing (degrees, clockwise from north)
+// at a constant speed in km/h. Flat-earth approximation, accurate enough for
+// the few hundred metres a vehicle covers between polls.
+export const deadReckon = (
+  lat: number,
+  lon: number,
+  speedKmh: number,
+  bearingDeg: number,
+  elapsedMs: number,
+): [number, number] => {
+  const distance = (speedKmh / 3.6) * (elapsedMs / 1000);
+  if (distance === 0) return [lat, lon];
+
+  const bearingRad = (bearingDeg * Math.PI) / 180;
+  const dLat = (distance * Math.cos(bearingRad)) / METERS_PER_DEGREE_LAT;
+  const dLon = (distance * Math.sin(bearingRad)) / (METERS_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180));
+  return [lat + dLat, lon + dLon];
+};
+
+// Distance in metres between two nearby points (equirectangular approximation).
+export const distanceMeters = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const dLat = (lat2 - lat1) * METERS_PER_DEGREE_LAT;
+  const dLon = (lon2 - lon1) * METERS_PER_DEGREE_LAT * Math.cos((((lat1 + lat2) / 2) * Math.PI) / 180);
+  return Math.hypot(dLat, dLon);
+};
+
+// Bearing in degrees (clockwise from north) from the first point to the second.
+export const bearingTo = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const dLat = lat2 - lat1;
+  const dLon = (lon2 - lon1) * Math.cos((((lat1 + lat2) / 2) * Math.PI) / 180);
+  return ((Math.atan2(dLon, dLat) * 180) / Math.PI + 360) % 360;
+};
+
+// Smallest difference between two bearings, 0–180 degrees.
+export const angleBetween = (a: number, b: number) => {
+  const diff = Math.abs(a - b) % 360;
+  return diff > 180 ? 360 - diff : diff;
+};
@@ -0,0 +1,71 @@
+// Runs a polling task on a timer chain instead of a fixed setInterval:
+// - the next poll is only scheduled once the previous one finished,
+// - polling pauses while the tab is hidden and resumes immediately when it
+//   becomes visible again (or when the browser comes back online),
+// - failed polls (rejected task) back off exponentially up to maxInterval.
+export class PollScheduler {
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private failures = 0;
+  private isRunning = false;
+  private isPolling = false;
+
+  constructor(
+    private readonly task: () => Promise<void>,
+    private readonly interval: number,
+    private readonly maxInterval: number,
+  ) {}
+
+  start() {
+    this.isRunning = true;
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('online', this.pollNow);
+    this.pollNow();
+  }
+
+  stop() {
+    this.isRunning = false;
+    this.clearTimer();
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('online', this.pollNow);
+  }
+
+  private pollNow = () => {
+    if (!this.isRunning || document.hidden) return;
+    this.clearTimer();
+    this.poll();
+  };
+
+  private async poll() {
+    // A poll still in flight schedules the next one itself.
+    if (this.isPolling) return;
+    this.isPolling = true;
+    try {
+      await this.task();
+      this.failures = 0;
+    } catch {
+      this.failures++;
+    } finally {
+      this.isPolling = false;
+    }
+    this.schedule();
+  }
+
+  private schedule() {
+    if (!this.isRunning || document.hidden) return;
+    const delay = Math.min(this.interval * 2 ** this.failures, this.maxInterval);
+    this.timeoutId = setTimeout(() => {
+      this.timeoutId = null;
+      this.poll();
+    }, delay);
+  }
+
+  private clearTimer() {
+    if (this.timeoutId !== null) clearTimeout(this.timeoutId);
+    this.timeoutId = null;
+  }
+
+  private handleVisibilityChange = () => {
+    if (document.hidden) this.clearTimer();
+    else this.pollNow();
+  };
+}
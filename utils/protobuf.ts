@@ -0,0 +1,137 @@
+// Minimal protocol buffers wire format reader and writer, enough for the
+// GTFS-Realtime messages the map reads: varints, 32-bit floats, strings and
+// nested messages. Varints are decoded arithmetically, so 64-bit values are
+// exact up to Number.MAX_SAFE_INTEGER (timestamps fit comfortably).
+
+export const WIRE_VARINT = 0;
+export const WIRE_FIXED64 = 1;
+export const WIRE_LENGTH_DELIMITED = 2;
+export const WIRE_FIXED32 = 5;
+
+export class ProtobufReader {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get isAtEnd() {
+    return this.offset >= this.bytes.length;
+  }
+
+  readTag(): { field: number; wireType: number } {
+    const tag = this.readVarint();
+    return { field: Math.floor(tag / 8), wireType: tag % 8 };
+  }
+
+  readVarint(): number {
+    let value = 0;
+    let multiplier = 1;
+    for (;;) {
+      if (this.offset >= this.bytes.length) throw new Error('Truncated varint');
+      const byte = this.bytes[this.offset++];
+      value += (byte & 0x7f) * multiplier;
+      if (byte < 0x80) return value;
+      multiplier *= 128;
+    }
+  }
+
+  readFloat(): number {
+    this.ensure(4);
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readVarint();
+    this.ensure(length);
+    const bytes = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  readString(): string {
+    return new TextDecoder('utf-8').decode(this.readBytes());
+  }
+
+  // Skips the value of a field this reader does not care about.
+  skip(wireType: number) {
+    switch (wireType) {
+      case WIRE_VARINT: this.readVarint(); break;
+      case WIRE_FIXED64: this.ensure(8); this.offset += 8; break;
+      case WIRE_LENGTH_DELIMITED: this.readBytes(); break;
+      case WIRE_FIXED32: this.ensure(4); this.offset += 4; break;
+      default: throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+
+  private ensure(length: number) {
+    if (this.offset + length > this.bytes.length) throw new Error('Truncated message');
+  }
+}
+
+// Calls onField for every field of a message; the callback must consume the
+// value with the matching read method or return false to have it skipped.
+export const readMessage = (
+  bytes: Uint8Array,
+  onField: (field: number, wireType: number, reader: ProtobufReader) => boolean,
+) => {
+  const reader = new ProtobufReader(bytes);
+  while (!reader.isAtEnd) {
+    const { field, wireType } = reader.readTag();
+    if (!onField(field, wireType, reader)) reader.skip(wireType);
+  }
+};
+
+// Builds a message field by field. Used for fixtures and the mock upstream.
+export class ProtobufWriter {
+  private chunks: number[] = [];
+
+  varint(field: number, value: number) {
+    this.tag(field, WIRE_VARINT);
+    this.rawVarint(value);
+    return this;
+  }
+
+  float(field: number, value: number) {
+    this.tag(field, WIRE_FIXED32);
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setFloat32(0, value, true);
+    this.chunks.push(...bytes);
+    return this;
+  }
+
+  string(field: number, value: string) {
+    return this.bytes(field, new TextEncoder().encode(value));
+  }
+
+  message(field: number, message: ProtobufWriter) {
+    return this.bytes(field, message.finish());
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+
+  private bytes(field: number, bytes: Uint8Array) {
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.rawVarint(bytes.length);
+    this.chunks.push(...bytes);
+    return this;
+  }
+
+  private tag(field: number, wireType: number) {
+    this.rawVarint(field * 8 + wireType);
+  }
+
+  private rawVarint(value: number) {
+    let rest = Math.floor(value);
+    while (rest >= 0x80) {
+      this.chunks.push((rest % 128) | 0x80);
+      rest = Math.floor(rest / 128);
+    }
+    this.chunks.push(rest);
+  }
+}
@@ -0,0 +1,79 @@
+import { DelayFilter, Filters, MapView, VehicleTypeFilter } from '../types';
+
+// Everything a shared link restores. Fields missing from the URL are undefined,
+// so the app keeps its own defaults (and saved settings) for them.
+export interface UrlState {
+  filters: Partial<Filters>;
+  view?: MapView;
+  isDarkMode?: boolean;
+  vehicleId?: number | null;
+  isFollowing?: boolean;
+}
+
+const TYPE_VALUES: Record<string, VehicleTypeFilter> = { bus: 'BUS', tram: 'TRAM' };
+const DELAY_VALUES: Record<string, DelayFilter> = { 'on-time': 'ON_TIME', delayed: 'DELAYED' };
+// Five decimals are about a metre, plenty for a map view.
+const COORDINATE_DECIMALS = 5;
+
+const findKey = <T,>(values: Record<string, T>, value: T) =>
+  Object.keys(values).find(key => values[key] === value);
+
+export const roundMapView = (center: [number, number], zoom: number): MapView => ({
+  center: [Number(center[0].toFixed(COORDINATE_DECIMALS)), Number(center[1].toFixed(COORDINATE_DECIMALS))],
+  zoom: Math.round(zoom),
+});
+
+// Reads the state from a query string such as
+// `?line=8&type=tram&q=delay>5m&map=15/54.38000/18.60000&dark=1&vehicle=1042&follow=1`.
+// Malformed values are ignored rather than reported.
+export const parseUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+  const state: UrlState = { filters: {} };
+
+  const line = params.get('line');
+  if (line !== null) state.filters.line = line;
+  const type = TYPE_VALUES[params.get('type') ?? ''];
+  if (type) state.filters.type = type;
+  const delay = DELAY_VALUES[params.get('delay') ?? ''];
+  if (delay) state.filters.delay = delay;
+  const query = params.get('q');
+  if (query !== null) state.filters.query = query;
+
+  const [zoom, lat, lon] = (params.get('map') ?? '').split('/').map(Number);
+  if (Number.isInteger(zoom) && zoom >= 1 && zoom <= 19 && Math.abs(lat) <= 90 && Math.abs(lon) <= 180) {
+    state.view = roundMapView([lat, lon], zoom);
+  }
+
+  const dark = params.get('dark');
+  if (dark === '1' || dark === '0') state.isDarkMode = dark === '1';
+
+  const vehicleId = Number(params.get('vehicle') ?? NaN);
+  state.vehicleId = Number.isInteger(vehicleId) && vehicleId > 0 ? vehicleId : null;
+  state.isFollowing = state.vehicleId !== null && params.get('follow') === '1';
+
+  return state;
+};
+
+// Builds the query string for the current state. Filters left at their
+// defaults are omitted to keep links short.
+export const buildUrlSearch = (
+  filters: Filters,
+  view: MapView,
+  isDarkMode: boolean,
+  vehicleId: number | null,
+  isFollowing: boolean,
+): string => {
+  const params = new URLSearchParams();
+  if (filters.line.trim() !== '') params.set('line', filters.line.trim());
+  const type = findKey(TYPE_VALUES, filters.type);
+  if (type) params.set('type', type);
+  const delay = findKey(DELAY_VALUES, filters.delay);
+  if (delay) params.set('delay', delay);
+  if (filters.query.trim() !== '') params.set('q', filters.query.trim());
+  params.set('map', `${view.zoom}/${view.center[0].toFixed(COORDINATE_DECIMALS)}/${view.center[1].toFixed(COORDINATE_DECIMALS)}`);
+  params.set('dark', isDarkMode ? '1' : '0');
+  if (vehicleId !== null) params.set('vehicle', String(vehicleId));
+  if (vehicleId !== null && isFollowing) params.set('follow', '1');
+  // URLSearchParams escapes '/' and ','; both are safe in a query and easier to read.
+  return `?${params.toString().replace(/%2F/g, '/').replace(/%2C/g, ',')}`;
+};
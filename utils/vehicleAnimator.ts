@@ -0,0 +1,116 @@
+import L from 'leaflet';
+import { deadReckon } from './motion';
+
+// Stop extrapolating after this long without a new fix, so vehicles do not
+// drift away when the feed stalls.
+export const MAX_EXTRAPOLATION_MS = 10_000;
+// How long a vehicle takes to settle on a new fix. Short enough to read as a
+// snap, long enough to avoid a visible jump.
+const SNAP_DURATION_MS = 400;
+
+export interface PositionFix {
+  lat: number;
+  lon: number;
+  speed: number;
+  bearing: number;
+}
+
+interface AnimatedVehicle {
+  marker: L.Marker;
+  fix: PositionFix;
+  fixTime: number;
+  // Offset between where the marker was drawn and the new fix, faded out over
+  // SNAP_DURATION_MS.
+  correction: [number, number];
+}
+
+// Moves all vehicle markers of one map between polls in a single
+// requestAnimationFrame loop. Each marker is dead-reckoned from its last fix
+// using speed and bearing; positions are set directly on the Leaflet markers,
+// so neither React nor the divIcons are involved per frame.
+export class VehicleAnimator {
+  private vehicles = new Map<number, AnimatedVehicle>();
+  private frameId: number | null = null;
+  private readonly isEnabled: boolean;
+
+  constructor(private readonly map: L.Map) {
+    this.isEnabled = !(window.matchMedia && window.matchMedia('(prefers-reduced-motion: reduce)').matches);
+    this.map.on('moveend', this.syncAll);
+  }
+
+  // Registers a new fix for a vehicle. The first fix places the marker as is.
+  update(vehicleId: number, marker: L.Marker, fix: PositionFix) {
+    const now = performance.now();
+    const previous = this.vehicles.get(vehicleId);
+    let correction: [number, number] = [0, 0];
+
+    if (previous && previous.marker === marker && this.isEnabled) {
+      const drawn = this.positionAt(previous, now);
+      correction = [drawn[0] - fix.lat, drawn[1] - fix.lon];
+    }
+
+    const vehicle: AnimatedVehicle = { marker, fix, fixTime: now, correction };
+    this.vehicles.set(vehicleId, vehicle);
+    marker.setLatLng(this.positionAt(vehicle, now));
+    this.ensureRunning();
+  }
+
+  remove(vehicleId: number) {
+    this.vehicles.delete(vehicleId);
+  }
+
+  stop() {
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.vehicles.clear();
+    this.map.off('moveend', this.syncAll);
+  }
+
+  private positionAt(vehicle: AnimatedVehicle, now: number): [number, number] {
+    if (!this.isEnabled) return [vehicle.fix.lat, vehicle.fix.lon];
+
+    const elapsed = Math.min(now - vehicle.fixTime, MAX_EXTRAPOLATION_MS);
+    const [lat, lon] = deadReckon(vehicle.fix.lat, vehicle.fix.lon, vehicle.fix.speed, vehicle.fix.bearing, elapsed);
+    const fade = Math.max(0, 1 - (now - vehicle.fixTime) / SNAP_DURATION_MS);
+    return [lat + vehicle.correction[0] * fade, lon + vehicle.correction[1] * fade];
+  }
+
+  private isMoving(vehicle: AnimatedVehicle, now: number) {
+    const age = now - vehicle.fixTime;
+    return age < SNAP_DURATION_MS || (vehicle.fix.speed > 0 && age < MAX_EXTRAPOLATION_MS);
+  }
+
+  private ensureRunning() {
+    if (this.frameId === null && this.isEnabled) {
+      this.frameId = requestAnimationFrame(this.tick);
+    }
+  }
+
+  private tick = () => {
+    this.frameId = null;
+    const now = performance.now();
+    // Off-screen markers are skipped; they get placed correctly once they
+    // scroll into view on a later frame.
+    const bounds = this.map.getBounds().pad(0.1);
+    let hasMovingVehicles = false;
+
+    for (const vehicle of this.vehicles.values()) {
+      if (!this.isMoving(vehicle, now)) continue;
+      hasMovingVehicles = true;
+      const position = this.positionAt(vehicle, now);
+      if (bounds.contains(position)) {
+        vehicle.marker.setLatLng(position);
+      }
+    }
+
+    if (hasMovingVehicles) this.ensureRunning();
+  };
+
+  // Catches up the markers skipped while they were off-screen.
+  private syncAll = () => {
+    const now = performance.now();
+    for (const vehicle of this.vehicles.values()) {
+      vehicle.marker.setLatLng(this.positionAt(vehicle, now));
+    }
+  };
+}
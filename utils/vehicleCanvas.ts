@@ -0,0 +1,210 @@
+import L from 'leaflet';
+import { IconShape, Vehicle } from '../types';
+import { deadReckon } from './motion';
+import { MAX_EXTRAPOLATION_MS } from './vehicleAnimator';
+import { LABEL_BACKGROUND, LABEL_COLOR, LABEL_FONT, STALE_ICON_OPACITY, buildVehicleIconSvg, labelOffset } from './vehicleIcons';
+
+const PANE_NAME = 'vehicleCanvas';
+// Between the overlay pane (route shapes, heatmap) and the marker pane
+const PANE_Z_INDEX = '450';
+// Dead reckoning is redrawn at 10 fps. Smooth enough for vehicles that move a
+// few pixels per second, and a fraction of the cost of a full frame rate.
+const FRAME_INTERVAL_MS = 100;
+// Icons overlapping the viewport edge are still drawn
+const EDGE_MARGIN_PX = 40;
+
+export interface CanvasVehicle {
+  vehicle: Vehicle;
+  color: string;
+  iconShape: IconShape;
+  label?: string;
+  isStale?: boolean;
+}
+
+interface TrackedVehicle extends CanvasVehicle {
+  fixTime: number;
+}
+
+interface IconImage {
+  image: HTMLImageElement;
+  size: [number, number];
+}
+
+interface DrawnIcon {
+  vehicleId: number;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+// Draws vehicles onto a single canvas instead of one DOM marker each. The
+// icons are the same SVGs as the DOM markers, rasterized once per shape,
+// color and line and then stamped with drawImage. Clicks are hit-tested
+// against the drawn positions.
+export class VehicleCanvasRenderer {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly context: CanvasRenderingContext2D;
+  private vehicles = new Map<number, TrackedVehicle>();
+  private icons = new Map<string, IconImage>();
+  private drawn: DrawnIcon[] = [];
+  private frameId: number | null = null;
+  private lastFrame = 0;
+  private readonly isAnimated: boolean;
+
+  constructor(
+    private readonly map: L.Map,
+    private readonly onClick: (vehicleId: number) => void,
+  ) {
+    this.isAnimated = !(window.matchMedia && window.matchMedia('(prefers-reduced-motion: reduce)').matches);
+
+    const pane = map.getPane(PANE_NAME) ?? map.createPane(PANE_NAME);
+    pane.style.zIndex = PANE_Z_INDEX;
+    pane.style.pointerEvents = 'none';
+    this.canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide', pane);
+    this.context = this.canvas.getContext('2d')!;
+
+    map.on('moveend zoomend resize', this.draw);
+    map.on('click', this.handleClick);
+    map.on('mousemove', this.handleMouseMove);
+  }
+
+  setVehicles(items: CanvasVehicle[]) {
+    const now = performance.now();
+    const next = new Map<number, TrackedVehicle>();
+    for (const item of items) {
+      const previous = this.vehicles.get(item.vehicle.vehicleId);
+      // Dead reckoning restarts only when the position actually changed.
+      const isSameFix = previous && previous.vehicle.lat === item.vehicle.lat && previous.vehicle.lon === item.vehicle.lon;
+      next.set(item.vehicle.vehicleId, { ...item, fixTime: isSameFix ? previous.fixTime : now });
+    }
+    this.vehicles = next;
+    this.draw();
+  }
+
+  destroy() {
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.map.off('moveend zoomend resize', this.draw);
+    this.map.off('click', this.handleClick);
+    this.map.off('mousemove', this.handleMouseMove);
+    this.map.getContainer().style.cursor = '';
+    this.canvas.remove();
+  }
+
+  private getIcon(item: CanvasVehicle): IconImage {
+    const { vehicle, color, iconShape } = item;
+    // Only the dot shape shows the line number
+    const key = `${iconShape}|${vehicle.vehicleType}|${color}|${iconShape === 'dot' ? vehicle.routeShortName : ''}`;
+    let icon = this.icons.get(key);
+    if (!icon) {
+      const { svg, size } = buildVehicleIconSvg(vehicle.vehicleType, vehicle.routeShortName, color, iconShape);
+      const image = new Image(size[0], size[1]);
+      image.onload = () => this.draw();
+      image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+      icon = { image, size };
+      this.icons.set(key, icon);
+    }
+    return icon;
+  }
+
+  private positionOf(item: TrackedVehicle, now: number): [number, number] {
+    const { lat, lon, speed, bearing } = item.vehicle;
+    if (!this.isAnimated) return [lat, lon];
+    return deadReckon(lat, lon, speed, bearing, Math.min(now - item.fixTime, MAX_EXTRAPOLATION_MS));
+  }
+
+  private draw = () => {
+    const now = performance.now();
+    const size = this.map.getSize();
+    const ratio = window.devicePixelRatio || 1;
+    if (this.canvas.width !== size.x * ratio || this.canvas.height !== size.y * ratio) {
+      this.canvas.width = size.x * ratio;
+      this.canvas.height = size.y * ratio;
+      this.canvas.style.width = `${size.x}px`;
+      this.canvas.style.height = `${size.y}px`;
+    }
+    // The pane moves with the map while dragging; keep the canvas on the viewport.
+    L.DomUtil.setPosition(this.canvas, this.map.containerPointToLayerPoint([0, 0]));
+
+    const ctx = this.context;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, size.x, size.y);
+    this.drawn = [];
+    let hasMovingVehicles = false;
+
+    for (const item of this.vehicles.values()) {
+      if (this.isAnimated && item.vehicle.speed > 0 && now - item.fixTime < MAX_EXTRAPOLATION_MS) {
+        hasMovingVehicles = true;
+      }
+      const point = this.map.latLngToContainerPoint(this.positionOf(item, now));
+      if (point.x < -EDGE_MARGIN_PX || point.y < -EDGE_MARGIN_PX || point.x > size.x + EDGE_MARGIN_PX || point.y > size.y + EDGE_MARGIN_PX) {
+        continue;
+      }
+
+      const { image, size: [width, height] } = this.getIcon(item);
+      if (image.complete) {
+        ctx.save();
+        ctx.translate(point.x, point.y);
+        ctx.rotate((item.vehicle.bearing * Math.PI) / 180);
+        if (item.isStale) ctx.globalAlpha = STALE_ICON_OPACITY;
+        ctx.drawImage(image, -width / 2, -height / 2, width, height);
+        ctx.restore();
+      }
+      if (item.label) this.drawLabel(item.label, point.x, point.y + labelOffset([width, height]), item.isStale);
+      this.drawn.push({ vehicleId: item.vehicle.vehicleId, x: point.x, y: point.y, radius: Math.max(width, height) / 2 });
+    }
+
+    this.lastFrame = now;
+    if (hasMovingVehicles) this.scheduleFrame();
+  };
+
+  // Centered under the icon, like the labels of the DOM markers
+  private drawLabel(text: string, x: number, top: number, isStale?: boolean) {
+    const ctx = this.context;
+    ctx.save();
+    ctx.font = LABEL_FONT;
+    if (isStale) ctx.globalAlpha = STALE_ICON_OPACITY;
+    const width = ctx.measureText(text).width + 8;
+    ctx.fillStyle = LABEL_BACKGROUND;
+    ctx.beginPath();
+    ctx.roundRect(x - width / 2, top, width, 15, 4);
+    ctx.fill();
+    ctx.fillStyle = LABEL_COLOR;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, x, top + 7.5);
+    ctx.restore();
+  }
+
+  private scheduleFrame() {
+    if (this.frameId !== null) return;
+    const step = (now: number) => {
+      if (now - this.lastFrame < FRAME_INTERVAL_MS) {
+        this.frameId = requestAnimationFrame(step);
+        return;
+      }
+      this.frameId = null;
+      this.draw();
+    };
+    this.frameId = requestAnimationFrame(step);
+  }
+
+  // Topmost (last drawn) icon under the pointer
+  private hitTest(x: number, y: number): number | null {
+    for (let i = this.drawn.length - 1; i >= 0; i--) {
+      const icon = this.drawn[i];
+      if ((icon.x - x) ** 2 + (icon.y - y) ** 2 <= icon.radius ** 2) return icon.vehicleId;
+    }
+    return null;
+  }
+
+  private handleClick = (event: L.LeafletMouseEvent) => {
+    const vehicleId = this.hitTest(event.containerPoint.x, event.containerPoint.y);
+    if (vehicleId !== null) this.onClick(vehicleId);
+  };
+
+  private handleMouseMove = (event: L.LeafletMouseEvent) => {
+    const isOverVehicle = this.hitTest(event.containerPoint.x, event.containerPoint.y) !== null;
+    this.map.getContainer().style.cursor = isOverVehicle ? 'pointer' : '';
+  };
+}
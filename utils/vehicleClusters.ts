@@ -0,0 +1,46 @@
+import { Vehicle, VehicleCluster } from '../types';
+
+// Groups vehicles that fall into the same square of `cellSize` pixels at the
+// current zoom. `project` must return absolute (world) pixel coordinates, so
+// the grid does not move when the map is panned. Cells holding a single
+// vehicle are returned as singles rather than as a cluster of one.
+export const clusterVehicles = (
+  vehicles: Vehicle[],
+  project: (lat: number, lon: number) => [number, number],
+  cellSize: number,
+): { clusters: VehicleCluster[]; singles: Vehicle[] } => {
+  const cells = new Map<string, Vehicle[]>();
+  for (const vehicle of vehicles) {
+    const [x, y] = project(vehicle.lat, vehicle.lon);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(vehicle);
+    else cells.set(key, [vehicle]);
+  }
+
+  const clusters: VehicleCluster[] = [];
+  const singles: Vehicle[] = [];
+  for (const [key, members] of cells) {
+    if (members.length === 1) {
+      singles.push(members[0]);
+      continue;
+    }
+
+    const cluster: VehicleCluster = {
+      key,
+      lat: 0,
+      lon: 0,
+      counts: { BUS: 0, TRAM: 0 },
+      bounds: [[Infinity, Infinity], [-Infinity, -Infinity]],
+    };
+    for (const v of members) {
+      cluster.lat += v.lat / members.length;
+      cluster.lon += v.lon / members.length;
+      cluster.counts[v.vehicleType]++;
+      cluster.bounds[0] = [Math.min(cluster.bounds[0][0], v.lat), Math.min(cluster.bounds[0][1], v.lon)];
+      cluster.bounds[1] = [Math.max(cluster.bounds[1][0], v.lat), Math.max(cluster.bounds[1][1], v.lon)];
+    }
+    clusters.push(cluster);
+  }
+  return { clusters, singles };
+};
@@ -0,0 +1,76 @@
+import { IconShape, VehicleType } from '../types';
+
+// Vehicles with a frozen GPS position are drawn faded
+export const STALE_ICON_OPACITY = 0.45;
+
+// Marker labels: dark text on a light pill, readable on both map themes
+export const LABEL_FONT = '600 11px sans-serif';
+export const LABEL_BACKGROUND = 'rgba(255,255,255,0.85)';
+export const LABEL_COLOR = '#111827';
+
+// Distance from the icon center to the top of its label. Icons rotate with
+// the bearing, so the label clears the icon's longer side.
+export const labelOffset = (size: [number, number]) => Math.max(size[0], size[1]) / 2 + 2;
+
+// Labels carry feed text (headsigns) into marker HTML
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+export interface VehicleIconSvg {
+  svg: string;
+  size: [number, number];
+}
+
+// SVG markup of a vehicle icon, unrotated. Shared by the DOM markers and the
+// canvas renderer, so both draw exactly the same shapes.
+export const buildVehicleIconSvg = (
+  vehicleType: VehicleType,
+  routeShortName: string,
+  color: string,
+  iconShape: IconShape,
+): VehicleIconSvg => {
+  const shadowFilter = `filter: drop-shadow(0 2px 2px rgba(0,0,0,0.5));`;
+
+  switch (iconShape) {
+    case 'dot': {
+      const fontSize = routeShortName.length > 2 ? '10px' : routeShortName.length > 1 ? '12px' : '14px';
+      return {
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="${color}" width="26" height="26" style="${shadowFilter}">
+            <circle cx="12" cy="12" r="11" stroke="white" stroke-width="1.5" />
+            <text x="12" y="12" dominant-baseline="central" text-anchor="middle" fill="white" font-size="${fontSize}" font-weight="bold" font-family="sans-serif">
+              ${routeShortName}
+            </text>
+          </svg>`,
+        size: [26, 26],
+      };
+    }
+
+    case 'pin':
+      return {
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="${color}" width="30" height="30" style="${shadowFilter}">
+            <path d="M12 0C7.589 0 4 3.589 4 8c0 4.411 8 16 8 16s8-11.589 8-16c0-4.411-3.589-8-8-8zm0 12c-2.21 0-4-1.79-4-4s1.79-4 4-4 4 1.79 4 4-1.79 4-4 4z"/>
+          </svg>`,
+        size: [30, 30],
+      };
+
+    case 'vehicle':
+    default:
+      if (vehicleType === 'TRAM') {
+        return {
+          svg: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 40 12" fill="${color}" width="40" height="12" style="${shadowFilter}">
+              <rect x="0" y="0" width="19" height="12" rx="3" />
+              <rect x="21" y="0" width="19" height="12" rx="3" />
+              <rect x="18" y="4" width="4" height="4" fill="rgba(0,0,0,0.4)" rx="1"/>
+            </svg>`,
+          size: [40, 12],
+        };
+      }
+      return {
+        svg: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 30 14" fill="${color}" width="30" height="14" style="${shadowFilter}">
+            <rect x="0" y="0" width="30" height="14" rx="3" />
+            <rect x="3" y="2" width="24" height="10" fill="rgba(255,255,255,0.4)" rx="2" />
+          </svg>`,
+        size: [30, 14],
+      };
+  }
+};
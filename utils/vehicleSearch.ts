@@ -0,0 +1,34 @@
+import { Vehicle } from '../types';
+
+// Lower case without Polish diacritics, so "wrzeszcz" finds "Wrzeszcz" and
+// "lostowice" finds "Łostowice".
+export const normalizeSearchText = (text: string) =>
+  text.toLowerCase().replace(/ł/g, 'l').normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Lower is better; null means no match.
+const scoreVehicle = (vehicle: Vehicle, query: string): number | null => {
+  const code = normalizeSearchText(vehicle.vehicleCode);
+  const line = normalizeSearchText(vehicle.routeShortName);
+  if (code === query) return 0;
+  if (line === query) return 1;
+  if (code.startsWith(query)) return 2;
+  if (normalizeSearchText(vehicle.headsign).includes(query)) return 3;
+  return null;
+};
+
+// Vehicles matching a fleet number, line or headsign, best matches first.
+export const searchVehicles = (vehicles: Vehicle[], query: string, limit: number): Vehicle[] => {
+  const normalizedQuery = normalizeSearchText(query.trim());
+  if (normalizedQuery === '') return [];
+
+  return vehicles
+    .map(vehicle => ({ vehicle, score: scoreVehicle(vehicle, normalizedQuery) }))
+    .filter((match): match is { vehicle: Vehicle; score: number } => match.score !== null)
+    .sort((a, b) =>
+      a.score - b.score ||
+      a.vehicle.routeShortName.localeCompare(b.vehicle.routeShortName, 'pl', { numeric: true }) ||
+      a.vehicle.vehicleCode.localeCompare(b.vehicle.vehicleCode, 'pl', { numeric: true }),
+    )
+    .slice(0, limit)
+    .map(match => match.vehicle);
+};